@@ -1,5 +1,5 @@
 import React, { useRef, useState } from 'react';
-import { Container, Typography, Box, Paper, Grid, Button, Checkbox, FormControlLabel, TextField, CircularProgress } from '@mui/material';
+import { Container, Typography, Box, Paper, Grid, Button, Checkbox, FormControlLabel, TextField, CircularProgress, ToggleButton, ToggleButtonGroup, Alert } from '@mui/material';
 import { PictureAsPdf } from '@mui/icons-material';
 import FileUpload, { triggerNextSheetProcessing } from './components/FileUpload';
 import type { ParsedData } from './components/FileUpload';
@@ -7,13 +7,59 @@ import DataTable from './components/DataTable';
 import Charts from './components/Charts';
 import ParameterVisualization from './components/ParameterVisualization';
 import TGIAnalysis from './components/TGIAnalysis';
+import SurvivalAnalysis from './components/SurvivalAnalysis';
+import BodyWeightAnalysis from './components/BodyWeightAnalysis';
 import { AnimalDataManager } from './utils/AnimalDataManager';
 import type { AnimalRecord } from './utils/AnimalDataManager';
 import Plot from 'react-plotly.js';
 import ColumnMappingDialog from './components/ColumnMappingDialog';
+import type { ColumnMapping } from './components/ColumnMappingDialog';
 import MetadataImportDialog from './components/MetadataImportDialog';
+import type { MetadataImport } from './components/MetadataImportDialog';
+import MappingTemplateManager from './components/MappingTemplateManager';
 import { Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
 import { PDFExport } from './utils/PDFExport';
+import { unpivotWideRows } from './utils/WideFormat';
+import { addDerivedVolume, describeVolumeFormula } from './utils/TumorVolume';
+import { applyParameterUnits, describeUnitConversion } from './utils/Units';
+import { parseNumericColumns } from './utils/NumberParsing';
+import type { UnitCode } from './utils/Units';
+import { appendProvenance, emptyProvenance, provenanceLines } from './utils/DatasetProvenance';
+import type { DatasetProvenance } from './utils/DatasetProvenance';
+import {
+  detectTimeFormat, isDateFormat, parseDateValue, earliestEpochDay, formatEpochDay, studyDayFromEpochDays,
+  TIME_FORMAT_LABELS
+} from './utils/DateParsing';
+import type { DateFormat } from './utils/DateParsing';
+import {
+  defaultAnchoring, resolveAnchors, unanchoredAnimals, describeAnchoring, isAnchoringValid
+} from './utils/StudyDayAnchoring';
+import type { DayZeroAnchoring } from './utils/StudyDayAnchoring';
+import DayZeroAnchoringEditor from './components/DayZeroAnchoringEditor';
+import ProvenanceNote from './components/ProvenanceNote';
+import ImportValidationDialog from './components/ImportValidationDialog';
+import ImportChangeSummaryDialog from './components/ImportChangeSummaryDialog';
+import ReimportDiffDialog from './components/ReimportDiffDialog';
+import ImportProgress from './components/ImportProgress';
+import SendExportDialog from './components/SendExportDialog';
+import StudyDesignDialog from './components/StudyDesignDialog';
+import RandomisationDialog from './components/RandomisationDialog';
+import StudyEventsDialog from './components/StudyEventsDialog';
+import type { CollectedTabs, MappedTab } from './utils/TabMerge';
+import { validateMetadata, findGroupColumn, summarizeResolutions, resolutionFor } from './utils/ImportValidation';
+import type { IssueResolutions, ValidationIssue } from './utils/ImportValidation';
+import { AnimalIdMatcher, summarizeIdMatches } from './utils/AnimalIdMatcher';
+import type { IdAliases, IdMatch } from './utils/AnimalIdMatcher';
+import { appendToDataset, applyDiffEntries, reimportDiff } from './utils/DatasetDiff';
+import type { DiffEntry, FileChanges } from './utils/DatasetDiff';
+import { importWorker, ImportCancelledError } from './utils/ImportWorkerClient';
+import type { ImportWorkerArgs, ImportWorkerMethod, ImportWorkerResult } from './utils/ImportWorkerClient';
+import type { SendImport } from './utils/SendImport';
+import type { StudyDesign } from './utils/StudyDesign';
+import { applyAllocation } from './utils/Randomisation';
+import type { Allocation } from './utils/Randomisation';
+import { eventOverlay, eventsForAnimal } from './utils/StudyEvents';
+import type { EventDisplay, StudyEvent } from './utils/StudyEvents';
 
 // Simple timeline table for demonstration
 const AnimalTimelineView: React.FC<{ animal?: AnimalRecord }> = ({ animal }) => {
@@ -50,8 +96,12 @@ const AnimalTimelineView: React.FC<{ animal?: AnimalRecord }> = ({ animal }) =>
   );
 };
 
-// Timeline chart for selected animal with parameter selection
-const AnimalTimelineChart: React.FC<{ animal?: AnimalRecord }> = ({ animal }) => {
+// Timeline chart for selected animal with parameter selection, with its dosing and other events
+const AnimalTimelineChart: React.FC<{
+  animal?: AnimalRecord;
+  events?: StudyEvent[];
+  eventDisplay?: EventDisplay;
+}> = ({ animal, events = [], eventDisplay = 'markers' }) => {
   const [selectedParams, setSelectedParams] = useState<string[]>([]);
   if (!animal || animal.measurements.length === 0) return <div>No data for this animal.</div>;
   const allParams = Array.from(
@@ -78,6 +128,7 @@ const AnimalTimelineChart: React.FC<{ animal?: AnimalRecord }> = ({ animal }) =>
     mode: 'lines+markers',
     name: param
   }));
+  const overlay = eventOverlay(events, eventDisplay);
 
   return (
     <Box sx={{ mt: 2 }}>
@@ -109,88 +160,21 @@ const AnimalTimelineChart: React.FC<{ animal?: AnimalRecord }> = ({ animal }) =>
           height: 400,
           title: { text: `Timeline for Animal ${animal.animalId}` },
           xaxis: { title: 'Study Day' },
-          yaxis: { title: 'Value' }
+          yaxis: { title: 'Value' },
+          shapes: overlay.shapes,
+          annotations: overlay.annotations
         }}
       />
     </Box>
   );
 };
 
-function isDateString(val: string) {
-  // Simple check for YYYY-MM-DD or MM/DD/YYYY
-  return /\d{4}-\d{2}-\d{2}/.test(val) || /\d{1,2}\/\d{1,2}\/\d{2,4}/.test(val);
-}
-function parseDate(val: string) {
-  if (!val || typeof val !== 'string') return null;
-  
-  // Try to parse as ISO date
-  if (/\d{4}-\d{2}-\d{2}/.test(val)) {
-    const d = new Date(val);
-    if (!isNaN(d.getTime())) return d;
-  }
-  
-  // Try to parse as US date MM/DD/YYYY
-  if (/\d{1,2}\/\d{1,2}\/\d{2,4}/.test(val)) {
-    const d = parseUSDate(val);
-    if (!isNaN(d.getTime())) return d;
-  }
-  
-  return null;
-}
-function daysBetween(date1: Date, date2: Date) {
-  return Math.round((date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24));
-}
-
-function parseUSDate(val: string) {
-  try {
-    // MM/DD/YYYY
-    const [m, d, y] = val.split('/');
-    if (!m || !d || !y) return new Date(NaN);
-    
-    let year = y.length === 2 ? '20' + y : y;
-    const date = new Date(Number(year), Number(m) - 1, Number(d));
-    
-    // Validate the date components
-    if (date.getFullYear() != Number(year) || 
-        date.getMonth() != Number(m) - 1 || 
-        date.getDate() != Number(d)) {
-      return new Date(NaN);
-    }
-    
-    return date;
-  } catch (e) {
-    return new Date(NaN);
-  }
-}
-
-function getEarliestDateInPendingTabs(pendingDateTabs: any[], pendingDateMappings: any[], pendingDateRows: any[]) {
-  let minDate: Date | null = null;
-  let allDates: Date[] = [];
-  pendingDateTabs.forEach((tab, idx) => {
-    const mapping = pendingDateMappings[idx];
-    const rows = pendingDateRows[idx];
-    const timeCol = mapping.timeColumn;
-    rows.forEach(row => {
-      const val = row[timeCol];
-      if (typeof val === 'string') {
-        let d: Date | null = null;
-        if (/\d{4}-\d{2}-\d{2}/.test(val)) {
-          d = new Date(val);
-        } else if (/\d{1,2}\/\d{1,2}\/\d{2,4}/.test(val)) {
-          d = parseUSDate(val);
-        }
-        if (d && !isNaN(d.getTime())) {
-          allDates.push(d);
-          if (!minDate || d < minDate) minDate = d;
-        }
-      }
-    });
-  });
-  if (allDates.length > 0) {
-    console.log('All detected dates:', allDates.map(d => d.toISOString()));
-    console.log('Earliest date:', minDate?.toISOString());
-  }
-  return minDate;
+// Earliest date across all tabs waiting for date conversion, as an epoch day
+function getEarliestDateInPendingTabs(pendingDateMappings: ColumnMapping[], pendingDateRows: ParsedData[]) {
+  return earliestEpochDay(pendingDateMappings.map((mapping, idx) => ({
+    values: pendingDateRows[idx].map(row => row[mapping.timeColumn]),
+    format: mapping.timeFormat as DateFormat
+  })));
 }
 
 function App() {
@@ -199,19 +183,59 @@ function App() {
   const [allAnimals, setAllAnimals] = useState<AnimalRecord[]>([]);
   const [selectedAnimalId, setSelectedAnimalId] = useState<string | null>(null);
   const [isExportingGlobal, setIsExportingGlobal] = useState(false);
+  const [showSendExport, setShowSendExport] = useState(false);
+  // Groups, doses and control of the study, linked to the group values in the data
+  const [studyDesign, setStudyDesign] = useState<StudyDesign | null>(null);
+  const [showStudyDesign, setShowStudyDesign] = useState(false);
+  const [showRandomisation, setShowRandomisation] = useState(false);
+  // Dosing and other study events, and how the time-course charts draw them
+  const [studyEvents, setStudyEvents] = useState<StudyEvent[]>([]);
+  const [eventDisplay, setEventDisplay] = useState<EventDisplay>('markers');
+  const [showStudyEvents, setShowStudyEvents] = useState(false);
+  const [provenance, setProvenance] = useState<DatasetProvenance>(emptyProvenance());
+  // Whether a new import replaces the current study, is added to it, or is a corrected version of a file in it
+  const [importMode, setImportMode] = useState<'replace' | 'append' | 'reimport'>('replace');
+  // Per-file changes made by the last import added to the study
+  const [importSummary, setImportSummary] = useState<FileChanges[] | null>(null);
+  // What the last SEND package import read from each domain
+  const [sendSummary, setSendSummary] = useState<string[] | null>(null);
+  // Differences found by a re-import, waiting for the user to accept them
+  const [pendingReimport, setPendingReimport] = useState<{
+    fileName: string;
+    entries: DiffEntry[];
+    provenance: DatasetProvenance;
+  } | null>(null);
   // For per-tab mapping
-  const [pendingTabs, setPendingTabs] = useState<{ tabName: string; columns: string[]; rows: ParsedData }[]>([]);
+  const [pendingTabs, setPendingTabs] = useState<{ tabName: string; columns: string[]; rows: ParsedData; fileName?: string }[]>([]);
   const [currentTabIndex, setCurrentTabIndex] = useState(0);
   const [tabMappings, setTabMappings] = useState<any[]>([]);
   const [showMappingDialog, setShowMappingDialog] = useState(false);
   // Metadata import state
   const [showMetadataPrompt, setShowMetadataPrompt] = useState(false);
   const [showMetadataImport, setShowMetadataImport] = useState(false);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
   const [showStudyStartPrompt, setShowStudyStartPrompt] = useState(false);
   const [studyStartDate, setStudyStartDate] = useState('');
+  // Start date of the current study, reused for files added to it so day 0 doesn't move
+  const [currentStudyStart, setCurrentStudyStart] = useState('');
+  // Hand-made animal ID aliases for IDs the normalisation rules can't join
+  const [idAliases, setIdAliases] = useState<IdAliases>({});
+  // Imports held until the validation report is resolved
+  const [pendingMerge, setPendingMerge] = useState<{
+    tabs: MappedTab[];
+    collected: CollectedTabs;
+    dayZeroRule?: string;
+  } | null>(null);
+  // Progress of the merge while it runs in the import worker
+  const [mergeProgress, setMergeProgress] = useState<{ label: string; done?: number; total?: number } | null>(null);
+  const [pendingMetadata, setPendingMetadata] = useState<{
+    metadata: MetadataImport;
+    issues: ValidationIssue[];
+  } | null>(null);
+  const [dayZeroAnchoring, setDayZeroAnchoring] = useState<DayZeroAnchoring>(defaultAnchoring());
   const [pendingDateTabs, setPendingDateTabs] = useState<any[]>([]);
-  const [pendingDateMappings, setPendingDateMappings] = useState<any[]>([]);
-  const [pendingDateRows, setPendingDateRows] = useState<any[]>([]);
+  const [pendingDateMappings, setPendingDateMappings] = useState<ColumnMapping[]>([]);
+  const [pendingDateRows, setPendingDateRows] = useState<ParsedData[]>([]);
   const [selectedParameter, setSelectedParameter] = useState<string>('');
   const [allTabs, setAllTabs] = useState<{ tabName: string; columns: string[]; rows: ParsedData }[]>([]); // all tabs from file
   const [originalAllTabs, setOriginalAllTabs] = useState<{ tabName: string; columns: string[]; rows: ParsedData }[]>([]); // ALL tabs from file (for metadata)
@@ -246,7 +270,7 @@ function App() {
 
   // Called after user selects tabs and data is parsed for each
   // Now receives individual tabs one at a time or batched tabs with identical headers
-  const handleTabsParsed = (tabs: { tabName: string; columns: string[]; rows: ParsedData; currentTabNumber?: number; totalTabs?: number; currentUINumber?: number; totalUIs?: number; isGroupedMapping?: boolean }[]) => {
+  const handleTabsParsed = (tabs: { tabName: string; columns: string[]; rows: ParsedData; fileName?: string; currentTabNumber?: number; totalTabs?: number; currentUINumber?: number; totalUIs?: number; isGroupedMapping?: boolean }[]) => {
     console.log(`Received ${tabs.length} tab(s) for mapping`);
     
     // Add all received tabs to our accumulated tabs
@@ -278,15 +302,51 @@ function App() {
   };
 
   // Called when user confirms mapping for a tab
-  const handleMappingConfirm = (mapping: { animalIdColumn: string; timeColumn: string; parameterColumns: string[] }) => {
+  const handleMappingConfirm = (mapping: ColumnMapping) => {
     const currentTab = pendingTabs[0];
     console.log(`Processing mapping for tab: ${currentTab.tabName}`);
     
+    // Wide sheets are unpivoted here so everything downstream sees one row per animal and day
+    let mappedRows = mapping.layout === 'wide'
+      ? unpivotWideRows(currentTab.rows, mapping.animalIdColumn, mapping.dayColumns || [])
+      : currentTab.rows;
+    let effectiveMapping = mapping;
+
+    // Numbers stored as text ("123,4", "1.234,5") are read per column before anything computes with them
+    const volume = mapping.derivedVolume;
+    const numberColumns = Array.from(new Set([
+      ...mapping.parameterColumns,
+      ...(volume ? [volume.lengthColumn, volume.widthColumn, volume.heightColumn || ''] : [])
+    ])).filter(Boolean);
+    const numbers = parseNumericColumns(mappedRows, numberColumns, mapping.numberLocale);
+    mappedRows = numbers.rows;
+    let ambiguousNumbers = numbers.ambiguous;
+
+    // Compute tumour volume from caliper readings and import it as an extra parameter
+    if (mapping.derivedVolume) {
+      mappedRows = addDerivedVolume(mappedRows, mapping.derivedVolume);
+      effectiveMapping = {
+        ...mapping,
+        parameterColumns: Array.from(new Set([...mapping.parameterColumns, mapping.derivedVolume.outputColumn]))
+      };
+    }
+
+    // Bare parameter names ("Volume (cm3)" -> "Volume") with values in the canonical unit
+    if (mapping.units) {
+      const converted = applyParameterUnits(mappedRows, effectiveMapping.parameterColumns, mapping.units);
+      mappedRows = converted.rows;
+      const renamed = new Map(effectiveMapping.parameterColumns.map((col, i) => [col, converted.parameterColumns[i]]));
+      ambiguousNumbers = ambiguousNumbers.map(cell => ({ ...cell, column: renamed.get(cell.column) ?? cell.column }));
+      effectiveMapping = { ...effectiveMapping, parameterColumns: converted.parameterColumns, units: converted.units };
+    }
+
     // Create mapping for current tab
     const tabMapping = {
       tabName: currentTab.tabName,
-      mapping,
-      rows: currentTab.rows
+      fileName: currentTab.fileName,
+      mapping: effectiveMapping,
+      rows: mappedRows,
+      ambiguousNumbers
     };
     
     console.log(`Applying mapping to tab: ${tabMapping.tabName}`);
@@ -298,13 +358,16 @@ function App() {
       return updated;
     });
     
-    // Check for date columns in this tab
+    // Check for date columns in this tab (wide sheets already carry numeric study days)
     const timeCol = mapping.timeColumn;
-    const firstRow = currentTab.rows.find(r => r[timeCol]);
-    if (firstRow && typeof firstRow[timeCol] === 'string' && isDateString(firstRow[timeCol])) {
-      // Save for later conversion
-      setPendingDateTabs(prev => [...prev, { tabName: tabMapping.tabName, rows: tabMapping.rows }]);
-      setPendingDateMappings(prev => [...prev, mapping]);
+    const timeFormat = !mapping.timeFormat || mapping.timeFormat === 'auto'
+      ? detectTimeFormat(mappedRows.map(r => r[timeCol]), timeCol).format
+      : mapping.timeFormat;
+    if (mapping.layout !== 'wide' && isDateFormat(timeFormat)) {
+      // Save for later conversion, remembering the resolved format
+      const dateMapping = { ...effectiveMapping, timeFormat };
+      setPendingDateTabs(prev => [...prev, { tabName: tabMapping.tabName, fileName: tabMapping.fileName, rows: tabMapping.rows, ambiguousNumbers }]);
+      setPendingDateMappings(prev => [...prev, dateMapping]);
       setPendingDateRows(prev => [...prev, tabMapping.rows]);
     }
     
@@ -369,6 +432,16 @@ function App() {
     triggerNextSheetProcessing();
   };
 
+  // SEND domains come with their mapping (and DM metadata), so they go straight to the merge
+  const handleSendParsed = (send: SendImport) => {
+    if (send.tabs.length === 0) {
+      alert(`No SEND findings domains with study days were found.${send.summary.length ? `\n${send.summary.join('\n')}` : ''}`);
+      return;
+    }
+    setSendSummary(send.summary);
+    mergeTabsAndContinue(send.tabs);
+  };
+
   // Metadata import dialog logic
   const handleMetadataImport = () => {
     setShowMetadataPrompt(false);
@@ -376,13 +449,9 @@ function App() {
   };
 
   // When user confirms metadata import from new dialog
-  const handleMetadataImportConfirm = (metadata: { 
-    sourceTab: string; 
-    animalIdColumn: string; 
-    metadataColumns: string[]; 
-    mappingPreview: any[] 
-  }) => {
+  const handleMetadataImportConfirm = (metadata: MetadataImport) => {
     console.log('Importing metadata:', metadata);
+    setShowMetadataImport(false);
     
     // Find the source tab from ALL tabs in the file
     const metaTab = originalAllTabs.find(tab => tab.tabName === metadata.sourceTab);
@@ -391,32 +460,71 @@ function App() {
       return;
     }
 
-    // Create metadata map by animal ID
+    // Check for animals without a group and metadata IDs with no data before merging
+    const issues = validateMetadata(
+      dataIdMatcher(),
+      metaTab.tabName,
+      metaTab.rows,
+      metadata.animalIdColumn,
+      findGroupColumn(metadata.metadataColumns)
+    );
+    if (issues.length > 0) {
+      setPendingMetadata({ metadata, issues });
+      return;
+    }
+    applyMetadata(metadata, [], {});
+  };
+
+  // Matcher over the animals currently in the data, with the user's aliases
+  const dataIdMatcher = () => {
+    const matcher = new AnimalIdMatcher(idAliases);
+    allAnimals.forEach(animal => matcher.add(animal.animalId));
+    return matcher;
+  };
+
+  const applyMetadata = (metadata: MetadataImport, issues: ValidationIssue[], resolutions: IssueResolutions) => {
+    const metaTab = originalAllTabs.find(tab => tab.tabName === metadata.sourceTab);
+    if (!metaTab) return;
+
+    // Create metadata map by animal ID, joining ID variants through the normalisation rules
+    const matcher = dataIdMatcher();
     const metaMap = new Map();
+    const idMatches: IdMatch[] = [];
     metaTab.rows.forEach(row => {
-      const animalId = row[metadata.animalIdColumn];
-      if (animalId) { // Only add if animal ID exists
-        metaMap.set(animalId, row);
+      const match = matcher.match(row[metadata.animalIdColumn]);
+      if (match && !metaMap.has(match.id)) { // Only add if animal ID matches an animal
+        metaMap.set(match.id, row);
+        idMatches.push(match);
       }
     });
 
     console.log(`Created metadata map for ${metaMap.size} animals`);
 
+    // Animals the user chose to drop because they have no group
+    const excludedAnimals = new Set(
+      issues
+        .filter(issue => issue.type === 'no_group' && resolutionFor(resolutions, issue) === 'exclude')
+        .map(issue => issue.animalId)
+    );
+
     // Merge metadata into main data
     setData(prevData => {
       if (!prevData) return prevData;
       
-      const updated = prevData.map(row => {
-        const meta = metaMap.get(row.animalId);
-        const newRow = { ...row };
-        
-        // Add each metadata field
-        metadata.metadataColumns.forEach(field => {
-          newRow[field] = meta ? (meta[field] || 'N/A') : 'N/A';
+      const dataId = (row: Record<string, unknown>) => matcher.match(row.animalId)?.id;
+      const updated = prevData
+        .filter(row => !excludedAnimals.has(dataId(row)))
+        .map(row => {
+          const meta = metaMap.get(dataId(row));
+          const newRow = { ...row };
+          
+          // Add each metadata field
+          metadata.metadataColumns.forEach(field => {
+            newRow[field] = meta ? (meta[field] || 'N/A') : 'N/A';
+          });
+          
+          return newRow;
         });
-        
-        return newRow;
-      });
 
       console.log(`Updated ${updated.length} data rows with metadata`);
 
@@ -432,11 +540,47 @@ function App() {
       return updated;
     });
 
-    setShowMetadataImport(false);
+    const idSummary = summarizeIdMatches(idMatches);
+    setProvenance(prev => ({
+      ...prev,
+      idMatching: idSummary ? [...prev.idMatching, `metadata "${metaTab.tabName}", ${idSummary}`] : prev.idMatching,
+      importResolutions: [...prev.importResolutions, ...summarizeResolutions(issues, resolutions)]
+    }));
+  };
+
+  // Commit whichever import was held for the validation report
+  const handleValidationConfirm = (resolutions: IssueResolutions) => {
+    if (pendingMerge) {
+      // Cancelling the merge returns to the report
+      commitMerge(pendingMerge.tabs, pendingMerge.collected, resolutions, pendingMerge.dayZeroRule).then(committed => {
+        if (!committed) return;
+        setPendingMerge(null);
+        setShowMetadataPrompt(true);
+      });
+    } else if (pendingMetadata) {
+      applyMetadata(pendingMetadata.metadata, pendingMetadata.issues, resolutions);
+      setPendingMetadata(null);
+    }
+  };
+
+  // Day 0 per animal (from a column or its cohort), with IDs matched the way the merge will match them,
+  // and the animals in the date tabs that have none
+  const resolveDayZero = () => {
+    const matcher = new AnimalIdMatcher(idAliases);
+    if (importMode !== 'replace' && data) allAnimals.forEach(animal => matcher.add(animal.animalId));
+    const anchorTab = originalAllTabs.find(tab => tab.tabName === dayZeroAnchoring.sourceTab);
+    const anchors = resolveAnchors(dayZeroAnchoring, anchorTab ? anchorTab.rows : [], matcher);
+    const dateTabs = pendingDateTabs.map((tab, idx) => ({ rows: tab.rows, animalIdColumn: pendingDateMappings[idx].animalIdColumn }));
+    return { matcher, anchors, unanchored: unanchoredAnimals(dayZeroAnchoring, anchors, dateTabs, matcher) };
   };
 
   // Study start date dialog confirm
   const handleStudyStartConfirm = () => {
+    // Animals without their own day 0 are left out and reported rather than counted from the study start
+    const { matcher, anchors, unanchored } = resolveDayZero();
+    const start = parseDateValue(studyStartDate, 'iso');
+    const leftOut = new Set(unanchored);
+
     // Convert dates to study days in allTabs (the original data source)
     const tabsWithConvertedDates = allTabs.map(tab => {
       const tabMapping = [...tabMappings, ...pendingDateTabs.map((pendingTab, idx) => ({ 
@@ -446,20 +590,19 @@ function App() {
       
       if (!tabMapping) return tab;
       
-      const { timeColumn } = tabMapping.mapping;
-      const convertedRows = tab.rows.map(row => {
+      const { animalIdColumn, timeColumn, timeFormat } = tabMapping.mapping;
+      // Prefer the mapped rows (unpivoted, derived volume) kept for this date tab
+      const sourceRows = pendingDateTabs.find(t => t.tabName === tab.tabName)?.rows || tab.rows;
+      const convertedRows = sourceRows.flatMap(row => {
         const newRow = { ...row };
-        if (typeof newRow[timeColumn] === 'string' && isDateString(newRow[timeColumn])) {
-          const d = parseDate(newRow[timeColumn]);
-          const start = parseDate(studyStartDate);
-          if (d && start) {
-            const day = daysBetween(d, start);
-            if (!isNaN(day)) {
-              newRow[timeColumn] = day;
-            }
-          }
+        if (timeFormat && isDateFormat(timeFormat)) {
+          const id = matcher.resolve(row[animalIdColumn])?.id;
+          if (id && leftOut.has(id)) return [];
+          const dayZero = id ? anchors.get(id) ?? start : start;
+          const d = parseDateValue(newRow[timeColumn], timeFormat);
+          if (dayZero !== null && d !== null) newRow[timeColumn] = studyDayFromEpochDays(d, dayZero);
         }
-        return newRow;
+        return [newRow];
       });
       
       return { ...tab, rows: convertedRows };
@@ -476,31 +619,42 @@ function App() {
       // Use converted data for tabs that had dates
       ...pendingDateTabs.map((tab, idx) => ({ 
         tabName: tab.tabName, 
+        fileName: tab.fileName,
         mapping: pendingDateMappings[idx],
-        rows: tabsWithConvertedDates.find(t => t.tabName === tab.tabName)?.rows || []
+        rows: tabsWithConvertedDates.find(t => t.tabName === tab.tabName)?.rows || [],
+        ambiguousNumbers: tab.ambiguousNumbers
       }))
     ];
     
     console.log('Merging after date conversion:', allTabsToMerge.map(t => t.tabName));
     
-    mergeTabsAndContinue(allTabsToMerge);
     setShowStudyStartPrompt(false);
-    setPendingDateTabs([]);
-    setPendingDateMappings([]);
-    setPendingDateRows([]);
-    setStudyStartDate('');
-    setShowMetadataPrompt(true);
+    mergeTabsAndContinue(
+      allTabsToMerge,
+      describeAnchoring(dayZeroAnchoring, studyStartDate, unanchored)
+    ).then(result => {
+      // A cancelled merge keeps the date tabs so Finish Import can run again
+      if (result === 'cancelled') return;
+      setCurrentStudyStart(studyStartDate);
+      setPendingDateTabs([]);
+      setPendingDateMappings([]);
+      setPendingDateRows([]);
+      setStudyStartDate('');
+      setDayZeroAnchoring(defaultAnchoring());
+      if (result === 'merged') setShowMetadataPrompt(true);
+    });
   };
 
   // Helper to robustly find earliest date in all pending date tabs
   React.useEffect(() => {
     if (showStudyStartPrompt) {
-      const minDate = getEarliestDateInPendingTabs(pendingDateTabs, pendingDateMappings, pendingDateRows);
-      if (minDate && minDate instanceof Date && !isNaN(minDate.getTime())) {
-        const yyyy = minDate.getFullYear();
-        const mm = String(minDate.getMonth() + 1).padStart(2, '0');
-        const dd = String(minDate.getDate()).padStart(2, '0');
-        setStudyStartDate(`${yyyy}-${mm}-${dd}`);
+      if (importMode !== 'replace' && data && currentStudyStart) {
+        setStudyStartDate(currentStudyStart);
+        return;
+      }
+      const minDate = getEarliestDateInPendingTabs(pendingDateMappings, pendingDateRows);
+      if (minDate !== null) {
+        setStudyStartDate(formatEpochDay(minDate));
       }
     }
   }, [showStudyStartPrompt]);
@@ -508,7 +662,30 @@ function App() {
   // Pass this to FileUpload so it calls handleTabsParsed after tab selection
   // FileUpload should parse each selected tab and call this with an array of { tabName, columns, rows }
 
+  const earliestPendingDate = showStudyStartPrompt
+    ? getEarliestDateInPendingTabs(pendingDateMappings, pendingDateRows)
+    : null;
+  const pendingUnanchored = showStudyStartPrompt && isAnchoringValid(dayZeroAnchoring)
+    ? resolveDayZero().unanchored
+    : [];
+
+  // Canonical units of the study being added to, and of tabs already mapped in this import
+  const knownUnits: Record<string, UnitCode> = importMode !== 'replace' && data ? { ...provenance.parameterUnits } : {};
+  tabMappings.forEach(tab => {
+    Object.entries((tab.mapping as ColumnMapping).units || {}).forEach(([name, unit]) => {
+      knownUnits[name] = unit.canonical;
+    });
+  });
+
   const selectedAnimal = allAnimals.find(a => a.animalId === (selectedAnimalId ? selectedAnimalId.trim() : ''));
+  // Events for the selected animal: its own, its group's (by any group value it has) and study-wide ones
+  const selectedAnimalEvents = React.useMemo(() => {
+    if (!selectedAnimal || !data) return [];
+    const values = data
+      .filter(row => String(row.animalId) === selectedAnimal.animalId)
+      .flatMap(row => Object.values(row).filter((v): v is string => typeof v === 'string'));
+    return eventsForAnimal(studyEvents, selectedAnimal.animalId, Array.from(new Set(values)));
+  }, [selectedAnimal, data, studyEvents]);
 
   // Global export function to export all visualization sections
   const handleGlobalExportToPDF = async () => {
@@ -535,11 +712,20 @@ function App() {
       const waterfallElement = document.querySelector('[data-export="waterfall-analysis"]') as HTMLElement;
       if (waterfallElement) elements.push(waterfallElement);
 
+      // Add survival analysis
+      const survivalElement = document.querySelector('[data-export="survival-analysis"]') as HTMLElement;
+      if (survivalElement) elements.push(survivalElement);
+
+      // Add body-weight toxicity
+      const bodyWeightElement = document.querySelector('[data-export="body-weight-analysis"]') as HTMLElement;
+      if (bodyWeightElement) elements.push(bodyWeightElement);
+
       if (elements.length > 0) {
         await PDFExport.exportElementToPDF(elements[0].parentElement || elements[0], {
           filename: 'tumor_study_complete_report',
           includeTimestamp: true,
-          quality: 1.0
+          quality: 1.0,
+          methods: provenanceLines(provenance)
         });
       }
     } catch (error) {
@@ -550,75 +736,117 @@ function App() {
     }
   };
 
-  function mergeTabsAndContinue(allTabsToMerge: any[]) {
-    const mergedMap = new Map();
-    
+  // Heavy merge steps run in the import worker; resolves to null if the user cancels or the step fails
+  async function runImportTask<M extends ImportWorkerMethod>(method: M, args: ImportWorkerArgs<M>): Promise<ImportWorkerResult<M> | null> {
+    setMergeProgress({ label: 'Preparing merge' });
+    try {
+      return await importWorker.call(method, args, (label, done, total) => setMergeProgress({ label, done, total }));
+    } catch (error) {
+      if (!(error instanceof ImportCancelledError)) {
+        console.error(`Import step ${method} failed:`, error);
+        alert('Failed to merge the imported tabs. Please try again.');
+      }
+      return null;
+    } finally {
+      setMergeProgress(null);
+    }
+  }
+
+  // Merge mapped tabs; 'held' when the import waits for the validation report
+  async function mergeTabsAndContinue(allTabsToMerge: any[], dayZeroRule?: string): Promise<'merged' | 'held' | 'cancelled'> {
     console.log('Merging tabs:', allTabsToMerge.map(t => ({ name: t.tabName, params: t.mapping?.parameterColumns })));
     
-    allTabsToMerge.forEach((tabMap) => {
+    const tabs: MappedTab[] = allTabsToMerge.map(tabMap => {
       // Use the rows from the tabMap itself if available, otherwise find from allTabs
       let tabRows = tabMap.rows;
-      console.log(`Tab ${tabMap.tabName} - tabMap.rows length:`, tabRows?.length || 0);
-      
       if (!tabRows || tabRows.length === 0) {
         const origTab = allTabs.find(t => t.tabName === tabMap.tabName);
         tabRows = origTab ? origTab.rows : [];
         console.log(`Tab ${tabMap.tabName} - fallback to allTabs, found:`, tabRows?.length || 0);
       }
-      
-      const { animalIdColumn, timeColumn, parameterColumns } = tabMap.mapping;
-      console.log(`Processing tab ${tabMap.tabName}: ${tabRows.length} rows, params: ${parameterColumns}`);
-      
-      tabRows.forEach((row: any) => {
-        const studyDay = row[timeColumn];
-        const animalId = row[animalIdColumn];
-        
-        // Skip rows with missing essential data
-        if (!animalId || studyDay === undefined || studyDay === null || studyDay === '') {
-          return;
-        }
-        
-        const key = `${animalId}__${studyDay}`;
-        
-        if (!mergedMap.has(key)) {
-          // Create new merged record with base fields and parameters from this tab
-          const merged: any = { 
-            animalId, 
-            studyDay: Number(studyDay),
-          };
-          
-          // Add parameters from this tab
-          parameterColumns.forEach((param: string) => {
-            if (row[param] !== undefined && row[param] !== null && row[param] !== '') {
-              // Convert to number if it looks like a number
-              const value = row[param];
-              merged[param] = isNaN(Number(value)) ? value : Number(value);
-            }
-          });
-          
-          mergedMap.set(key, merged);
-        } else {
-          // Merge additional parameters into existing record
-          const merged = mergedMap.get(key);
-          parameterColumns.forEach((param: string) => {
-            if (row[param] !== undefined && row[param] !== null && row[param] !== '') {
-              const value = row[param];
-              merged[param] = isNaN(Number(value)) ? value : Number(value);
-            }
-          });
-          
-          // Note: Metadata should now be added via the explicit metadata import dialog
-        }
-      });
+      return {
+        tabName: tabMap.tabName,
+        mapping: tabMap.mapping,
+        rows: tabRows,
+        ambiguousNumbers: tabMap.ambiguousNumbers,
+        fileName: tabMap.fileName
+      };
     });
     
-    const mergedRows = Array.from(mergedMap.values());
+    // Animals already in the study, so ID variants in the added files join them
+    const knownIds = importMode !== 'replace' && data ? allAnimals.map(animal => animal.animalId) : [];
+    const collected = await runImportTask('collectTabs', { tabs, aliases: idAliases, knownIds });
+    if (!collected) return 'cancelled';
+    if (collected.issues.length > 0) {
+      console.log(`Import validation found ${collected.issues.length} issue(s)`);
+      setPendingMerge({ tabs, collected, dayZeroRule });
+      return 'held';
+    }
+    return (await commitMerge(tabs, collected, {}, dayZeroRule)) ? 'merged' : 'cancelled';
+  }
+
+  // Resolves to false if the merge was cancelled, leaving the current study unchanged
+  async function commitMerge(tabs: MappedTab[], collected: CollectedTabs, resolutions: IssueResolutions, dayZeroRule?: string): Promise<boolean> {
+    const mergedRows = await runImportTask('mergeTabs', { collected, resolutions });
+    if (!mergedRows) return false;
     console.log(`Final merged data: ${mergedRows.length} records`);
     console.log('Sample merged record:', mergedRows[0]);
+
+    const parameterUnits: Record<string, UnitCode> = {};
+    const unitConversions = new Set<string>();
+    tabs.forEach(tab => {
+      Object.entries(tab.mapping.units || {}).forEach(([name, unit]) => {
+        parameterUnits[name] = unit.canonical;
+        if (unit.unit !== unit.canonical) unitConversions.add(`${describeUnitConversion(name, unit)} in "${tab.tabName}"`);
+      });
+    });
+
+    // Record how derived parameters were calculated so the report can state it
+    const imported: DatasetProvenance = {
+      sourceFiles: Array.from(new Set(tabs.map(tab => tab.fileName).filter(Boolean))),
+      dayZeroRule,
+      volumeFormulas: Array.from(new Set(
+        tabs
+          .filter(tab => tab.mapping.derivedVolume)
+          .map(tab => describeVolumeFormula(tab.mapping.derivedVolume!))
+      )),
+      parameterUnits,
+      unitConversions: Array.from(unitConversions),
+      idMatching: collected.idMatches.length > 0
+        ? [`across tabs, ${summarizeIdMatches(collected.idMatches)}`]
+        : [],
+      importResolutions: summarizeResolutions(collected.issues, resolutions),
+      acceptedChanges: []
+    };
+
+    // A corrected file changes nothing until its differences are reviewed
+    if (importMode === 'reimport' && data) {
+      const parameters = Array.from(new Set(tabs.flatMap(tab => tab.mapping.parameterColumns)));
+      setPendingReimport({
+        fileName: imported.sourceFiles.join(', ') || tabs.map(tab => tab.tabName).join(', '),
+        entries: reimportDiff(data, mergedRows, parameters),
+        provenance: imported
+      });
+      setShowMappingDialog(false);
+      setPendingTabs([]);
+      setTabMappings([]);
+      setCurrentTabIndex(0);
+      return true;
+    }
+
+    // Added files are merged into the current study; the summary is measured against it before the merge
+    const appending = importMode === 'append' && data !== null;
+    const summary = appending
+      ? await runImportTask('changesByFile', { existing: data, tabs, aliases: idAliases, resolutions })
+      : null;
+    if (appending && !summary) return false;
+    const studyRows = appending ? appendToDataset(data, mergedRows) : mergedRows;
+    setProvenance(appending ? appendProvenance(provenance, imported) : imported);
+    setImportSummary(summary);
     
     dataManagerRef.current = new AnimalDataManager();
-    dataManagerRef.current.consolidateData(mergedRows);
-    setData(mergedRows);
+    dataManagerRef.current.consolidateData(studyRows);
+    setData(studyRows);
     setAllAnimals(
       dataManagerRef.current.getAllAnimals().sort((a, b) =>
         a.animalId.localeCompare(b.animalId)
@@ -629,6 +857,44 @@ function App() {
     setPendingTabs([]);
     setTabMappings([]);
     setCurrentTabIndex(0);
+    return true;
+  }
+
+  // Apply the re-import changes the user accepted, recording each with the file it came from
+  function handleReimportAccept(accepted: DiffEntry[]) {
+    if (pendingReimport && data && accepted.length > 0) {
+      const updated = applyDiffEntries(data, accepted);
+      setProvenance(appendProvenance(provenance, {
+        ...pendingReimport.provenance,
+        acceptedChanges: accepted.map(entry => ({ ...entry, fileName: pendingReimport.fileName }))
+      }));
+      dataManagerRef.current = new AnimalDataManager();
+      dataManagerRef.current.consolidateData(updated);
+      setData(updated);
+      setAllAnimals(
+        dataManagerRef.current.getAllAnimals().sort((a, b) =>
+          a.animalId.localeCompare(b.animalId)
+        )
+      );
+    }
+    setPendingReimport(null);
+    setShowMetadataPrompt(false);
+  }
+
+  // Write the group allocation into the data and record how it was made
+  function handleApplyRandomisation(allocations: Allocation[], groupField: string, description: string) {
+    if (!data) return;
+    const updated = applyAllocation(data, allocations, groupField);
+    setProvenance({ ...provenance, randomisation: description });
+    dataManagerRef.current = new AnimalDataManager();
+    dataManagerRef.current.consolidateData(updated);
+    setData(updated);
+    setAllAnimals(
+      dataManagerRef.current.getAllAnimals().sort((a, b) =>
+        a.animalId.localeCompare(b.animalId)
+      )
+    );
+    setShowRandomisation(false);
   }
 
   return (
@@ -700,17 +966,53 @@ function App() {
               Upload Data File (CSV or Excel)
             </Typography>
             <Box sx={{ mt: 2 }}>
+              {data && (
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={importMode}
+                  onChange={(_, mode) => mode && setImportMode(mode)}
+                  sx={{ mb: 2 }}
+                >
+                  <ToggleButton value="replace">Replace current study</ToggleButton>
+                  <ToggleButton value="append">Add to current study</ToggleButton>
+                  <ToggleButton value="reimport">Re-import corrected file</ToggleButton>
+                </ToggleButtonGroup>
+              )}
               {/* FileUpload should call handleTabsParsed after tab selection */}
               <FileUpload 
                 onTabsParsed={handleTabsParsed} 
                 onAllTabsParsed={setOriginalAllTabs}
+                onSendParsed={handleSendParsed}
               />
+              {sendSummary && (
+                <Alert severity="info" onClose={() => setSendSummary(null)} sx={{ mt: 2 }}>
+                  <strong>SEND import</strong>
+                  {sendSummary.map(line => <div key={line}>{line}</div>)}
+                </Alert>
+              )}
+              <Box sx={{ mt: 1, textAlign: 'right' }}>
+                <Button size="small" onClick={() => setShowStudyDesign(true)}>
+                  🧪 {studyDesign ? `Study Design${studyDesign.studyId ? ` (${studyDesign.studyId})` : ''}` : 'Define Study Design'}
+                </Button>
+                <Button size="small" onClick={() => setShowStudyEvents(true)}>
+                  💉 Dosing & Events{studyEvents.length > 0 ? ` (${studyEvents.length})` : ''}
+                </Button>
+                {data && availableParameters.length > 0 && (
+                  <Button size="small" onClick={() => setShowRandomisation(true)}>
+                    🎲 Randomise Animals
+                  </Button>
+                )}
+                <Button size="small" onClick={() => setShowTemplateManager(true)}>
+                  🗂️ Manage Mapping Templates
+                </Button>
+              </Box>
               {data && (
                 <Typography sx={{ mt: 2 }} color="success.main">
                   File loaded: {data.length} rows parsed.
                 </Typography>
               )}
-              {tabMappings.length > 0 && !data && (
+              {tabMappings.length > 0 && (
                 <Box sx={{ mt: 2, p: 2, bgcolor: '#F9ECEF', borderRadius: 1, border: '1px solid #EFCCDB' }}>
                   <Typography variant="body2" sx={{ mb: 2, color: '#8A0051' }}>
                     Mapped {tabMappings.length} tab(s): {tabMappings.map(t => t.tabName).join(', ')}
@@ -722,8 +1024,9 @@ function App() {
                         setShowStudyStartPrompt(true);
                       } else {
                         console.log('Finishing import with tabMappings:', tabMappings);
-                        mergeTabsAndContinue(tabMappings);
-                        setShowMetadataPrompt(true);
+                        mergeTabsAndContinue(tabMappings).then(result => {
+                          if (result === 'merged') setShowMetadataPrompt(true);
+                        });
                       }
                     }}
                     sx={{ mr: 1 }}
@@ -752,11 +1055,13 @@ function App() {
             <ColumnMappingDialog
               open={showMappingDialog}
               columns={pendingTabs[currentTabIndex].columns}
+              rows={pendingTabs[currentTabIndex].rows}
               tabName={pendingTabs[currentTabIndex].tabName}
               currentTabIndex={(pendingTabs[currentTabIndex] as any).currentTabNumber || 1}
               totalTabs={(pendingTabs[currentTabIndex] as any).totalTabs || 1}
               isGroupedMapping={pendingTabs[currentTabIndex].isGroupedMapping || false}
               allTabNames={pendingTabs.map(tab => tab.tabName)}
+              knownUnits={knownUnits}
               onConfirm={handleMappingConfirm}
               onClose={() => setShowMappingDialog(false)}
             />
@@ -825,7 +1130,7 @@ function App() {
                 </tbody>
               </table>
               <AnimalTimelineView animal={selectedAnimal} />
-              <AnimalTimelineChart animal={selectedAnimal} />
+              <AnimalTimelineChart animal={selectedAnimal} events={selectedAnimalEvents} eventDisplay={eventDisplay} />
             </Paper>
           )}
 
@@ -866,6 +1171,7 @@ function App() {
                 Add Metadata
               </Button>
             </Box>
+            {data && <ProvenanceNote lines={provenanceLines(provenance)} />}
             <Box sx={{ mt: 2 }}>
               {data && availableParameters.length > 0 && selectedParameter ? (
                 <DataTable
@@ -873,6 +1179,7 @@ function App() {
                   availableParameters={availableParameters}
                   selectedParameter={selectedParameter}
                   onParameterChange={setSelectedParameter}
+                  parameterUnits={provenance.parameterUnits}
                 />
               ) : (
                 <Typography color="text.secondary">[Data table UI here]</Typography>
@@ -913,9 +1220,10 @@ function App() {
             }}>
               📊 Parameter Visualization
             </Typography>
+            {data && provenance.dayZeroRule && <ProvenanceNote lines={[provenance.dayZeroRule]} />}
             <Box sx={{ mt: 2 }}>
               {data && availableParameters.length > 0 ? (
-                <ParameterVisualization data={data} availableParameters={availableParameters} />
+                <ParameterVisualization data={data} availableParameters={availableParameters} parameterUnits={provenance.parameterUnits} studyDesign={studyDesign} events={studyEvents} eventDisplay={eventDisplay} />
               ) : (
                 <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
                   📊 No data available for parameter visualization
@@ -957,9 +1265,10 @@ function App() {
             }}>
               🔬 TGI Analysis
             </Typography>
+            {data && provenance.dayZeroRule && <ProvenanceNote lines={[provenance.dayZeroRule]} />}
             <Box sx={{ mt: 2 }}>
               {data && data.some(row => ['Volume', 'TumorVolume', 'Tumor_Volume', 'volume', 'tumor_volume'].some(col => row[col] !== undefined && row[col] !== null && row[col] !== '')) ? (
-                <TGIAnalysis data={data} />
+                <TGIAnalysis data={data} parameterUnits={provenance.parameterUnits} studyDesign={studyDesign} events={studyEvents} eventDisplay={eventDisplay} />
               ) : (
                 <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
                   🔬 TGI Analysis not available - requires tumor volume data
@@ -1001,9 +1310,10 @@ function App() {
             }}>
               📈 Waterfall Analysis
             </Typography>
+            {data && provenance.dayZeroRule && <ProvenanceNote lines={[provenance.dayZeroRule]} />}
             <Box sx={{ mt: 2 }}>
               {data && data.some(row => ['Volume', 'TumorVolume', 'Tumor_Volume', 'volume', 'tumor_volume'].some(col => row[col] !== undefined && row[col] !== null && row[col] !== '')) ? (
-                <TGIAnalysis data={data} />
+                <TGIAnalysis data={data} parameterUnits={provenance.parameterUnits} studyDesign={studyDesign} events={studyEvents} eventDisplay={eventDisplay} />
               ) : (
                 <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
                   📈 Waterfall Analysis not available - requires tumor volume data
@@ -1012,6 +1322,94 @@ function App() {
             </Box>
           </Paper>
 
+          {/* Survival Analysis */}
+          <Paper data-export="survival-analysis" sx={{ 
+            p: 3, 
+            mb: 3,
+            border: '1px solid #EFCCDB',
+            borderRadius: 2,
+            '&:hover': {
+              boxShadow: '0 6px 25px rgba(138, 0, 81, 0.1)'
+            }
+          }}>
+            <Typography variant="h6" sx={{ 
+              color: '#8A0051', 
+              fontWeight: 600, 
+              mb: 2,
+              display: 'flex',
+              alignItems: 'center',
+              '&::before': {
+                content: '"6"',
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                borderRadius: '50%',
+                background: 'linear-gradient(135deg, #8A0051 0%, #B8006B 100%)',
+                color: 'white',
+                fontSize: '0.9rem',
+                fontWeight: 700,
+                mr: 2
+              }
+            }}>
+              ⏱️ Survival Analysis
+            </Typography>
+            <Box sx={{ mt: 2 }}>
+              {data ? (
+                <SurvivalAnalysis data={data} parameterUnits={provenance.parameterUnits} studyDesign={studyDesign} />
+              ) : (
+                <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  ⏱️ Upload data to analyse time to endpoint
+                </Typography>
+              )}
+            </Box>
+          </Paper>
+
+          {/* Body-Weight Toxicity */}
+          <Paper data-export="body-weight-analysis" sx={{ 
+            p: 3, 
+            mb: 3,
+            border: '1px solid #EFCCDB',
+            borderRadius: 2,
+            '&:hover': {
+              boxShadow: '0 6px 25px rgba(138, 0, 81, 0.1)'
+            }
+          }}>
+            <Typography variant="h6" sx={{ 
+              color: '#8A0051', 
+              fontWeight: 600, 
+              mb: 2,
+              display: 'flex',
+              alignItems: 'center',
+              '&::before': {
+                content: '"7"',
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                borderRadius: '50%',
+                background: 'linear-gradient(135deg, #8A0051 0%, #B8006B 100%)',
+                color: 'white',
+                fontSize: '0.9rem',
+                fontWeight: 700,
+                mr: 2
+              }
+            }}>
+              ⚖️ Body-Weight Toxicity
+            </Typography>
+            <Box sx={{ mt: 2 }}>
+              {data ? (
+                <BodyWeightAnalysis data={data} parameterUnits={provenance.parameterUnits} studyDesign={studyDesign} events={studyEvents} eventDisplay={eventDisplay} />
+              ) : (
+                <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  ⚖️ Upload data with body weights to check for toxicity
+                </Typography>
+              )}
+            </Box>
+          </Paper>
+
           {/* Global Export PDF Button */}
           {data && (
             <Box sx={{ textAlign: 'center', mt: 4, mb: 2 }}>
@@ -1049,12 +1447,44 @@ function App() {
               <Typography variant="body2" sx={{ mt: 2, color: '#8A0051', fontStyle: 'italic' }}>
                 📄 Export all data tables and visualizations as a single PDF report
               </Typography>
+              <Button
+                variant="outlined"
+                onClick={() => setShowSendExport(true)}
+                sx={{ mt: 2, color: '#8A0051', borderColor: '#8A0051', fontWeight: 600 }}
+              >
+                🗂️ Export SEND Datasets
+              </Button>
             </Box>
           )}
         </Box>
       </Paper>
-      {/* Metadata import prompt */}
-      <Dialog open={showMetadataPrompt} onClose={() => setShowMetadataPrompt(false)}>
+      {data && (
+        <SendExportDialog
+          open={showSendExport}
+          data={data}
+          parameters={availableParameters}
+          parameterUnits={provenance.parameterUnits}
+          studyDesign={studyDesign}
+          onClose={() => setShowSendExport(false)}
+        />
+      )}
+      <ReimportDiffDialog
+        open={pendingReimport !== null}
+        fileName={pendingReimport?.fileName || ''}
+        entries={pendingReimport?.entries || []}
+        onAccept={handleReimportAccept}
+        onClose={() => handleReimportAccept([])}
+      />
+
+      {/* What the files added to the current study changed */}
+      <ImportChangeSummaryDialog
+        open={importSummary !== null}
+        files={importSummary || []}
+        onClose={() => setImportSummary(null)}
+      />
+
+      {/* Metadata import prompt, after the change summary of an added file */}
+      <Dialog open={showMetadataPrompt && !importSummary && !pendingReimport} onClose={() => setShowMetadataPrompt(false)}>
         <DialogTitle>Add Animal Metadata?</DialogTitle>
         <DialogContent>
           <Typography>Do you want to add additional animal metadata (e.g., group, treatment, sex) from another tab?</Typography>
@@ -1068,9 +1498,70 @@ function App() {
       <MetadataImportDialog
         open={showMetadataImport}
         allTabs={originalAllTabs}
+        dataAnimalIds={allAnimals.map(animal => animal.animalId)}
+        idAliases={idAliases}
+        onIdAliasesChange={setIdAliases}
         onConfirm={handleMetadataImportConfirm}
         onClose={() => setShowMetadataImport(false)}
       />
+      {/* Validation report for held data or metadata imports */}
+      <ImportValidationDialog
+        open={(!!pendingMerge && !mergeProgress) || !!pendingMetadata}
+        issues={pendingMerge ? pendingMerge.collected.issues : pendingMetadata ? pendingMetadata.issues : []}
+        sourceTabs={pendingMerge ? pendingMerge.tabs : originalAllTabs}
+        confirmLabel={pendingMerge ? 'Commit Data ✓' : 'Apply Metadata ✓'}
+        onConfirm={handleValidationConfirm}
+        onClose={() => {
+          setPendingMerge(null);
+          setPendingMetadata(null);
+        }}
+      />
+      {/* Merge running in the import worker */}
+      <Dialog open={mergeProgress !== null} maxWidth="sm" fullWidth>
+        <DialogContent>
+          {mergeProgress && (
+            <ImportProgress
+              label={mergeProgress.label}
+              done={mergeProgress.done}
+              total={mergeProgress.total}
+              onCancel={() => importWorker.cancel()}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+      <StudyDesignDialog
+        open={showStudyDesign}
+        design={studyDesign}
+        data={data}
+        onSave={design => { setStudyDesign(design); setShowStudyDesign(false); }}
+        onClose={() => setShowStudyDesign(false)}
+      />
+      {data && (
+        <RandomisationDialog
+          open={showRandomisation}
+          data={data}
+          parameters={availableParameters}
+          parameterUnits={provenance.parameterUnits}
+          studyDesign={studyDesign}
+          onApply={handleApplyRandomisation}
+          onClose={() => setShowRandomisation(false)}
+        />
+      )}
+      <StudyEventsDialog
+        open={showStudyEvents}
+        events={studyEvents}
+        display={eventDisplay}
+        data={data}
+        tabs={originalAllTabs}
+        groupField={studyDesign?.groupField || 'group'}
+        onSave={(events, display) => { setStudyEvents(events); setEventDisplay(display); setShowStudyEvents(false); }}
+        onClose={() => setShowStudyEvents(false)}
+      />
+      {/* Saved mapping templates */}
+      <MappingTemplateManager
+        open={showTemplateManager}
+        onClose={() => setShowTemplateManager(false)}
+      />
       {/* Study start date prompt */}
       <Dialog open={showStudyStartPrompt} onClose={() => setShowStudyStartPrompt(false)} maxWidth="sm" fullWidth>
         <DialogTitle sx={{ 
@@ -1080,20 +1571,31 @@ function App() {
           py: 3
         }}>
           <Typography variant="h5" sx={{ fontWeight: 700 }}>
-            📅 Study Start Date Required
+            📅 Set Study Day 0
           </Typography>
         </DialogTitle>
         <DialogContent sx={{ mt: 2 }}>
           <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051', mb: 2 }}>
-            Date columns were detected. Please specify the study start date to convert dates to study days.
+            Date columns were detected. Choose how day 0 is set to convert dates to study days.
           </Typography>
-          {getEarliestDateInPendingTabs(pendingDateTabs, pendingDateMappings, pendingDateRows) && (
+          {earliestPendingDate !== null && (
             <Typography variant="body2" sx={{ mb: 2, p: 2, bgcolor: '#F9ECEF', borderRadius: 1 }}>
-              📊 <strong>Earliest date found:</strong> {getEarliestDateInPendingTabs(pendingDateTabs, pendingDateMappings, pendingDateRows)?.toDateString()}
+              📊 <strong>Earliest date found:</strong> {formatEpochDay(earliestPendingDate)}
+              <br />
+              🗓️ <strong>Date formats:</strong> {pendingDateTabs.map((tab, idx) =>
+                `${tab.tabName} (${TIME_FORMAT_LABELS[pendingDateMappings[idx].timeFormat as DateFormat]})`
+              ).join(', ')}
               <br />
               💡 <strong>Tip:</strong> Use this or an earlier date as your study start date.
             </Typography>
           )}
+          <DayZeroAnchoringEditor value={dayZeroAnchoring} onChange={setDayZeroAnchoring} tabs={originalAllTabs} />
+          {pendingUnanchored.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {pendingUnanchored.length} animal(s) have no day-0 date in tab "{dayZeroAnchoring.sourceTab}" and will be
+              left out of the import: {pendingUnanchored.join(', ')}
+            </Alert>
+          )}
           <TextField
             autoFocus
             margin="dense"
@@ -1103,14 +1605,21 @@ function App() {
             value={studyStartDate}
             onChange={e => setStudyStartDate(e.target.value)}
             InputLabelProps={{ shrink: true }}
-            helperText="Study days will be calculated as: (Date - Start Date)"
+            helperText={dayZeroAnchoring.scope === 'study'
+              ? 'Study days will be calculated as: (Date - Start Date)'
+              : 'Recorded as the study start. Study days = (Date - each animal\'s day 0 date)'}
           />
         </DialogContent>
         <DialogActions sx={{ px: 3, py: 2 }}>
           <Button onClick={() => setShowStudyStartPrompt(false)} sx={{ mr: 1 }}>
             Cancel Import
           </Button>
-          <Button onClick={handleStudyStartConfirm} variant="contained" disabled={!studyStartDate} sx={{ px: 3 }}>
+          <Button
+            onClick={handleStudyStartConfirm}
+            variant="contained"
+            disabled={!studyStartDate || !isAnchoringValid(dayZeroAnchoring)}
+            sx={{ px: 3 }}
+          >
             Convert Dates to Study Days
           </Button>
         </DialogActions>
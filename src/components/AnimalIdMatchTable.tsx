@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import {
+  Box, Typography, Chip, Select, MenuItem,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import {
+  AnimalIdMatcher, ID_MATCH_RULE_LABELS, rawAnimalId,
+  type IdAliases, type IdMatch, type IdMatchRule
+} from '../utils/AnimalIdMatcher';
+
+interface AnimalIdMatchTableProps {
+  // IDs as they appear in the source being joined (e.g. a metadata tab)
+  sourceIds: unknown[];
+  // Animal IDs already in the study data
+  targetIds: string[];
+  aliases: IdAliases;
+  onAliasesChange: (aliases: IdAliases) => void;
+}
+
+// Shows how each source ID was matched to a study animal and lets leftovers be aliased by hand
+const AnimalIdMatchTable: React.FC<AnimalIdMatchTableProps> = ({ sourceIds, targetIds, aliases, onAliasesChange }) => {
+  const rows = useMemo(() => {
+    const matcher = new AnimalIdMatcher(aliases);
+    targetIds.forEach(id => matcher.add(id));
+    const seen = new Set<string>();
+    const result: { raw: string; match: IdMatch | null }[] = [];
+    sourceIds.forEach(value => {
+      const raw = rawAnimalId(value);
+      if (!raw.trim() || seen.has(raw)) return;
+      seen.add(raw);
+      result.push({ raw, match: matcher.match(value) });
+    });
+    return result;
+  }, [sourceIds, targetIds, aliases]);
+
+  const ruleCounts = useMemo(() => {
+    const counts = new Map<IdMatchRule | 'unmatched', number>();
+    rows.forEach(({ match }) => {
+      const key = match ? match.rule : 'unmatched';
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return Array.from(counts.entries());
+  }, [rows]);
+
+  const matchedTargets = new Set(rows.map(r => r.match?.id).filter(Boolean));
+  const targetsWithoutSource = targetIds.filter(id => !matchedTargets.has(id));
+  // Exact matches need no attention
+  const reviewRows = rows.filter(r => !r.match || r.match.rule !== 'exact');
+
+  const setAlias = (raw: string, target: string) => {
+    const next = { ...aliases };
+    if (target) next[raw.trim()] = target;
+    else delete next[raw.trim()];
+    onAliasesChange(next);
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+        🔗 Animal ID matching
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1.5 }}>
+        {ruleCounts.map(([rule, count]) => (
+          <Chip
+            key={rule}
+            size="small"
+            color={rule === 'unmatched' ? 'warning' : 'default'}
+            label={`${rule === 'unmatched' ? 'Unmatched' : ID_MATCH_RULE_LABELS[rule]}: ${count}`}
+          />
+        ))}
+      </Box>
+      {reviewRows.length > 0 && (
+        <TableContainer component={Paper} sx={{ maxHeight: 240 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Source ID</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Study animal</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Rule</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {reviewRows.map(({ raw, match }) => (
+                <TableRow key={raw}>
+                  <TableCell>{JSON.stringify(raw)}</TableCell>
+                  <TableCell>
+                    {match && match.rule !== 'alias' ? match.id : (
+                      <Select
+                        size="small"
+                        fullWidth
+                        displayEmpty
+                        value={match ? match.id : ''}
+                        onChange={e => setAlias(raw, e.target.value)}
+                      >
+                        <MenuItem value=""><em>Unmatched</em></MenuItem>
+                        {targetIds.map(id => <MenuItem key={id} value={id}>{id}</MenuItem>)}
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell>{match ? ID_MATCH_RULE_LABELS[match.rule] : '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+      {targetsWithoutSource.length > 0 && (
+        <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+          Study animals with no matching source ID: {targetsWithoutSource.join(', ')}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default AnimalIdMatchTable;
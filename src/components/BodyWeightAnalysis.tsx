@@ -0,0 +1,407 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import Plot from 'react-plotly.js';
+import type { Annotations, Data, Layout, Shape } from 'plotly.js';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, TextField, Paper, Grid, Chip, Alert, Button,
+  Divider, FormControlLabel, Checkbox, Table, TableBody, TableCell, TableContainer, TableHead, TableRow
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import { colorManager } from '../utils/ColorManager';
+import ColorEditor from './ColorEditor';
+import { withUnit, type UnitCode } from '../utils/Units';
+import { groupLabel, metadataFields, orderGroups, type StudyDesign } from '../utils/StudyDesign';
+import { eventOverlay, eventsForGroups, type EventDisplay, type StudyEvent } from '../utils/StudyEvents';
+import {
+  FLAG_LEVEL_LABELS, bodyWeightFlags, defaultBodyWeightSettings, flagsToCsv, groupWeightCurves,
+  guessBodyWeightParameter, weightChanges, type BodyWeightSettings
+} from '../utils/BodyWeight';
+import { downloadFile } from '../utils/Download';
+
+interface BodyWeightAnalysisProps {
+  data: ParsedData;
+  parameterUnits?: Record<string, UnitCode>;
+  // Group order and labels default from the design when it is linked to the group field
+  studyDesign?: StudyDesign | null;
+  // Dosing and other events drawn over the body-weight change plot
+  events?: StudyEvent[];
+  eventDisplay?: EventDisplay;
+}
+
+const NO_EVENTS: StudyEvent[] = [];
+
+// Body-weight change from baseline per group, with loss-limit flags for the study log
+const BodyWeightAnalysis: React.FC<BodyWeightAnalysisProps> = ({
+  data, parameterUnits = {}, studyDesign, events = NO_EVENTS, eventDisplay = 'markers'
+}) => {
+  const [selectedGroupField, setSelectedGroupField] = useState<string>('');
+  const [settings, setSettings] = useState<BodyWeightSettings>(defaultBodyWeightSettings(''));
+  const [showAnimals, setShowAnimals] = useState(false);
+  const [colorUpdateTrigger, setColorUpdateTrigger] = useState(0);
+
+  const availableGroupFields = useMemo(() => metadataFields(data), [data]);
+
+  // Auto-select the design's group field, else the first available one
+  React.useEffect(() => {
+    if (availableGroupFields.length > 0 && !selectedGroupField) {
+      const designField = studyDesign && availableGroupFields.includes(studyDesign.groupField) ? studyDesign.groupField : '';
+      setSelectedGroupField(designField || availableGroupFields[0]);
+    }
+  }, [availableGroupFields, selectedGroupField, studyDesign]);
+
+  const numericParameters = useMemo(() => {
+    const fields = new Set<string>();
+    data.forEach(row => {
+      Object.keys(row).forEach(key => {
+        if (key !== 'studyDay' && typeof row[key] === 'number') fields.add(key);
+      });
+    });
+    return Array.from(fields).sort();
+  }, [data]);
+
+  React.useEffect(() => {
+    if (numericParameters.includes(settings.parameter)) return;
+    const guess = guessBodyWeightParameter(numericParameters);
+    if (guess) setSettings(prev => ({ ...prev, parameter: guess }));
+  }, [numericParameters, settings.parameter]);
+
+  const update = (changes: Partial<BodyWeightSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const changes = useMemo(
+    () => (settings.parameter && selectedGroupField ? weightChanges(data, settings.parameter, selectedGroupField) : []),
+    [data, settings.parameter, selectedGroupField]
+  );
+
+  const availableGroups = useMemo(
+    () => orderGroups(Array.from(new Set(changes.map(c => c.group))), studyDesign, selectedGroupField),
+    [changes, studyDesign, selectedGroupField]
+  );
+
+  const labelFor = useCallback(
+    (group: string) => groupLabel(group, studyDesign, selectedGroupField),
+    [studyDesign, selectedGroupField]
+  );
+
+  const curves = useMemo(() => groupWeightCurves(changes, availableGroups), [changes, availableGroups]);
+  const flags = useMemo(() => bodyWeightFlags(changes, settings), [changes, settings]);
+
+  const endpointAnimals = useMemo(
+    () => Array.from(new Set(flags.filter(f => f.level === 'endpoint').map(f => f.animalId))),
+    [flags]
+  );
+  const warningAnimals = useMemo(
+    () => Array.from(new Set(flags.filter(f => f.level === 'warning').map(f => f.animalId))).filter(id => !endpointAnimals.includes(id)),
+    [flags, endpointAnimals]
+  );
+
+  const weightPlot = useMemo(() => {
+    const traces: Data[] = [];
+    if (showAnimals) {
+      const animalIds = Array.from(new Set(changes.map(c => c.animalId)));
+      animalIds.forEach(animalId => {
+        const points = changes.filter(c => c.animalId === animalId);
+        const color = colorManager.getColor(points[0].group);
+        traces.push({
+          x: points.map(p => p.day),
+          y: points.map(p => p.change),
+          type: 'scatter',
+          mode: 'lines',
+          line: { color: `${color}60`, width: 1 },
+          legendgroup: points[0].group,
+          showlegend: false,
+          hovertemplate: `${animalId}<br>Day %{x}<br>%{y:.1f}%<extra></extra>`
+        });
+      });
+    }
+    curves.forEach(curve => {
+      const color = colorManager.getColor(curve.group);
+      traces.push({
+        x: curve.days,
+        y: curve.meanChange,
+        error_y: { type: 'data', array: curve.sem, visible: true, color },
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: labelFor(curve.group),
+        line: { color, width: 3 },
+        marker: { color, size: 7 },
+        legendgroup: curve.group,
+        hovertemplate: `${labelFor(curve.group)}<br>Day %{x}<br>%{y:.1f}% ± %{error_y.array:.1f}<extra></extra>`
+      });
+    });
+
+    const limitLine = (loss: number, color: string, label: string): { shape: Partial<Shape>; annotation: Partial<Annotations> } => ({
+      shape: {
+        type: 'line', xref: 'paper', x0: 0, x1: 1, yref: 'y', y0: -loss, y1: -loss,
+        line: { color, width: 1.5, dash: 'dash' }
+      },
+      annotation: {
+        xref: 'paper', x: 1, xanchor: 'right', yref: 'y', y: -loss, yanchor: 'bottom',
+        text: label, showarrow: false, font: { size: 10, color }
+      }
+    });
+    const limits = [
+      limitLine(settings.warningLoss, '#ED6C02', `Warning (−${settings.warningLoss}%)`),
+      limitLine(settings.endpointLoss, '#D32F2F', `Endpoint (−${settings.endpointLoss}%)`)
+    ];
+    const overlay = eventOverlay(eventsForGroups(events, availableGroups), eventDisplay);
+
+    const layout: Partial<Layout> = {
+      title: { text: `${settings.parameter} Change from Baseline (Mean ± SEM)`, font: { size: 18, color: '#8A0051' } },
+      xaxis: { title: { text: 'Study Day' }, showgrid: true, gridcolor: '#f0f0f0' },
+      yaxis: { title: { text: 'Change from Baseline (%)' }, showgrid: true, gridcolor: '#f0f0f0', zeroline: true },
+      plot_bgcolor: 'white',
+      paper_bgcolor: 'white',
+      hovermode: 'closest',
+      // Redraw when group colours are edited
+      datarevision: colorUpdateTrigger,
+      legend: { x: 1.02, y: 1, bgcolor: 'rgba(255,255,255,0.9)', bordercolor: '#ccc', borderwidth: 1 },
+      shapes: [...limits.map(l => l.shape), ...overlay.shapes],
+      annotations: [...limits.map(l => l.annotation), ...overlay.annotations]
+    };
+    return { traces, layout };
+  }, [changes, curves, showAnimals, settings, labelFor, events, eventDisplay, availableGroups, colorUpdateTrigger]);
+
+  const handleExportFlags = () => {
+    downloadFile('body_weight_flags.csv', flagsToCsv(flags, labelFor), 'text/csv;charset=utf-8');
+  };
+
+  if (numericParameters.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+        ⚖️ Body-weight analysis needs a numeric body-weight parameter
+      </Typography>
+    );
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" sx={{ mb: 3, color: '#8A0051', fontWeight: 600 }}>
+        ⚖️ Body-Weight Toxicity
+      </Typography>
+
+      {/* Controls */}
+      <Box sx={{ mb: 3 }}>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth>
+              <InputLabel>Group Field</InputLabel>
+              <Select
+                value={selectedGroupField}
+                label="Group Field"
+                onChange={(e) => setSelectedGroupField(e.target.value)}
+              >
+                {availableGroupFields.map(field => (
+                  <MenuItem key={field} value={field}>{field}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth>
+              <InputLabel>Body Weight Parameter</InputLabel>
+              <Select
+                value={settings.parameter}
+                label="Body Weight Parameter"
+                onChange={(e) => update({ parameter: e.target.value })}
+              >
+                {numericParameters.map(p => (
+                  <MenuItem key={p} value={p}>{withUnit(p, parameterUnits[p])}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Warning loss (%)"
+              value={settings.warningLoss}
+              onChange={(e) => update({ warningLoss: Number(e.target.value) })}
+              inputProps={{ min: 0, max: 100 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Endpoint loss (%)"
+              value={settings.endpointLoss}
+              onChange={(e) => update({ endpointLoss: Number(e.target.value) })}
+              inputProps={{ min: 0, max: 100 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Sustained loss (%)"
+              value={settings.sustainedLoss}
+              onChange={(e) => update({ sustainedLoss: Number(e.target.value) })}
+              inputProps={{ min: 0, max: 100 }}
+              disabled={settings.sustainedVisits < 1}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Consecutive weighings"
+              helperText="Endpoint after this many in a row; 0 for off"
+              value={settings.sustainedVisits}
+              onChange={(e) => update({ sustainedVisits: Math.max(0, Math.round(Number(e.target.value))) })}
+              inputProps={{ min: 0 }}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <FormControlLabel
+              control={<Checkbox checked={showAnimals} onChange={(e) => setShowAnimals(e.target.checked)} />}
+              label="Show individual animals"
+            />
+          </Grid>
+          <Grid item xs={12} md={3} sx={{ textAlign: 'right' }}>
+            {availableGroups.length > 0 && (
+              <ColorEditor
+                availableGroups={availableGroups}
+                onColorsChanged={() => setColorUpdateTrigger(prev => prev + 1)}
+              />
+            )}
+          </Grid>
+        </Grid>
+      </Box>
+
+      {!settings.parameter ? (
+        <Alert severity="info">Select the body-weight parameter.</Alert>
+      ) : (
+        <>
+          {/* Alert panel */}
+          <Box sx={{ mb: 3 }}>
+            {endpointAnimals.length > 0 && (
+              <Alert severity="error" sx={{ mb: 1 }}>
+                <strong>{endpointAnimals.length} animal(s) reached a humane endpoint:</strong> {endpointAnimals.join(', ')}
+              </Alert>
+            )}
+            {warningAnimals.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 1 }}>
+                <strong>{warningAnimals.length} animal(s) above the {settings.warningLoss}% warning limit:</strong> {warningAnimals.join(', ')}
+              </Alert>
+            )}
+            {flags.length === 0 && changes.length > 0 && (
+              <Alert severity="success">No animals crossed the body-weight loss limits.</Alert>
+            )}
+          </Box>
+
+          {changes.length > 0 && (
+            <Box sx={{ width: '100%', overflowX: 'auto', '& .plotly': { width: '100% !important' } }}>
+              <Plot
+                data={weightPlot.traces}
+                layout={{
+                  ...weightPlot.layout,
+                  width: 900,
+                  height: 500,
+                  margin: { l: 60, r: 60, t: 60, b: 60 }
+                }}
+                config={{
+                  displayModeBar: true,
+                  displaylogo: false,
+                  modeBarButtonsToRemove: ['pan2d', 'lasso2d']
+                }}
+              />
+            </Box>
+          )}
+
+          <Divider sx={{ my: 3 }} />
+          <Typography variant="h6" sx={{ mb: 2, color: '#8A0051' }}>
+            📉 Group Nadir
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>Animals</strong></TableCell>
+                  <TableCell align="right"><strong>Mean Nadir (%)</strong></TableCell>
+                  <TableCell align="right"><strong>Day of Nadir</strong></TableCell>
+                  <TableCell align="right"><strong>Largest Individual Loss (%)</strong></TableCell>
+                  <TableCell align="right"><strong>Flagged</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {curves.map(curve => {
+                  const members = changes.filter(c => c.group === curve.group);
+                  const largestLoss = Math.min(...members.map(c => c.change));
+                  const flagged = new Set(flags.filter(f => f.group === curve.group).map(f => f.animalId)).size;
+                  return (
+                    <TableRow key={curve.group}>
+                      <TableCell sx={{ color: colorManager.getColor(curve.group), fontWeight: 600 }}>{labelFor(curve.group)}</TableCell>
+                      <TableCell align="right">{new Set(members.map(c => c.animalId)).size}</TableCell>
+                      <TableCell align="right">{curve.nadir.toFixed(1)}</TableCell>
+                      <TableCell align="right">{curve.nadirDay}</TableCell>
+                      <TableCell align="right">{largestLoss.toFixed(1)}</TableCell>
+                      <TableCell align="right">{flagged}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {flags.length > 0 && (
+            <Box sx={{ mt: 3 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h6" sx={{ color: '#8A0051' }}>
+                  🚩 Body-Weight Flags
+                </Typography>
+                <Button variant="outlined" size="small" onClick={handleExportFlags}>
+                  Export Flags (CSV)
+                </Button>
+              </Box>
+              <TableContainer component={Paper} sx={{ maxHeight: 300 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell><strong>Animal</strong></TableCell>
+                      <TableCell><strong>Group</strong></TableCell>
+                      <TableCell><strong>Level</strong></TableCell>
+                      <TableCell><strong>Rule</strong></TableCell>
+                      <TableCell align="right"><strong>Day</strong></TableCell>
+                      <TableCell align="right"><strong>{withUnit(settings.parameter, parameterUnits[settings.parameter])}</strong></TableCell>
+                      <TableCell align="right"><strong>Change (%)</strong></TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {flags.map(f => (
+                      <TableRow key={`${f.animalId}|${f.rule}`}>
+                        <TableCell>{f.animalId}</TableCell>
+                        <TableCell sx={{ color: colorManager.getColor(f.group) }}>{labelFor(f.group)}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            label={FLAG_LEVEL_LABELS[f.level]}
+                            color={f.level === 'endpoint' ? 'error' : 'warning'}
+                          />
+                        </TableCell>
+                        <TableCell>{f.rule}</TableCell>
+                        <TableCell align="right">{f.day}</TableCell>
+                        <TableCell align="right">{f.weight}</TableCell>
+                        <TableCell align="right">{f.change.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Box>
+          )}
+
+          <Alert severity="info" sx={{ mt: 2 }}>
+            <Typography variant="body2">
+              <strong>Methods:</strong> Change from each animal's first weighing. Animals are flagged at the first weighing
+              with at least {settings.warningLoss}% loss (warning) or {settings.endpointLoss}% loss (humane endpoint)
+              {settings.sustainedVisits > 0 ? `, or ${settings.sustainedLoss}% loss on ${settings.sustainedVisits} consecutive weighings (humane endpoint)` : ''}.
+            </Typography>
+          </Alert>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default BodyWeightAnalysis;
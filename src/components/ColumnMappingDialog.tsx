@@ -1,43 +1,299 @@
 import React, { useState } from 'react';
 import {
   Dialog, DialogTitle, DialogContent, DialogActions,
-  Button, FormControl, InputLabel, Select, MenuItem, Checkbox, ListItemText, OutlinedInput, Box, Typography
+  Button, FormControl, InputLabel, Select, MenuItem, Checkbox, ListItemText, OutlinedInput, Box, Typography,
+  Alert, TextField, ToggleButtonGroup, ToggleButton
 } from '@mui/material';
+import { findTemplateForColumns, saveTemplate, type MappingTemplate } from '../utils/MappingTemplateStore';
+import { detectDayColumns, parseDayFromHeader, WIDE_STUDY_DAY_COLUMN, DEFAULT_WIDE_PARAMETER, wideParameters, type WideDayColumn } from '../utils/WideFormat';
+import { isDerivedVolumeValid, type DerivedVolumeConfig } from '../utils/TumorVolume';
+import MappingTemplateManager from './MappingTemplateManager';
+import WideFormatEditor, { type WideColumnRow } from './WideFormatEditor';
+import DerivedVolumeEditor from './DerivedVolumeEditor';
+import ParameterUnitsEditor from './ParameterUnitsEditor';
+import { detectTimeFormat, TIME_FORMAT_LABELS, type TimeColumnFormat } from '../utils/DateParsing';
+import { parseUnitFromHeader, compatibleUnits, type ParameterUnit, type UnitCode } from '../utils/Units';
+import { detectNumberLocale, NUMBER_LOCALE_LABELS, type NumberLocaleSetting } from '../utils/NumberParsing';
+import type { ParsedData } from './FileUpload';
+
+export type SheetLayout = 'long' | 'wide';
+
+export interface ColumnMapping {
+  animalIdColumn: string;
+  timeColumn: string;
+  parameterColumns: string[];
+  // How the time column is read; dates are converted to study days at import
+  timeFormat?: TimeColumnFormat;
+  // Wide sheets: one column per study day, unpivoted at import
+  layout?: SheetLayout;
+  dayColumns?: WideDayColumn[];
+  // Tumour volume computed from caliper columns (or wide-format parameters)
+  derivedVolume?: DerivedVolumeConfig;
+  // Unit per parameter column, converted to the canonical unit at import
+  units?: Record<string, ParameterUnit>;
+  // Decimal separator for numbers stored as text (CSV, text cells in Excel)
+  numberLocale?: NumberLocaleSetting;
+}
+
+// Minimum number of day-like headers before a sheet is assumed to be wide format
+const MIN_WIDE_DAY_COLUMNS = 2;
 
 interface ColumnMappingDialogProps {
   open: boolean;
   columns: string[];
+  // Sheet rows, used to detect the time column format
+  rows?: ParsedData;
   tabName?: string;
   currentTabIndex?: number;
   totalTabs?: number;
   isGroupedMapping?: boolean;
   allTabNames?: string[];
-  onConfirm: (mapping: { animalIdColumn: string; timeColumn: string; parameterColumns: string[] }) => void;
+  // Canonical units already used for parameters in this import, so later tabs convert to match
+  knownUnits?: Record<string, UnitCode>;
+  onConfirm: (mapping: ColumnMapping) => void;
   onClose: () => void;
 }
 
 const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ 
   open, 
   columns, 
+  rows = [],
   tabName, 
   currentTabIndex, 
   totalTabs, 
   isGroupedMapping = false,
   allTabNames = [],
+  knownUnits = {},
   onConfirm, 
   onClose 
 }) => {
   const [animalIdColumn, setAnimalIdColumn] = useState('');
   const [timeColumn, setTimeColumn] = useState('');
   const [parameterColumns, setParameterColumns] = useState<string[]>([]);
+  const [timeFormat, setTimeFormat] = useState<TimeColumnFormat>('auto');
+  const [numberLocale, setNumberLocale] = useState<NumberLocaleSetting>('auto');
+  const [layout, setLayout] = useState<SheetLayout>('long');
+  const [wideRows, setWideRows] = useState<WideColumnRow[]>([]);
+  const [derivedVolume, setDerivedVolume] = useState<DerivedVolumeConfig | null>(null);
+  // Units chosen by hand; parameters not listed here get a unit parsed from the header
+  const [unitOverrides, setUnitOverrides] = useState<Record<string, ParameterUnit | null>>({});
+  const [matchedTemplate, setMatchedTemplate] = useState<MappingTemplate | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateMessage, setTemplateMessage] = useState('');
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+
+  // Candidate day columns for wide layout: detected ones ticked, everything else available to tick
+  const defaultWideRows = React.useCallback((idColumn: string): WideColumnRow[] => {
+    return columns
+      .filter(col => col !== idColumn && !/^_EMPTY_\d+$/.test(col))
+      .map(col => {
+        const parsed = parseDayFromHeader(col);
+        return {
+          column: col,
+          day: parsed ? String(parsed.day) : '',
+          parameter: parsed?.parameterHint || DEFAULT_WIDE_PARAMETER,
+          included: !!parsed
+        };
+      });
+  }, [columns]);
+
+  const applyMapping = React.useCallback((mapping: ColumnMapping) => {
+    setAnimalIdColumn(mapping.animalIdColumn);
+    setLayout(mapping.layout || 'long');
+    setDerivedVolume(mapping.derivedVolume || null);
+    setNumberLocale(mapping.numberLocale || 'auto');
+    if (mapping.units) {
+      const saved = mapping.units;
+      const params = [...mapping.parameterColumns, ...(mapping.derivedVolume ? [mapping.derivedVolume.outputColumn] : [])];
+      setUnitOverrides(Object.fromEntries(params.map(param => [param, saved[param] || null])));
+    } else {
+      setUnitOverrides({});
+    }
+    if (mapping.layout === 'wide') {
+      const saved = new Map((mapping.dayColumns || []).map(dc => [dc.column, dc]));
+      setWideRows(defaultWideRows(mapping.animalIdColumn).map(row => {
+        const dc = saved.get(row.column);
+        return dc
+          ? { column: row.column, day: String(dc.day), parameter: dc.parameter, included: true }
+          : { ...row, included: false };
+      }));
+    } else {
+      setTimeColumn(mapping.timeColumn);
+      setTimeFormat(mapping.timeFormat || 'auto');
+      setParameterColumns(mapping.parameterColumns);
+    }
+  }, [defaultWideRows]);
+
+  // Unit parsed from the header, or the one earlier tabs used for the same parameter
+  const autoUnit = (param: string): ParameterUnit | null => {
+    const parsed = parseUnitFromHeader(param);
+    let unit = parsed?.unit;
+    const name = parsed?.name || param;
+    if (!unit && derivedVolume && param === derivedVolume.outputColumn) {
+      // Caliper readings in mm give mm³, in cm give cm³
+      const lengthUnit = parseUnitFromHeader(derivedVolume.lengthColumn)?.unit;
+      if (lengthUnit === 'mm') unit = 'mm3';
+      if (lengthUnit === 'cm') unit = 'cm3';
+    }
+    const known = knownUnits[name];
+    if (!unit) return known ? { unit: known, canonical: known } : null;
+    return { unit, canonical: known && compatibleUnits(unit).includes(known) ? known : unit };
+  };
+
+  const unitFor = (param: string) => (param in unitOverrides ? unitOverrides[param] : autoUnit(param));
+
+  const buildUnits = (params: string[]): Record<string, ParameterUnit> | undefined => {
+    const units: Record<string, ParameterUnit> = {};
+    params.forEach(param => {
+      const unit = unitFor(param);
+      if (unit) units[param] = unit;
+    });
+    return Object.keys(units).length > 0 ? units : undefined;
+  };
+
+  const buildMapping = (): ColumnMapping => {
+    if (layout === 'wide') {
+      const dayColumns = wideRows
+        .filter(r => r.included)
+        .map(r => ({ column: r.column, day: Number(r.day), parameter: r.parameter.trim() }));
+      return {
+        animalIdColumn,
+        timeColumn: WIDE_STUDY_DAY_COLUMN,
+        parameterColumns: wideParameters(dayColumns),
+        layout: 'wide',
+        dayColumns,
+        derivedVolume: derivedVolume || undefined,
+        units: buildUnits(unitParameters),
+        numberLocale
+      };
+    }
+    return {
+      animalIdColumn,
+      timeColumn,
+      timeFormat,
+      parameterColumns,
+      layout: 'long',
+      derivedVolume: derivedVolume || undefined,
+      units: buildUnits(unitParameters),
+      numberLocale
+    };
+  };
+
+  const isMappingValid = (mapping: ColumnMapping) => {
+    if (!mapping.animalIdColumn) return false;
+    if (mapping.derivedVolume && !isDerivedVolumeValid(mapping.derivedVolume)) return false;
+    if (mapping.layout === 'wide') {
+      const dayColumns = mapping.dayColumns || [];
+      return dayColumns.length > 0 && dayColumns.every(dc => !isNaN(dc.day) && dc.parameter !== '');
+    }
+    return !!mapping.timeColumn && (mapping.parameterColumns.length > 0 || !!mapping.derivedVolume);
+  };
+
+  // Columns the derived volume can be computed from: raw columns, or unpivoted parameters for wide sheets
+  const volumeSourceColumns = layout === 'wide'
+    ? wideParameters(wideRows.filter(r => r.included).map(r => ({ column: r.column, day: 0, parameter: r.parameter.trim() })))
+    : columns.filter(col => col !== animalIdColumn && col !== timeColumn);
+
+  // Parameters that will be imported, including the derived volume
+  const unitParameters = Array.from(new Set([
+    ...(layout === 'wide'
+      ? wideParameters(wideRows.filter(r => r.included).map(r => ({ column: r.column, day: 0, parameter: r.parameter.trim() })))
+      : parameterColumns),
+    ...(derivedVolume && derivedVolume.outputColumn.trim() ? [derivedVolume.outputColumn] : [])
+  ]));
+
+  // Columns holding numbers: day columns of wide sheets, otherwise the parameters and caliper readings
+  const numberColumns = React.useMemo(() => (layout === 'wide'
+    ? wideRows.filter(r => r.included).map(r => r.column)
+    : Array.from(new Set([
+      ...parameterColumns,
+      ...(derivedVolume ? [derivedVolume.lengthColumn, derivedVolume.widthColumn, derivedVolume.heightColumn || ''] : [])
+    ])).filter(Boolean)
+  ), [layout, wideRows, parameterColumns, derivedVolume]);
+
+  const detectedNumberLocale = React.useMemo(
+    () => detectNumberLocale(numberColumns.flatMap(col => rows.map(row => row[col]))),
+    [rows, numberColumns]
+  );
+
+  const detectedTimeFormat = React.useMemo(
+    () => detectTimeFormat(rows.map(row => row[timeColumn]), timeColumn),
+    [rows, timeColumn]
+  );
+
+  // Only keep template columns that still exist in this sheet
+  const templateMappingFor = React.useCallback((template: MappingTemplate): ColumnMapping | null => {
+    const saved = template.columnMapping;
+    if (!saved || !columns.includes(saved.animalIdColumn)) return null;
+    let mapping: ColumnMapping;
+    let sources: string[];
+    if (saved.layout === 'wide') {
+      const dayColumns = (saved.dayColumns || []).filter(dc => columns.includes(dc.column));
+      if (dayColumns.length === 0) return null;
+      mapping = { ...saved, dayColumns, parameterColumns: wideParameters(dayColumns) };
+      sources = mapping.parameterColumns;
+    } else {
+      if (!columns.includes(saved.timeColumn)) return null;
+      mapping = { ...saved, parameterColumns: saved.parameterColumns.filter(col => columns.includes(col)) };
+      sources = columns;
+    }
+    const volume = mapping.derivedVolume;
+    if (volume && ![volume.lengthColumn, volume.widthColumn, volume.heightColumn].every(col => !col || sources.includes(col))) {
+      mapping.derivedVolume = undefined;
+    }
+    if (mapping.parameterColumns.length === 0 && !mapping.derivedVolume) return null;
+    return mapping;
+  }, [columns]);
+
+  const lookUpTemplate = React.useCallback(async () => {
+    try {
+      const template = await findTemplateForColumns(columns, 'columns');
+      const mapping = template ? templateMappingFor(template) : null;
+      if (template && mapping) {
+        applyMapping(mapping);
+        setMatchedTemplate(template);
+        setTemplateName(template.name);
+      } else {
+        setMatchedTemplate(null);
+      }
+    } catch (error) {
+      console.error('Template lookup failed:', error);
+    }
+  }, [columns, templateMappingFor, applyMapping]);
 
   React.useEffect(() => {
     if (open && columns.length > 0) {
-      setAnimalIdColumn(columns.find(c => /animal.?id/i.test(c)) || columns[0]);
+      const idColumn = columns.find(c => /animal.?id/i.test(c)) || columns[0];
+      setAnimalIdColumn(idColumn);
       setTimeColumn(columns.find(c => /day|date|time/i.test(c)) || columns[0]);
+      setTimeFormat('auto');
+      setNumberLocale('auto');
       setParameterColumns([]);
+      setWideRows(defaultWideRows(idColumn));
+      setDerivedVolume(null);
+      setUnitOverrides({});
+      setLayout(detectDayColumns(columns).length >= MIN_WIDE_DAY_COLUMNS ? 'wide' : 'long');
+      setMatchedTemplate(null);
+      setTemplateName('');
+      setTemplateMessage('');
+      lookUpTemplate();
+    }
+  }, [open, columns, lookUpTemplate, defaultWideRows]);
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    try {
+      const saved = await saveTemplate(name, columns, {
+        columnMapping: buildMapping()
+      });
+      setMatchedTemplate(saved);
+      setTemplateMessage(`Template "${saved.name}" saved.`);
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      setTemplateMessage('Could not save template to browser storage.');
     }
-  }, [open, columns]);
+  };
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
@@ -71,6 +327,26 @@ const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
         </Box>
       </DialogTitle>
       <DialogContent sx={{ mt: 2 }}>
+        {matchedTemplate && matchedTemplate.columnMapping && (
+          <Alert
+            severity="success"
+            sx={{ mb: 3 }}
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => {
+                  const mapping = templateMappingFor(matchedTemplate);
+                  if (mapping) onConfirm(mapping);
+                }}
+              >
+                Apply & Continue
+              </Button>
+            }
+          >
+            Headers match saved template <strong>"{matchedTemplate.name}"</strong>. The mapping below has been pre-filled from it.
+          </Alert>
+        )}
         {isGroupedMapping && (
           <Box sx={{ mb: 3, p: 2, bgcolor: '#F9ECEF', borderRadius: 2, border: '1px solid #EFCCDB' }}>
             <Typography variant="body2" sx={{ color: '#8A0051', fontWeight: 500 }}>
@@ -79,6 +355,21 @@ const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
             </Typography>
           </Box>
         )}
+        <Box sx={{ mb: 2 }}>
+          <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+            🧾 How is this sheet laid out?
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={layout}
+            onChange={(_, value) => { if (value) setLayout(value); }}
+          >
+            <ToggleButton value="long">Long: one row per animal per day</ToggleButton>
+            <ToggleButton value="wide">Wide: one column per study day</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
         <Box sx={{ mb: 2 }}>
           <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
             🐭 Which column contains the <b>Animal ID</b>?
@@ -89,25 +380,14 @@ const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
               labelId="animal-id-column-label"
               value={animalIdColumn}
               label="Animal ID Column"
-              onChange={e => setAnimalIdColumn(e.target.value)}
-            >
-              {columns.map(col => (
-                <MenuItem key={col} value={col}>{col}</MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Box>
-        <Box sx={{ mb: 2 }}>
-          <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
-            📅 Which column contains the <b>timepoint</b> (study day or date)?
-          </Typography>
-          <FormControl fullWidth>
-            <InputLabel id="time-column-label">Time Column</InputLabel>
-            <Select
-              labelId="time-column-label"
-              value={timeColumn}
-              label="Time Column"
-              onChange={e => setTimeColumn(e.target.value)}
+              onChange={e => {
+                const idColumn = e.target.value;
+                setAnimalIdColumn(idColumn);
+                setWideRows(rows => {
+                  const edited = new Map(rows.map(r => [r.column, r]));
+                  return defaultWideRows(idColumn).map(r => edited.get(r.column) || r);
+                });
+              }}
             >
               {columns.map(col => (
                 <MenuItem key={col} value={col}>{col}</MenuItem>
@@ -115,40 +395,161 @@ const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
             </Select>
           </FormControl>
         </Box>
-        <Box>
-          <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
-            📊 Which columns contain <b>data to import</b> (tumor volume, weight, etc.)?
+        {layout === 'wide' ? (
+          <WideFormatEditor rows={wideRows} onChange={setWideRows} />
+        ) : (
+          <>
+            <Box sx={{ mb: 2 }}>
+              <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+                📅 Which column contains the <b>timepoint</b> (study day or date)?
+              </Typography>
+              <FormControl fullWidth>
+                <InputLabel id="time-column-label">Time Column</InputLabel>
+                <Select
+                  labelId="time-column-label"
+                  value={timeColumn}
+                  label="Time Column"
+                  onChange={e => setTimeColumn(e.target.value)}
+                >
+                  {columns.map(col => (
+                    <MenuItem key={col} value={col}>{col}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth size="small" sx={{ mt: 1.5 }}>
+                <InputLabel id="time-format-label">Time Format</InputLabel>
+                <Select
+                  labelId="time-format-label"
+                  value={timeFormat}
+                  label="Time Format"
+                  onChange={e => setTimeFormat(e.target.value as TimeColumnFormat)}
+                >
+                  {(Object.keys(TIME_FORMAT_LABELS) as TimeColumnFormat[]).map(format => (
+                    <MenuItem key={format} value={format}>
+                      {format === 'auto'
+                        ? `${TIME_FORMAT_LABELS.auto} (${TIME_FORMAT_LABELS[detectedTimeFormat.format]})`
+                        : TIME_FORMAT_LABELS[format]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {timeFormat === 'auto' && detectedTimeFormat.ambiguous && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  Day and month can't be told apart in these dates (all values are 12 or below).
+                  Assuming {TIME_FORMAT_LABELS[detectedTimeFormat.format]} — choose the format explicitly if that's wrong.
+                </Alert>
+              )}
+            </Box>
+            <Box>
+              <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+                📊 Which columns contain <b>data to import</b> (tumor volume, weight, etc.)?
+              </Typography>
+              <FormControl fullWidth>
+                <InputLabel id="param-columns-label">Parameters</InputLabel>
+                <Select
+                  labelId="param-columns-label"
+                  multiple
+                  value={parameterColumns}
+                  onChange={e => {
+                    const value = e.target.value;
+                    setParameterColumns(typeof value === 'string' ? value.split(',') : value);
+                  }}
+                  input={<OutlinedInput label="Parameters" />}
+                  renderValue={selected => (selected as string[]).join(', ')}
+                >
+                  {columns.map(col => (
+                    <MenuItem key={col} value={col}>
+                      <Checkbox checked={parameterColumns.indexOf(col) > -1} />
+                      <ListItemText primary={col} />
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          </>
+        )}
+        <DerivedVolumeEditor
+          sourceColumns={volumeSourceColumns}
+          value={derivedVolume}
+          onChange={setDerivedVolume}
+        />
+        {numberColumns.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+              🔢 How are decimals written in numbers stored as text?
+            </Typography>
+            <FormControl fullWidth size="small">
+              <InputLabel id="number-locale-label">Number Format</InputLabel>
+              <Select
+                labelId="number-locale-label"
+                value={numberLocale}
+                label="Number Format"
+                onChange={e => setNumberLocale(e.target.value as NumberLocaleSetting)}
+              >
+                {(Object.keys(NUMBER_LOCALE_LABELS) as NumberLocaleSetting[]).map(locale => (
+                  <MenuItem key={locale} value={locale}>
+                    {locale === 'auto'
+                      ? `${NUMBER_LOCALE_LABELS.auto} (${detectedNumberLocale.decided ? NUMBER_LOCALE_LABELS[detectedNumberLocale.locale] : 'no text numbers to go by'})`
+                      : NUMBER_LOCALE_LABELS[locale]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {numberLocale === 'auto' && !detectedNumberLocale.decided && detectedNumberLocale.ambiguousCount > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                {detectedNumberLocale.ambiguousCount} value(s) such as "1,234" read differently with a decimal point or comma.
+                Assuming {NUMBER_LOCALE_LABELS.point} — choose the format explicitly if that's wrong. They will be listed in the validation report.
+              </Alert>
+            )}
+          </Box>
+        )}
+        <ParameterUnitsEditor
+          parameters={unitParameters}
+          value={Object.fromEntries(unitParameters.map(param => [param, unitFor(param)]))}
+          onChange={(param, unit) => setUnitOverrides(prev => ({ ...prev, [param]: unit }))}
+        />
+        <Box sx={{ mt: 3, p: 2, bgcolor: '#FDF9FC', borderRadius: 2, border: '1px dashed #EFCCDB' }}>
+          <Typography variant="body2" sx={{ color: '#8A0051', fontWeight: 500, mb: 1 }}>
+            💾 Save this mapping as a template for sheets with the same headers
           </Typography>
-          <FormControl fullWidth>
-            <InputLabel id="param-columns-label">Parameters</InputLabel>
-            <Select
-              labelId="param-columns-label"
-              multiple
-              value={parameterColumns}
-              onChange={e => {
-                const value = e.target.value;
-                setParameterColumns(typeof value === 'string' ? value.split(',') : value);
-              }}
-              input={<OutlinedInput label="Parameters" />}
-              renderValue={selected => (selected as string[]).join(', ')}
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="Template name"
+              value={templateName}
+              onChange={e => setTemplateName(e.target.value)}
+              sx={{ flexGrow: 1 }}
+            />
+            <Button
+              variant="outlined"
+              onClick={handleSaveTemplate}
+              disabled={!templateName.trim() || !isMappingValid(buildMapping())}
             >
-              {columns.map(col => (
-                <MenuItem key={col} value={col}>
-                  <Checkbox checked={parameterColumns.indexOf(col) > -1} />
-                  <ListItemText primary={col} />
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
+              Save Template
+            </Button>
+            <Button onClick={() => setShowTemplateManager(true)}>
+              Manage
+            </Button>
+          </Box>
+          {templateMessage && (
+            <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+              {templateMessage}
+            </Typography>
+          )}
         </Box>
+        <MappingTemplateManager
+          open={showTemplateManager}
+          onClose={() => setShowTemplateManager(false)}
+          onTemplatesChanged={lookUpTemplate}
+        />
       </DialogContent>
       <DialogActions sx={{ px: 3, py: 2 }}>
         <Button onClick={onClose} sx={{ mr: 1 }}>
           Cancel Import
         </Button>
         <Button
-          onClick={() => onConfirm({ animalIdColumn, timeColumn, parameterColumns })}
-          disabled={!animalIdColumn || !timeColumn || parameterColumns.length === 0}
+          onClick={() => onConfirm(buildMapping())}
+          disabled={!isMappingValid(buildMapping())}
           variant="contained"
           sx={{ px: 3 }}
         >
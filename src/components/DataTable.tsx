@@ -1,14 +1,16 @@
 import React from 'react';
 import { Box, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Tabs, Tab, Typography } from '@mui/material';
+import { unitLabel, withUnit, type UnitCode } from '../utils/Units';
 
 interface DataTableProps {
   data: Record<string, any>[];
   availableParameters: string[];
   selectedParameter: string;
   onParameterChange: (param: string) => void;
+  parameterUnits?: Record<string, UnitCode>;
 }
 
-const DataTable: React.FC<DataTableProps> = ({ data, availableParameters, selectedParameter, onParameterChange }) => {
+const DataTable: React.FC<DataTableProps> = ({ data, availableParameters, selectedParameter, onParameterChange, parameterUnits = {} }) => {
 
   if (!data || data.length === 0) {
     return <div>No data to display.</div>;
@@ -49,7 +51,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, availableParameters, select
           }}
         >
           {availableParameters.map(param => (
-            <Tab key={param} label={param} value={param} />
+            <Tab key={param} label={withUnit(param, parameterUnits[param])} value={param} />
           ))}
         </Tabs>
       </Box>
@@ -61,7 +63,9 @@ const DataTable: React.FC<DataTableProps> = ({ data, availableParameters, select
               <TableCell>Animal ID</TableCell>
               <TableCell>Group</TableCell>
               {timepoints.map(day => (
-                <TableCell key={day}>Day {day}</TableCell>
+                <TableCell key={day}>
+                  Day {day}{parameterUnits[selectedParameter] && ` (${unitLabel(parameterUnits[selectedParameter])})`}
+                </TableCell>
               ))}
             </TableRow>
           </TableHead>
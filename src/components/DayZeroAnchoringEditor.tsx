@@ -0,0 +1,118 @@
+import React from 'react';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, TextField, Grid, ToggleButtonGroup, ToggleButton
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import {
+  DAY_ZERO_EVENT_LABELS, cohortValues,
+  type AnchorScope, type DayZeroAnchoring, type DayZeroEvent
+} from '../utils/StudyDayAnchoring';
+
+interface DayZeroAnchoringEditorProps {
+  value: DayZeroAnchoring;
+  onChange: (anchoring: DayZeroAnchoring) => void;
+  tabs: { tabName: string; columns: string[]; rows: ParsedData }[];
+}
+
+// Choose the event that defines day 0 and whether it is shared, per animal or per cohort
+const DayZeroAnchoringEditor: React.FC<DayZeroAnchoringEditorProps> = ({ value, onChange, tabs }) => {
+  const update = (changes: Partial<DayZeroAnchoring>) => onChange({ ...value, ...changes });
+
+  const sourceTab = tabs.find(tab => tab.tabName === value.sourceTab);
+  const sourceColumns = sourceTab ? sourceTab.columns : [];
+  const cohorts = sourceTab && value.cohortColumn ? cohortValues(sourceTab.rows, value.cohortColumn) : [];
+
+  const selectTab = (tabName: string) => {
+    const tab = tabs.find(t => t.tabName === tabName);
+    const columns = tab ? tab.columns : [];
+    update({
+      sourceTab: tabName,
+      animalIdColumn: columns.find(c => /animal.?id/i.test(c)) || '',
+      anchorDateColumn: columns.find(c => /implant|random|dose|date/i.test(c)) || '',
+      cohortColumn: columns.find(c => /cohort/i.test(c)) || '',
+      cohortDates: {}
+    });
+  };
+
+  const columnSelect = (label: string, field: 'animalIdColumn' | 'anchorDateColumn' | 'cohortColumn') => (
+    <FormControl fullWidth size="small">
+      <InputLabel>{label}</InputLabel>
+      <Select
+        value={value[field] || ''}
+        label={label}
+        onChange={e => update(field === 'cohortColumn'
+          ? { cohortColumn: e.target.value, cohortDates: {} }
+          : { [field]: e.target.value })}
+      >
+        {sourceColumns.map(col => <MenuItem key={col} value={col}>{col}</MenuItem>)}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+        🎯 Which event defines <b>day 0</b>?
+      </Typography>
+      <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+        <InputLabel>Day 0 event</InputLabel>
+        <Select
+          value={value.event}
+          label="Day 0 event"
+          onChange={e => update({ event: e.target.value as DayZeroEvent })}
+        >
+          {(Object.keys(DAY_ZERO_EVENT_LABELS) as DayZeroEvent[]).map(event => (
+            <MenuItem key={event} value={event}>{DAY_ZERO_EVENT_LABELS[event]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <ToggleButtonGroup
+        exclusive
+        fullWidth
+        size="small"
+        value={value.scope}
+        onChange={(_, scope: AnchorScope | null) => { if (scope) update({ scope }); }}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="study">One date for all animals</ToggleButton>
+        <ToggleButton value="animal">Per animal (column)</ToggleButton>
+        <ToggleButton value="cohort">Per cohort</ToggleButton>
+      </ToggleButtonGroup>
+      {value.scope !== 'study' && (
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Source tab</InputLabel>
+              <Select value={value.sourceTab || ''} label="Source tab" onChange={e => selectTab(e.target.value)}>
+                {tabs.map(tab => <MenuItem key={tab.tabName} value={tab.tabName}>{tab.tabName}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            {columnSelect('Animal ID column', 'animalIdColumn')}
+          </Grid>
+          <Grid item xs={12}>
+            {value.scope === 'animal'
+              ? columnSelect(`${DAY_ZERO_EVENT_LABELS[value.event]} date column`, 'anchorDateColumn')
+              : columnSelect('Cohort column', 'cohortColumn')}
+          </Grid>
+          {value.scope === 'cohort' && cohorts.map(cohort => (
+            <Grid item xs={6} sm={4} key={cohort}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label={`Cohort ${cohort}`}
+                value={value.cohortDates?.[cohort] || ''}
+                onChange={e => update({ cohortDates: { ...value.cohortDates, [cohort]: e.target.value } })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default DayZeroAnchoringEditor;
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, TextField, FormControlLabel, Switch, Grid
+} from '@mui/material';
+import {
+  VOLUME_FORMULAS, DEFAULT_VOLUME_OUTPUT_COLUMN,
+  type DerivedVolumeConfig, type VolumeFormula
+} from '../utils/TumorVolume';
+
+interface DerivedVolumeEditorProps {
+  sourceColumns: string[];
+  value: DerivedVolumeConfig | null;
+  onChange: (config: DerivedVolumeConfig | null) => void;
+}
+
+// Pick the caliper columns and formula used to compute tumour volume at import
+const DerivedVolumeEditor: React.FC<DerivedVolumeEditorProps> = ({ sourceColumns, value, onChange }) => {
+  const enable = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      lengthColumn: sourceColumns.find(c => /^l$|length|long/i.test(c)) || '',
+      widthColumn: sourceColumns.find(c => /^w$|width|short/i.test(c)) || '',
+      heightColumn: undefined,
+      formula: 'lw2_half',
+      outputColumn: DEFAULT_VOLUME_OUTPUT_COLUMN
+    });
+  };
+
+  const update = (changes: Partial<DerivedVolumeConfig>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const needsHeight = value ? VOLUME_FORMULAS[value.formula].requiresHeight : false;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <FormControlLabel
+        control={<Switch checked={!!value} onChange={e => enable(e.target.checked)} />}
+        label={
+          <Typography sx={{ fontWeight: 500, color: '#8A0051' }}>
+            📐 Derive tumor volume from caliper length/width(/height)
+          </Typography>
+        }
+      />
+      {value && (
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Length (L)</InputLabel>
+              <Select value={value.lengthColumn} label="Length (L)" onChange={e => update({ lengthColumn: e.target.value })}>
+                {sourceColumns.map(col => <MenuItem key={col} value={col}>{col}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Width (W)</InputLabel>
+              <Select value={value.widthColumn} label="Width (W)" onChange={e => update({ widthColumn: e.target.value })}>
+                {sourceColumns.map(col => <MenuItem key={col} value={col}>{col}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small" error={needsHeight && !value.heightColumn}>
+              <InputLabel>Height (H)</InputLabel>
+              <Select
+                value={value.heightColumn || ''}
+                label="Height (H)"
+                onChange={e => update({ heightColumn: e.target.value || undefined })}
+              >
+                <MenuItem value=""><em>None</em></MenuItem>
+                {sourceColumns.map(col => <MenuItem key={col} value={col}>{col}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={value.formula === 'custom' ? 6 : 8}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Formula</InputLabel>
+              <Select
+                value={value.formula}
+                label="Formula"
+                onChange={e => update({ formula: e.target.value as VolumeFormula })}
+              >
+                {(Object.keys(VOLUME_FORMULAS) as VolumeFormula[]).map(key => (
+                  <MenuItem key={key} value={key}>{VOLUME_FORMULAS[key].label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          {value.formula === 'custom' && (
+            <Grid item xs={6} sm={2}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="k"
+                value={value.coefficient ?? ''}
+                error={value.coefficient === undefined || isNaN(value.coefficient)}
+                onChange={e => update({ coefficient: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+            </Grid>
+          )}
+          <Grid item xs={6} sm={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Volume parameter name"
+              value={value.outputColumn}
+              error={!value.outputColumn.trim()}
+              onChange={e => update({ outputColumn: e.target.value })}
+            />
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default DerivedVolumeEditor;
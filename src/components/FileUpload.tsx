@@ -1,14 +1,22 @@
 import React, { useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import { Box, Typography, Paper, List, ListItem, ListItemIcon, Checkbox, ListItemText, Button, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
+import { Box, Typography, Paper, List, ListItem, ListItemIcon, Checkbox, ListItemText, Button, Dialog, DialogTitle, DialogContent, DialogActions, TextField, Chip } from '@mui/material';
+import { applyHeaderLayout, MAX_HEADER_SCAN_ROWS } from '../utils/HeaderDetection';
+import type { HeaderLayout, ParsedSheet } from '../utils/HeaderDetection';
+import type { ParsedWorkbook } from '../utils/WorkbookParsing';
+import { importWorker, ImportCancelledError } from '../utils/ImportWorkerClient';
+import ImportProgress from './ImportProgress';
+import PasteDataDialog from './PasteDataDialog';
+import { isSendCsvHeader, isSendFileName, type SendImport } from '../utils/SendImport';
 
 export type ParsedData = Record<string, any>[];
 
 interface FileUploadProps {
-  onTabsParsed: (tabs: { tabName: string; columns: string[]; rows: ParsedData; currentTabNumber?: number; totalTabs?: number; currentUINumber?: number; totalUIs?: number; isGroupedMapping?: boolean }[]) => void;
+  onTabsParsed: (tabs: { tabName: string; columns: string[]; rows: ParsedData; fileName?: string; currentTabNumber?: number; totalTabs?: number; currentUINumber?: number; totalUIs?: number; isGroupedMapping?: boolean }[]) => void;
   onAllTabsParsed?: (allTabs: { tabName: string; columns: string[]; rows: ParsedData }[]) => void;
+  // SEND packages are mapped automatically and skip the header and mapping dialogs
+  onSendParsed?: (send: SendImport) => void;
 }
 
 // Global function to continue processing from App.tsx
@@ -20,75 +28,37 @@ export const triggerNextSheetProcessing = () => {
   }
 };
 
-const HEADER_KEYWORDS = [
-  'group', 'animal', 'volume', 'weight', 'comment', 'observations', 'sex', 'date'
-];
-
-const MAX_HEADER_SCAN_ROWS = 10;
-
-// Helper function to check if two header arrays are identical
-const areHeadersIdentical = (headers1: string[], headers2: string[]): boolean => {
-  if (headers1.length !== headers2.length) return false;
-  return headers1.every((header, index) => header === headers2[index]);
+// .xpt transport files, or CSV exports whose header has the SEND USUBJID and DOMAIN variables
+const isSendDataFile = async (file: File) => {
+  if (isSendFileName(file.name)) return true;
+  if (!file.name.toLowerCase().endsWith('.csv')) return false;
+  const head = await file.slice(0, 4096).text();
+  return isSendCsvHeader(head.split(/\r?\n/)[0]);
 };
 
-// Helper function to group tabs by identical headers
-const groupTabsByHeaders = (tabs: { tabName: string; columns: string[]; rows: ParsedData }[]): { tabs: { tabName: string; columns: string[]; rows: ParsedData }[]; hasIdenticalHeaders: boolean }[] => {
-  const groups: { tabs: { tabName: string; columns: string[]; rows: ParsedData }[]; hasIdenticalHeaders: boolean }[] = [];
-  
-  tabs.forEach(tab => {
-    // Find existing group with identical headers
-    const existingGroup = groups.find(group => 
-      group.tabs.length > 0 && areHeadersIdentical(group.tabs[0].columns, tab.columns)
-    );
-    
-    if (existingGroup) {
-      existingGroup.tabs.push(tab);
-      existingGroup.hasIdenticalHeaders = true;
-    } else {
-      groups.push({ tabs: [tab], hasIdenticalHeaders: false });
-    }
-  });
-  
-  // After all tabs are processed, update hasIdenticalHeaders flag correctly
-  groups.forEach(group => {
-    group.hasIdenticalHeaders = group.tabs.length > 1;
-  });
-  
-  console.log('Final groups after processing:', groups.map(g => ({ 
-    count: g.tabs.length, 
-    hasIdentical: g.hasIdenticalHeaders, 
-    names: g.tabs.map(t => t.tabName),
-    headers: g.tabs[0].columns 
-  })));
-  
-  // Debug: Show detailed headers for each tab
-  console.log('=== DETAILED HEADER COMPARISON ===');
-  tabs.forEach((tab, index) => {
-    console.log(`Tab ${index + 1} "${tab.tabName}" headers:`, tab.columns);
-  });
-  
-  if (tabs.length === 2) {
-    console.log('Headers match?', areHeadersIdentical(tabs[0].columns, tabs[1].columns));
-    console.log('Tab 1 header count:', tabs[0].columns.length);
-    console.log('Tab 2 header count:', tabs[1].columns.length);
-    
-    // Show differences
-    const diff1 = tabs[0].columns.filter(h => !tabs[1].columns.includes(h));
-    const diff2 = tabs[1].columns.filter(h => !tabs[0].columns.includes(h));
-    if (diff1.length > 0) console.log('Headers only in Tab 1:', diff1);
-    if (diff2.length > 0) console.log('Headers only in Tab 2:', diff2);
-  }
-  
-  return groups;
-};
+// Sheets from several files dropped together are prefixed with their file name so tab names stay unique
+const batchTabName = (fileName: string, sheetName: string, inBatch: boolean) =>
+  inBatch ? `${fileName} / ${sheetName}` : sheetName;
 
-const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed, onSendParsed }) => {
   const [sheetNames, setSheetNames] = useState<string[]>([]);
   const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
   const [originalSelectedSheets, setOriginalSelectedSheets] = useState<string[]>([]); // Track original selection for progress
-  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  // Sheets parsed by the import worker
+  const [workbook, setWorkbook] = useState<ParsedWorkbook | null>(null);
+  // Progress of the worker while it reads a workbook or groups its tabs
+  const [progress, setProgress] = useState<{ label: string; done?: number; total?: number } | null>(null);
+  // File the workbook was read from; batch files get their name prefixed to tab names
+  const [workbookFile, setWorkbookFile] = useState<{ name: string; inBatch: boolean } | null>(null);
+  // File currently being imported, and files dropped with it that are still waiting
+  const [currentFile, setCurrentFile] = useState<{ name: string; number: number; total: number } | null>(null);
+  const [fileQueue, setFileQueue] = useState<File[]>([]);
+  // All tabs of every file in the current drop, for metadata lookup
+  const batchTabsRef = React.useRef<{ tabName: string; columns: string[]; rows: ParsedData }[]>([]);
   const [csvData, setCsvData] = useState<ParsedData | null>(null);
+  // Pasted blocks become virtual tabs: "Pasted data", "Pasted data 2", ...
+  const [showPasteDialog, setShowPasteDialog] = useState(false);
+  const pasteCountRef = React.useRef(0);
   // For header preview/confirmation
   const [headerPreview, setHeaderPreview] = useState<{ 
     tabName: string; 
@@ -96,10 +66,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
     totalTabs: number;
     currentUINumber: number;
     totalUIs: number;
-    headerRow: any[]; 
-    dataRows: any[][]; 
-    allRows: any[][]; 
-    onConfirm: (headerRow: any[], dataRows: any[][]) => void 
+    sheet: ParsedSheet;
+    onConfirm: (layout: HeaderLayout) => void 
   } | null>(null);
   // Trigger to continue processing next sheet
   const [shouldContinueProcessing, setShouldContinueProcessing] = useState(false);
@@ -108,7 +76,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
   const [currentGroupIndex, setCurrentGroupIndex] = useState(0);
 
   // Process a group of tabs (either with identical headers or individual)
-  const processHeaderGroup = React.useCallback((group: { tabs: { tabName: string; columns: string[]; rows: ParsedData; headerRow?: any[]; dataRows?: any[][]; allRows?: any[][] }[]; hasIdenticalHeaders: boolean }, groupIndex: number, totalGroups: number) => {
+  const processHeaderGroup = React.useCallback((group: { tabs: { tabName: string; columns: string[]; rows: ParsedData; sheet: ParsedSheet; fileName?: string }[]; hasIdenticalHeaders: boolean }, groupIndex: number, totalGroups: number) => {
     const firstTab = group.tabs[0];
     
     if (group.hasIdenticalHeaders && group.tabs.length > 1) {
@@ -121,26 +89,17 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
         totalTabs: 1,
         currentUINumber: 1,
         totalUIs: 1,
-        headerRow: firstTab.headerRow || [],
-        dataRows: firstTab.dataRows || [],
-        allRows: firstTab.allRows || [],
-        onConfirm: (confirmedHeader, confirmedDataRows) => {
-          // Apply confirmed header to all tabs in the group
+        sheet: firstTab.sheet,
+        onConfirm: (layout) => {
+          // Apply confirmed header layout to all tabs in the group
           const processedTabs = group.tabs.map((tab, index) => {
-            const confirmedColumns: string[] = [];
-            let confirmedEmptyCount = 1;
-            confirmedHeader.forEach((h: any) => {
-              if (h && String(h).trim() !== '') {
-                confirmedColumns.push(String(h));
-              } else {
-                confirmedColumns.push(`_EMPTY_${confirmedEmptyCount++}`);
-              }
-            });
+            const confirmed = applyHeaderLayout(tab.sheet, layout);
             
             return {
               tabName: tab.tabName,
-              columns: confirmedColumns,
-              rows: tab.rows,
+              columns: confirmed.columns,
+              rows: confirmed.rows,
+              fileName: tab.fileName,
               currentTabNumber: index + 1,
               totalTabs: group.tabs.length,
               currentUINumber: 1,
@@ -164,25 +123,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
         totalTabs: 1,
         currentUINumber: 1,
         totalUIs: 1,
-        headerRow: firstTab.headerRow || [],
-        dataRows: firstTab.dataRows || [],
-        allRows: firstTab.allRows || [],
-        onConfirm: (confirmedHeader, confirmedDataRows) => {
-          const confirmedColumns: string[] = [];
-          let confirmedEmptyCount = 1;
-          confirmedHeader.forEach((h: any) => {
-            if (h && String(h).trim() !== '') {
-              confirmedColumns.push(String(h));
-            } else {
-              confirmedColumns.push(`_EMPTY_${confirmedEmptyCount++}`);
-            }
-          });
+        sheet: firstTab.sheet,
+        onConfirm: (layout) => {
+          const confirmed = applyHeaderLayout(firstTab.sheet, layout);
           
           console.log(`Sending single tab for mapping: ${firstTab.tabName}`);
           onTabsParsed([{
             tabName: firstTab.tabName,
-            columns: confirmedColumns,
-            rows: firstTab.rows,
+            columns: confirmed.columns,
+            rows: confirmed.rows,
+            fileName: firstTab.fileName,
             currentTabNumber: 1,
             totalTabs: 1,
             currentUINumber: 1,
@@ -195,6 +145,133 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
     }
   }, [onTabsParsed]);
 
+  const loadFile = React.useCallback((file: File, number: number, total: number) => {
+    const inBatch = total > 1;
+    setCurrentFile({ name: file.name, number, total });
+
+    if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
+      setSheetNames([]);
+      setSelectedSheets([]);
+      setWorkbook(null);
+      Papa.parse(file as any, {
+        header: true,
+        skipEmptyLines: true,
+        complete: (results: Papa.ParseResult<any>) => {
+          setCsvData(results.data as ParsedData);
+          if (results.data && results.data.length > 0) {
+            onTabsParsed([
+              {
+                tabName: inBatch ? file.name : 'CSV',
+                columns: Object.keys(results.data[0]),
+                rows: results.data as ParsedData,
+                fileName: file.name
+              }
+            ]);
+          }
+        }
+      });
+    } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
+      // Reading and header detection run in the import worker so large workbooks don't freeze the page
+      setSheetNames([]);
+      setWorkbook(null);
+      setProgress({ label: `Loading ${file.name}` });
+      file.arrayBuffer()
+        .then(data => importWorker.call(
+          'parseWorkbook',
+          { data },
+          (label, done, total) => setProgress({ label, done, total }),
+          [data]
+        ))
+        .then(wb => {
+          setSheetNames(wb.sheetNames);
+          setSelectedSheets([wb.sheetNames[0]]);
+          setWorkbook(wb);
+          setWorkbookFile({ name: file.name, inBatch });
+          setCsvData(null);
+        })
+        .catch(error => {
+          if (error instanceof ImportCancelledError) return;
+          console.error('Excel file reading error:', error);
+          alert(`Excel file reading error: ${file.name}`);
+        })
+        .finally(() => setProgress(null));
+    } else {
+      alert(`Unsupported file type: ${file.name}. Please upload a CSV or Excel file.`);
+    }
+  }, [onTabsParsed]);
+
+  // SEND domain files dropped together are read as one package, in the import worker
+  const loadSendFiles = React.useCallback((files: File[]) => {
+    setProgress({ label: `Loading SEND package (${files.length} file(s))` });
+    Promise.all(files.map(file => file.arrayBuffer()))
+      .then(buffers => importWorker.call(
+        'readSendFiles',
+        { files: files.map((file, i) => ({ name: file.name, data: buffers[i] })) },
+        (label, done, total) => setProgress({ label, done, total }),
+        buffers
+      ))
+      .then(send => onSendParsed?.(send))
+      .catch(error => {
+        if (error instanceof ImportCancelledError) return;
+        console.error('SEND import error:', error);
+        alert(`Could not read the SEND files: ${error instanceof Error ? error.message : error}`);
+      })
+      .finally(() => setProgress(null));
+  }, [onSendParsed]);
+
+  // Several files are imported one after another through the same header and mapping steps
+  const onDrop = React.useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    const sendFlags = await Promise.all(acceptedFiles.map(isSendDataFile));
+    const sendFiles = acceptedFiles.filter((_, i) => sendFlags[i]);
+    if (sendFiles.length > 0) {
+      if (sendFiles.length < acceptedFiles.length) {
+        alert('SEND datasets are imported on their own; drop the other files separately.');
+      }
+      loadSendFiles(sendFiles);
+      return;
+    }
+    batchTabsRef.current = [];
+    setFileQueue(acceptedFiles.slice(1));
+    loadFile(acceptedFiles[0], 1, acceptedFiles.length);
+  }, [loadFile, loadSendFiles]);
+
+  const loadNextQueuedFile = React.useCallback(() => {
+    if (fileQueue.length === 0 || !currentFile) {
+      setCurrentFile(null);
+      return;
+    }
+    const [next, ...rest] = fileQueue;
+    setFileQueue(rest);
+    loadFile(next, currentFile.number + 1, currentFile.total);
+  }, [fileQueue, currentFile, loadFile]);
+
+  // A pasted block goes through the same header preview and mapping as a one-tab workbook
+  const handlePasteConfirm = (sheet: ParsedSheet) => {
+    pasteCountRef.current += 1;
+    const tabName = pasteCountRef.current === 1 ? 'Pasted data' : `Pasted data ${pasteCountRef.current}`;
+    setShowPasteDialog(false);
+
+    batchTabsRef.current = [...batchTabsRef.current, { tabName, columns: sheet.columns, rows: sheet.rows }];
+    onAllTabsParsed?.(batchTabsRef.current);
+
+    const group = {
+      tabs: [{ tabName, columns: sheet.columns, rows: sheet.rows, sheet, fileName: tabName }],
+      hasIdenticalHeaders: false
+    };
+    setAllHeaderGroups([group]);
+    setCurrentGroupIndex(0);
+    processHeaderGroup(group, 0, 1);
+  };
+
+  // Stop the worker and drop the rest of the batch
+  const handleCancelLoading = () => {
+    importWorker.cancel();
+    setProgress(null);
+    setFileQueue([]);
+    setCurrentFile(null);
+  };
+
   // Continue to next group after current group is complete
   const continueToNextGroup = React.useCallback(() => {
     console.log('=== CONTINUING TO NEXT GROUP ===');
@@ -211,8 +288,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
       // Reset state
       setAllHeaderGroups([]);
       setCurrentGroupIndex(0);
+      loadNextQueuedFile();
     }
-  }, [currentGroupIndex, allHeaderGroups, processHeaderGroup]);
+  }, [currentGroupIndex, allHeaderGroups, processHeaderGroup, loadNextQueuedFile]);
 
   // Function to continue to next sheet after data mapping is complete
   const continueToNextSheet = React.useCallback(() => {
@@ -228,49 +306,6 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
     };
   }, [continueToNextSheet]);
 
-  const onDrop = React.useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
-
-    if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
-      setSheetNames([]);
-      setSelectedSheets([]);
-      setWorkbook(null);
-      Papa.parse(file as any, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (results: Papa.ParseResult<any>) => {
-          setCsvData(results.data as ParsedData);
-          if (results.data && results.data.length > 0) {
-            onTabsParsed([
-              {
-                tabName: 'CSV',
-                columns: Object.keys(results.data[0]),
-                rows: results.data as ParsedData
-              }
-            ]);
-          }
-        }
-      });
-    } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const wb = XLSX.read(data, { type: 'array' });
-        setSheetNames(wb.SheetNames);
-        setSelectedSheets([wb.SheetNames[0]]);
-        setWorkbook(wb);
-        setCsvData(null);
-      };
-      reader.onerror = () => {
-        alert('Excel file reading error');
-      };
-      reader.readAsArrayBuffer(file);
-    } else {
-      alert('Unsupported file type. Please upload a CSV or Excel file.');
-    }
-  }, [onTabsParsed]);
-
   // When user toggles sheet selection
   const handleToggle = (sheet: string) => () => {
     let newSelected: string[];
@@ -282,113 +317,49 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
     setSelectedSheets(newSelected);
   };
 
-  // Flexible header row detection
-  function detectHeaderRow(allRows: any[][]): { headerRow: any[]; dataRows: any[][]; headerIndex: number } {
-    let bestIdx = 0;
-    let bestScore = -1;
-    for (let i = 0; i < Math.min(MAX_HEADER_SCAN_ROWS, allRows.length); ++i) {
-      const row = allRows[i];
-      if (!Array.isArray(row)) continue;
-      const score = row.reduce((acc, cell) => {
-        if (typeof cell === 'string') {
-          const cellLower = cell.toLowerCase();
-          if (HEADER_KEYWORDS.some(keyword => cellLower.includes(keyword))) {
-            return acc + 1;
-          }
-        }
-        return acc;
-      }, 0);
-      if (score > bestScore) {
-        bestScore = score;
-        bestIdx = i;
-      }
-    }
-    const headerRow = allRows[bestIdx] || [];
-    const dataRows = allRows.slice(bestIdx + 1);
-    return { headerRow, dataRows, headerIndex: bestIdx };
-  }
-
   // Parse all tabs from the Excel file for metadata access
   const parseAllTabs = React.useCallback(() => {
-    if (!workbook || !onAllTabsParsed) return;
+    if (!workbook || !onAllTabsParsed || !workbookFile) return;
     
     const allTabsData: { tabName: string; columns: string[]; rows: ParsedData }[] = [];
     
-    workbook.SheetNames.forEach(sheetName => {
-      const worksheet = workbook.Sheets[sheetName];
-      const raw = XLSX.utils.sheet_to_json(worksheet, { defval: '', header: 1 });
+    workbook.sheetNames.forEach(sheetName => {
+      // Same header detection (stacked headers, merged cells) as the data tabs
+      const sheet = workbook.sheets[sheetName];
       
-      if (Array.isArray(raw) && raw.length > 0) {
-        // Use same header detection logic
-        const { headerRow, dataRows } = detectHeaderRow(raw);
-        
-        const columns: string[] = [];
-        let emptyCount = 1;
-        headerRow.forEach((h: any) => {
-          if (h && String(h).trim() !== '') {
-            columns.push(String(h));
-          } else {
-            columns.push(`_EMPTY_${emptyCount++}`);
-          }
-        });
-        
-        const rows = dataRows
-          .filter((row) => Array.isArray(row) && row.some(cell => cell !== undefined && cell !== null && cell !== ''))
-          .map((row) =>
-            Object.fromEntries(columns.map((col: string, i: number) => [col, row[i]]))
-          );
-        
+      if (sheet) {
         allTabsData.push({
-          tabName: sheetName,
-          columns,
-          rows: rows as ParsedData
+          tabName: batchTabName(workbookFile.name, sheetName, workbookFile.inBatch),
+          columns: sheet.columns,
+          rows: sheet.rows
         });
       }
     });
     
-    onAllTabsParsed(allTabsData);
-  }, [workbook, onAllTabsParsed]);
+    batchTabsRef.current = [...batchTabsRef.current, ...allTabsData];
+    onAllTabsParsed(batchTabsRef.current);
+  }, [workbook, workbookFile, onAllTabsParsed]);
 
   // When user confirms sheet selection, process all selected sheets at once
   const handleConfirmSheets = () => {
-    if (!workbook || selectedSheets.length === 0) return;
+    if (!workbook || !workbookFile || selectedSheets.length === 0) return;
     
     console.log('Processing all selected sheets:', selectedSheets);
     
     // Parse all selected sheets first
-    const allParsedTabs: { tabName: string; columns: string[]; rows: ParsedData; headerRow: any[]; dataRows: any[][]; allRows: any[][] }[] = [];
+    const allParsedTabs: { tabName: string; columns: string[]; rows: ParsedData; sheet: ParsedSheet; fileName: string }[] = [];
     
     selectedSheets.forEach(sheetName => {
-      const worksheet = workbook.Sheets[sheetName];
-      const raw = XLSX.utils.sheet_to_json(worksheet, { defval: '', header: 1 });
+      // Flexible header detection, including stacked header rows and merged cells
+      const sheet = workbook.sheets[sheetName];
       
-      if (Array.isArray(raw) && raw.length > 0) {
-        // Flexible header detection
-        const { headerRow, dataRows } = detectHeaderRow(raw);
-        
-        const columns: string[] = [];
-        let emptyCount = 1;
-        headerRow.forEach((h: any) => {
-          if (h && String(h).trim() !== '') {
-            columns.push(String(h));
-          } else {
-            columns.push(`_EMPTY_${emptyCount++}`);
-          }
-        });
-        
-        const rows = dataRows
-          .filter((row) => Array.isArray(row) && row.some(cell => cell !== undefined && cell !== null && cell !== ''))
-          .map((row) =>
-            Object.fromEntries(columns.map((col: string, i: number) => [col, row[i]]))
-          );
-        
+      if (sheet) {
         allParsedTabs.push({
-          tabName: sheetName,
-          columns,
-          rows: rows as ParsedData,
-          headerRow,
-          dataRows,
-          allRows: raw
+          tabName: batchTabName(workbookFile.name, sheetName, workbookFile.inBatch),
+          columns: sheet.columns,
+          rows: sheet.rows,
+          sheet,
+          fileName: workbookFile.name
         });
       }
     });
@@ -398,18 +369,29 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
       return;
     }
     
-    // Group tabs by identical headers
-    const headerGroups = groupTabsByHeaders(allParsedTabs);
-    console.log('Header groups:', headerGroups.map(g => ({ count: g.tabs.length, hasIdentical: g.hasIdenticalHeaders, names: g.tabs.map(t => t.tabName) })));
-    
-    // Store all groups and start with the first one
-    setAllHeaderGroups(headerGroups);
-    setCurrentGroupIndex(0);
-    
-    // Process the first group
-    if (headerGroups.length > 0) {
-      processHeaderGroup(headerGroups[0], 0, headerGroups.length);
-    }
+    // Group tabs by identical headers (in the worker; only names and headers are sent)
+    setProgress({ label: 'Comparing tab headers' });
+    importWorker.call('groupTabs', { tabs: allParsedTabs.map(({ tabName, columns }) => ({ tabName, columns })) })
+      .then(groups => {
+        const headerGroups = groups.map(group => ({
+          tabs: group.tabNames.map(name => allParsedTabs.find(tab => tab.tabName === name)!),
+          hasIdenticalHeaders: group.hasIdenticalHeaders
+        }));
+        console.log('Header groups:', headerGroups.map(g => ({ count: g.tabs.length, hasIdentical: g.hasIdenticalHeaders, names: g.tabs.map(t => t.tabName) })));
+        
+        // Store all groups and start with the first one
+        setAllHeaderGroups(headerGroups);
+        setCurrentGroupIndex(0);
+        
+        // Process the first group
+        if (headerGroups.length > 0) {
+          processHeaderGroup(headerGroups[0], 0, headerGroups.length);
+        }
+      })
+      .catch(error => {
+        if (!(error instanceof ImportCancelledError)) console.error('Tab grouping failed:', error);
+      })
+      .finally(() => setProgress(null));
   };
 
   // Parse all tabs when workbook is loaded
@@ -430,16 +412,36 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
   // Handler for confirming header preview
   const handleHeaderConfirm = () => {
     if (!headerPreview) return;
-    headerPreview.onConfirm(headerPreview.headerRow, headerPreview.dataRows);
+    headerPreview.onConfirm(headerPreview.sheet.layout);
   };
 
-  // Handler for user override (select a different row as header)
-  const handleHeaderRowSelect = (rowIdx: number) => {
+  // Handler for user override of the header rows and data start
+  const handleLayoutChange = (layout: HeaderLayout) => {
     if (!headerPreview) return;
-    const { allRows } = headerPreview;
-    const headerRow = allRows[rowIdx] || [];
-    const dataRows = allRows.slice(rowIdx + 1);
-    setHeaderPreview({ ...headerPreview, headerRow, dataRows });
+    setHeaderPreview({ ...headerPreview, sheet: applyHeaderLayout(headerPreview.sheet, layout) });
+  };
+
+  // Click picks a single header row; shift-click extends the header down to the clicked row
+  const handleHeaderRowSelect = (rowIdx: number, extend: boolean) => {
+    if (!headerPreview) return;
+    const { headerStart } = headerPreview.sheet.layout;
+    if (extend && rowIdx >= headerStart) {
+      handleLayoutChange({ headerStart, headerEnd: rowIdx, dataStart: rowIdx + 1 });
+    } else {
+      handleLayoutChange({ headerStart: rowIdx, headerEnd: rowIdx, dataStart: rowIdx + 1 });
+    }
+  };
+
+  // Row number fields are 1-based; keep header start <= end < data start
+  const handleLayoutField = (field: keyof HeaderLayout, rowNumber: number) => {
+    if (!headerPreview || !Number.isInteger(rowNumber) || rowNumber < 1) return;
+    const layout = { ...headerPreview.sheet.layout, [field]: rowNumber - 1 };
+    if (field === 'headerStart') layout.headerEnd = Math.max(layout.headerEnd, layout.headerStart);
+    if (field === 'headerEnd') layout.headerStart = Math.min(layout.headerStart, layout.headerEnd);
+    if (field !== 'dataStart' || layout.dataStart <= layout.headerEnd) {
+      layout.dataStart = Math.max(layout.dataStart, layout.headerEnd + 1);
+    }
+    handleLayoutChange(layout);
   };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -448,41 +450,73 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
       'text/csv': ['.csv'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
+      'application/x-sas-xport': ['.xpt'],
     },
-    multiple: false,
+    multiple: true,
   });
 
   return (
     <Box>
-      <Paper {...getRootProps()} sx={{ 
-        p: 3, 
-        textAlign: 'center', 
-        cursor: 'pointer', 
-        bgcolor: isDragActive ? '#F9ECEF' : '#FDF9FC',
-        border: isDragActive ? '2px dashed #8A0051' : '2px dashed #EFCCDB',
-        borderRadius: 2,
-        transition: 'all 0.3s ease',
-        '&:hover': {
-          bgcolor: '#F9ECEF',
-          borderColor: '#8A0051',
-          boxShadow: '0 4px 15px rgba(138, 0, 81, 0.1)'
-        }
-      }}>
-        <input {...getInputProps()} />
-        <Typography variant="body1" sx={{ 
-          color: isDragActive ? '#8A0051' : '#5C0037',
-          fontWeight: 500,
-          mb: 1
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'stretch' }}>
+        <Paper {...getRootProps()} sx={{ 
+          flex: 1,
+          p: 3, 
+          textAlign: 'center', 
+          cursor: 'pointer', 
+          bgcolor: isDragActive ? '#F9ECEF' : '#FDF9FC',
+          border: isDragActive ? '2px dashed #8A0051' : '2px dashed #EFCCDB',
+          borderRadius: 2,
+          transition: 'all 0.3s ease',
+          '&:hover': {
+            bgcolor: '#F9ECEF',
+            borderColor: '#8A0051',
+            boxShadow: '0 4px 15px rgba(138, 0, 81, 0.1)'
+          }
         }}>
-          {isDragActive ? 'Drop the file here...' : 'Drag & drop a CSV or Excel file here, or click to select'}
-        </Typography>
-        <Typography variant="caption" sx={{ color: '#B8347A' }}>
-          Supported formats: .csv, .xlsx, .xls
+          <input {...getInputProps()} />
+          <Typography variant="body1" sx={{ 
+            color: isDragActive ? '#8A0051' : '#5C0037',
+            fontWeight: 500,
+            mb: 1
+          }}>
+            {isDragActive ? 'Drop the file(s) here...' : 'Drag & drop one or more CSV or Excel files here, or click to select'}
+          </Typography>
+          <Typography variant="caption" sx={{ color: '#B8347A' }}>
+            Supported formats: .csv, .xlsx, .xls, and CDISC SEND datasets (.xpt or .csv)
+          </Typography>
+        </Paper>
+        <Button
+          variant="outlined"
+          onClick={() => setShowPasteDialog(true)}
+          sx={{ minWidth: 140, borderStyle: 'dashed', borderWidth: 2, borderRadius: 2 }}
+        >
+          📋 Paste data
+        </Button>
+      </Box>
+      <PasteDataDialog
+        open={showPasteDialog}
+        onConfirm={handlePasteConfirm}
+        onClose={() => setShowPasteDialog(false)}
+      />
+      {currentFile && currentFile.total > 1 && (
+        <Typography variant="body2" sx={{ mt: 2, color: '#8A0051', fontWeight: 500 }}>
+          File {currentFile.number} of {currentFile.total}: {currentFile.name}
+          {fileQueue.length > 0 && ` (next: ${fileQueue.map(f => f.name).join(', ')})`}
         </Typography>
-      </Paper>
-      {sheetNames.length > 1 && (
+      )}
+      {progress && (
+        <ImportProgress
+          label={progress.label}
+          done={progress.done}
+          total={progress.total}
+          onCancel={handleCancelLoading}
+        />
+      )}
+      {sheetNames.length > 0 && (
         <Box sx={{ mt: 2 }}>
-          <Typography variant="subtitle2" sx={{ mb: 1 }}>Select Sheet(s):</Typography>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Select Sheet(s){workbookFile ? ` from ${workbookFile.name}` : ''}:
+          </Typography>
           <List>
             {sheetNames.map((name) => (
               <ListItem key={name} button onClick={handleToggle(name)}>
@@ -499,7 +533,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
             ))}
           </List>
           <Box sx={{ textAlign: 'right', mt: 1 }}>
-            <Button onClick={handleConfirmSheets} disabled={selectedSheets.length === 0} variant="contained">
+            <Button onClick={handleConfirmSheets} disabled={selectedSheets.length === 0 || progress !== null} variant="contained">
               Confirm Sheet Selection
             </Button>
           </Box>
@@ -516,7 +550,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
           }}>
             <Box>
               <Typography variant="h5" sx={{ fontWeight: 700, mb: 1 }}>
-                Step 1: Confirm Header Row
+                Step 1: Confirm Header Rows
               </Typography>
               <Typography variant="body1" sx={{ color: '#E699C2', fontWeight: 500 }}>
                 Tab "{headerPreview.tabName}" ({headerPreview.currentUINumber} of {headerPreview.totalUIs})
@@ -525,28 +559,72 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTabsParsed, onAllTabsParsed }
           </DialogTitle>
           <DialogContent sx={{ mt: 2 }}>
             <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
-              📊 Select which row contains the column headers for this tab:
+              📊 Select which row(s) contain the column headers for this tab:
             </Typography>
             <Box sx={{ maxHeight: 300, overflow: 'auto', mb: 2 }}>
               <table style={{ width: '100%', borderCollapse: 'collapse' }}>
                 <tbody>
-                  {headerPreview.allRows.slice(0, MAX_HEADER_SCAN_ROWS).map((row, idx) => (
-                    <tr
-                      key={idx}
-                      style={{ background: row === headerPreview.headerRow ? '#e3f2fd' : undefined, cursor: 'pointer' }}
-                      onClick={() => handleHeaderRowSelect(idx)}
-                    >
-                      {Array.isArray(row) ? row.map((cell, i) => (
-                        <td key={i} style={{ padding: 4, border: '1px solid #ccc' }}>{cell}</td>
-                      )) : null}
-                    </tr>
-                  ))}
+                  {headerPreview.sheet.allRows
+                    .slice(0, Math.max(MAX_HEADER_SCAN_ROWS, headerPreview.sheet.layout.dataStart + 3))
+                    .map((row, idx) => {
+                      const { headerStart, headerEnd, dataStart } = headerPreview.sheet.layout;
+                      const isHeader = idx >= headerStart && idx <= headerEnd;
+                      return (
+                        <tr
+                          key={idx}
+                          style={{
+                            background: isHeader ? '#e3f2fd' : idx < dataStart ? '#f5f5f5' : undefined,
+                            color: !isHeader && idx < dataStart ? '#999' : undefined,
+                            borderTop: idx === dataStart ? '2px solid #8A0051' : undefined,
+                            cursor: 'pointer'
+                          }}
+                          onClick={e => handleHeaderRowSelect(idx, e.shiftKey)}
+                        >
+                          <td style={{ padding: 4, border: '1px solid #ccc', color: '#8A0051', fontWeight: 600 }}>{idx + 1}</td>
+                          {Array.isArray(row) ? row.map((cell, i) => (
+                            <td key={i} style={{ padding: 4, border: '1px solid #ccc' }}>{String(cell ?? '')}</td>
+                          )) : null}
+                        </tr>
+                      );
+                    })}
                 </tbody>
               </table>
             </Box>
             <Typography variant="caption" color="text.secondary">
-              Click a row to select as header. Only the first 10 rows are shown for preview.
+              Click a row to select it as the header; shift-click to extend the header over several rows.
+              {headerPreview.sheet.hasMerges && ' Merged cells have been filled in from the worksheet.'}
             </Typography>
+            <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Header from row"
+                value={headerPreview.sheet.layout.headerStart + 1}
+                onChange={e => handleLayoutField('headerStart', Number(e.target.value))}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Header to row"
+                value={headerPreview.sheet.layout.headerEnd + 1}
+                onChange={e => handleLayoutField('headerEnd', Number(e.target.value))}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Data starts at row"
+                value={headerPreview.sheet.layout.dataStart + 1}
+                onChange={e => handleLayoutField('dataStart', Number(e.target.value))}
+              />
+            </Box>
+            <Typography variant="body2" sx={{ mt: 2, mb: 1, color: '#8A0051', fontWeight: 500 }}>
+              Resulting columns ({headerPreview.sheet.columns.length}), {headerPreview.sheet.rows.length} data rows:
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {headerPreview.sheet.columns.map((col, i) => (
+                <Chip key={i} size="small" label={col} variant={col.startsWith('_EMPTY_') ? 'outlined' : 'filled'} />
+              ))}
+            </Box>
           </DialogContent>
           <DialogActions sx={{ px: 3, py: 2 }}>
             <Button onClick={() => setHeaderPreview(null)} sx={{ mr: 1 }}>
@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react';
+import {
+  Box, Typography, Chip, Alert, Paper,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow
+} from '@mui/material';
+import { colorManager } from '../utils/ColorManager';
+import { getSignificanceLevel } from '../utils/StatisticalAnalysis';
+import {
+  compareGrowthRates, selectedFit, GROWTH_MODEL_FORMULAS, GROWTH_MODEL_LABELS,
+  type AnimalGrowthFit, type GrowthModelKind
+} from '../utils/GrowthCurves';
+
+interface GrowthCurveSummaryProps {
+  fits: AnimalGrowthFit[];
+  groups: string[];
+  controlGroup: string;
+  model: GrowthModelKind | 'best';
+  parameterLabel: string;
+  labelFor: (group: string) => string;
+}
+
+const formatP = (p: number) => (!Number.isFinite(p) ? '—' : p < 0.001 ? '<0.001' : p.toFixed(3));
+
+const formatDays = (days: number) => (Number.isNaN(days) ? '—' : Number.isFinite(days) ? days.toFixed(1) : 'Does not double');
+
+const formatRate = (rate: number) => (Number.isFinite(rate) ? rate.toFixed(4) : '—');
+
+// Fitted growth rates per animal and their comparison between groups, shown under the individual-animal subplots
+const GrowthCurveSummary: React.FC<GrowthCurveSummaryProps> = ({
+  fits, groups, controlGroup, model, parameterLabel, labelFor
+}) => {
+  const comparison = useMemo(
+    () => compareGrowthRates(fits, groups, controlGroup, model),
+    [fits, groups, controlGroup, model]
+  );
+  const unfitted = fits.filter(animal => !selectedFit(animal, model)).length;
+
+  if (fits.length === 0) {
+    return (
+      <Alert severity="info" sx={{ mt: 3 }}>
+        No animals with a group and numeric {parameterLabel} values to fit.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+        Fitted Growth Rates ({model === 'best' ? 'best model by AIC' : GROWTH_MODEL_LABELS[model]})
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <Chip label={`${fits.length - unfitted} of ${fits.length} animals fitted`} />
+        {Number.isFinite(comparison.anova.fStatistic) && (
+          <Chip
+            label={`ANOVA: F(${comparison.anova.dfBetween}, ${comparison.anova.dfWithin}) = ${comparison.anova.fStatistic.toFixed(2)}, p = ${formatP(comparison.anova.pValue)}`}
+            color={comparison.anova.pValue < 0.05 ? 'primary' : 'default'}
+          />
+        )}
+      </Box>
+
+      <TableContainer component={Paper} sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell><strong>Group</strong></TableCell>
+              <TableCell align="right"><strong>n</strong></TableCell>
+              <TableCell align="right"><strong>Rate per Day (mean ± SD)</strong></TableCell>
+              <TableCell align="right"><strong>Median Doubling Time (days)</strong></TableCell>
+              <TableCell align="right"><strong>Mean R²</strong></TableCell>
+              {model === 'best' && <TableCell><strong>Models Chosen</strong></TableCell>}
+              <TableCell align="right"><strong>Difference vs {labelFor(controlGroup)}</strong></TableCell>
+              <TableCell align="right"><strong>p-value (Holm)</strong></TableCell>
+              <TableCell align="center"><strong>Significance</strong></TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {comparison.rows.map(row => (
+              <TableRow key={row.group}>
+                <TableCell sx={{ color: colorManager.getColor(row.group), fontWeight: 600 }}>
+                  {labelFor(row.group)}{row.group === controlGroup ? ' (reference)' : ''}
+                </TableCell>
+                <TableCell align="right">{row.n}</TableCell>
+                <TableCell align="right">
+                  {formatRate(row.meanRate)}{Number.isFinite(row.sdRate) ? ` ± ${row.sdRate.toFixed(4)}` : ''}
+                </TableCell>
+                <TableCell align="right">{formatDays(row.medianDoublingTime)}</TableCell>
+                <TableCell align="right">{Number.isFinite(row.meanRSquared) ? row.meanRSquared.toFixed(3) : '—'}</TableCell>
+                {model === 'best' && (
+                  <TableCell>
+                    {(Object.keys(row.modelCounts) as GrowthModelKind[])
+                      .filter(kind => row.modelCounts[kind] > 0)
+                      .map(kind => `${GROWTH_MODEL_LABELS[kind]} ${row.modelCounts[kind]}`)
+                      .join(', ') || '—'}
+                  </TableCell>
+                )}
+                <TableCell align="right">{row.group === controlGroup ? '—' : formatRate(row.difference)}</TableCell>
+                <TableCell align="right">{formatP(row.adjustedPValue)}</TableCell>
+                <TableCell align="center">{Number.isFinite(row.adjustedPValue) ? getSignificanceLevel(row.adjustedPValue) : ''}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+        Per-Animal Fits
+      </Typography>
+      <TableContainer component={Paper} sx={{ maxHeight: 360 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell><strong>Animal</strong></TableCell>
+              <TableCell><strong>Group</strong></TableCell>
+              <TableCell><strong>Model</strong></TableCell>
+              <TableCell align="right"><strong>Visits</strong></TableCell>
+              <TableCell align="right"><strong>Rate per Day</strong></TableCell>
+              <TableCell align="right"><strong>Doubling Time (days)</strong></TableCell>
+              <TableCell align="right"><strong>R²</strong></TableCell>
+              <TableCell align="right"><strong>AIC</strong></TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {[...fits]
+              .sort((a, b) => groups.indexOf(a.group) - groups.indexOf(b.group) || a.animalId.localeCompare(b.animalId))
+              .map(animal => {
+                const fit = selectedFit(animal, model);
+                return (
+                  <TableRow key={animal.animalId}>
+                    <TableCell>{animal.animalId}</TableCell>
+                    <TableCell sx={{ color: colorManager.getColor(animal.group) }}>{labelFor(animal.group)}</TableCell>
+                    <TableCell>{fit ? GROWTH_MODEL_LABELS[fit.model] : 'Not fitted'}</TableCell>
+                    <TableCell align="right">{animal.days.length}</TableCell>
+                    <TableCell align="right">{fit ? formatRate(fit.growthRate) : '—'}</TableCell>
+                    <TableCell align="right">{fit ? formatDays(fit.doublingTime) : '—'}</TableCell>
+                    <TableCell align="right">{fit && Number.isFinite(fit.rSquared) ? fit.rSquared.toFixed(3) : '—'}</TableCell>
+                    <TableCell align="right">{fit ? fit.aic.toFixed(1) : '—'}</TableCell>
+                  </TableRow>
+                );
+              })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Alert severity="info" sx={{ mt: 2 }}>
+        <Typography variant="body2">
+          <strong>Statistical Methods:</strong> Each animal's {parameterLabel} timeline is fitted by least squares with
+          day measured from its first visit: {(Object.keys(GROWTH_MODEL_FORMULAS) as GrowthModelKind[])
+            .map(kind => `${GROWTH_MODEL_LABELS[kind].toLowerCase()} ${GROWTH_MODEL_FORMULAS[kind]}`).join('; ')}.
+          Gompertz and logistic curves are only tried for animals that grew, and a model needs at least two more visits
+          than it has parameters. The best model has the lowest AIC. The growth rate is the initial specific rate
+          V′(0)/V(0) and the doubling time is the days for the fitted curve to reach twice V(0). Rates are compared with
+          {' '}{labelFor(controlGroup)} by Welch t-tests, Holm-adjusted, and across all groups by one-way ANOVA.
+        </Typography>
+      </Alert>
+    </Box>
+  );
+};
+
+export default GrowthCurveSummary;
@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Chip,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import type { FileChanges } from '../utils/DatasetDiff';
+
+interface ImportChangeSummaryDialogProps {
+  open: boolean;
+  files: FileChanges[];
+  onClose: () => void;
+}
+
+// Long change lists are summarised by the counts above them
+const MAX_LISTED_CHANGES = 100;
+
+// What each file added to or changed in the current study
+const ImportChangeSummaryDialog: React.FC<ImportChangeSummaryDialogProps> = ({ open, files, onClose }) => (
+  <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+    <DialogTitle sx={{
+      background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+      color: 'white',
+      textAlign: 'center',
+      py: 3
+    }}>
+      <Typography variant="h5" sx={{ fontWeight: 700 }}>
+        ➕ Added to Current Study
+      </Typography>
+      <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+        Changes made by each imported file
+      </Typography>
+    </DialogTitle>
+    <DialogContent sx={{ mt: 2 }}>
+      {files.map(({ fileName, changes }) => (
+        <Box key={fileName} sx={{ mb: 3, p: 2, bgcolor: '#FDF9FC', borderRadius: 2, border: '1px solid #EFCCDB' }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051', mb: 1 }}>
+            📄 {fileName}
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            <Chip size="small" label={`New animals: ${changes.newAnimals.length}`} />
+            <Chip size="small" label={`New timepoints: ${changes.newTimepoints.length}`} />
+            <Chip size="small" label={`New values: ${changes.addedValues.length}`} />
+            <Chip
+              size="small"
+              color={changes.changedValues.length > 0 ? 'warning' : 'default'}
+              label={`Changed values: ${changes.changedValues.length}`}
+            />
+            <Chip size="small" variant="outlined" label={`Unchanged: ${changes.unchangedCount}`} />
+          </Box>
+          {changes.newTimepoints.length > 0 && (
+            <Typography variant="body2">New study days: {changes.newTimepoints.join(', ')}</Typography>
+          )}
+          {changes.newAnimals.length > 0 && (
+            <Typography variant="body2">New animals: {changes.newAnimals.join(', ')}</Typography>
+          )}
+          {changes.changedValues.length > 0 && (
+            <TableContainer component={Paper} sx={{ mt: 1.5, maxHeight: 240 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Animal</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Day</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Parameter</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Before</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">After</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {changes.changedValues.slice(0, MAX_LISTED_CHANGES).map(change => (
+                    <TableRow key={`${change.animalId}:${change.studyDay}:${change.parameter}`}>
+                      <TableCell>{change.animalId}</TableCell>
+                      <TableCell>{change.studyDay}</TableCell>
+                      <TableCell>{change.parameter}</TableCell>
+                      <TableCell align="right">{String(change.before)}</TableCell>
+                      <TableCell align="right">{String(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+          {changes.changedValues.length > MAX_LISTED_CHANGES && (
+            <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+              Showing the first {MAX_LISTED_CHANGES} of {changes.changedValues.length} changed values.
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </DialogContent>
+    <DialogActions sx={{ px: 3, py: 2 }}>
+      <Button onClick={onClose} variant="contained" sx={{ px: 3 }}>
+        Continue
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default ImportChangeSummaryDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Box, Typography, LinearProgress, Button } from '@mui/material';
+
+interface ImportProgressProps {
+  label: string;
+  done?: number;
+  total?: number;
+  onCancel: () => void;
+}
+
+// Progress of an import step running in the import worker
+const ImportProgress: React.FC<ImportProgressProps> = ({ label, done, total, onCancel }) => {
+  const determinate = done !== undefined && total !== undefined && total > 0;
+  return (
+    <Box sx={{ mt: 2, p: 2, bgcolor: '#FDF9FC', borderRadius: 1, border: '1px solid #EFCCDB' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="body2" sx={{ color: '#8A0051', fontWeight: 500 }}>
+          ⏳ {label}{determinate && ` (${done} of ${total})`}
+        </Typography>
+        <Button size="small" onClick={onCancel}>
+          Cancel
+        </Button>
+      </Box>
+      <LinearProgress
+        variant={determinate ? 'determinate' : 'indeterminate'}
+        value={determinate ? (done / total) * 100 : undefined}
+      />
+    </Box>
+  );
+};
+
+export default ImportProgress;
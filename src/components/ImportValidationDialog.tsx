@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Chip, Select, MenuItem, Link,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, FormControl, InputLabel
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import {
+  ISSUE_TYPE_LABELS, RESOLUTION_LABELS, resolutionOptions, resolutionFor, describeSource,
+  type IssueResolution, type IssueResolutions, type SourceRef, type ValidationIssue, type ValidationIssueType
+} from '../utils/ImportValidation';
+
+interface ImportValidationDialogProps {
+  open: boolean;
+  issues: ValidationIssue[];
+  // Rows the issue sources point into, for the row preview
+  sourceTabs: { tabName: string; rows: ParsedData }[];
+  confirmLabel: string;
+  onConfirm: (resolutions: IssueResolutions) => void;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows freezes the dialog; filter by type to see the rest
+const MAX_VISIBLE_ISSUES = 200;
+
+// Lists validation issues found at import and lets the user pick a resolution for each before committing
+const ImportValidationDialog: React.FC<ImportValidationDialogProps> = ({
+  open, issues, sourceTabs, confirmLabel, onConfirm, onClose
+}) => {
+  const [resolutions, setResolutions] = useState<IssueResolutions>({});
+  const [typeFilter, setTypeFilter] = useState<ValidationIssueType | null>(null);
+  const [selectedSource, setSelectedSource] = useState<SourceRef | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setResolutions({});
+      setTypeFilter(null);
+      setSelectedSource(null);
+    }
+  }, [open, issues]);
+
+  const typeCounts = useMemo(() => {
+    const counts = new Map<ValidationIssueType, number>();
+    issues.forEach(issue => counts.set(issue.type, (counts.get(issue.type) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [issues]);
+
+  const filtered = typeFilter ? issues.filter(issue => issue.type === typeFilter) : issues;
+
+  // Resolutions every filtered issue supports, for the bulk selector
+  const bulkOptions = useMemo(() => {
+    if (filtered.length === 0) return [];
+    return filtered
+      .map(resolutionOptions)
+      .reduce((common, options) => common.filter(option => options.includes(option)));
+  }, [filtered]);
+
+  const applyToFiltered = (resolution: IssueResolution) => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      filtered.forEach(issue => { next[issue.id] = resolution; });
+      return next;
+    });
+  };
+
+  const previewRow = selectedSource
+    ? sourceTabs.find(tab => tab.tabName === selectedSource.tabName)?.rows[selectedSource.rowIndex]
+    : undefined;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🧪 Import Validation Report
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          {issues.length} issue(s) found. Choose how each should be resolved before the data is committed.
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          <Chip
+            label={`All (${issues.length})`}
+            color={typeFilter === null ? 'primary' : 'default'}
+            onClick={() => setTypeFilter(null)}
+          />
+          {typeCounts.map(([type, count]) => (
+            <Chip
+              key={type}
+              label={`${ISSUE_TYPE_LABELS[type]} (${count})`}
+              color={typeFilter === type ? 'primary' : 'default'}
+              onClick={() => setTypeFilter(type)}
+            />
+          ))}
+        </Box>
+        {bulkOptions.length > 1 && (
+          <FormControl size="small" sx={{ mb: 2, minWidth: 260 }}>
+            <InputLabel>Resolve all shown issues</InputLabel>
+            <Select
+              value=""
+              label="Resolve all shown issues"
+              onChange={e => applyToFiltered(e.target.value as IssueResolution)}
+            >
+              {bulkOptions.map(option => (
+                <MenuItem key={option} value={option}>{RESOLUTION_LABELS[option]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <TableContainer component={Paper} sx={{ maxHeight: 360 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Issue</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Source</TableCell>
+                <TableCell sx={{ fontWeight: 600, width: 150 }}>Resolution</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filtered.slice(0, MAX_VISIBLE_ISSUES).map(issue => {
+                const options = resolutionOptions(issue);
+                return (
+                  <TableRow key={issue.id}>
+                    <TableCell>
+                      <Typography variant="caption" sx={{ color: '#8A0051', fontWeight: 600 }}>
+                        {ISSUE_TYPE_LABELS[issue.type]}
+                      </Typography>
+                      <Typography variant="body2">{issue.message}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {issue.sources.length === 0 && <Typography variant="body2" color="text.secondary">—</Typography>}
+                      {issue.sources.map(source => (
+                        <Link
+                          key={describeSource(source)}
+                          component="button"
+                          variant="body2"
+                          sx={{ display: 'block', textAlign: 'left' }}
+                          onClick={() => setSelectedSource(source)}
+                        >
+                          {describeSource(source)}
+                        </Link>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {options.length > 1 ? (
+                        <Select
+                          size="small"
+                          fullWidth
+                          value={resolutionFor(resolutions, issue)}
+                          onChange={e => setResolutions(prev => ({ ...prev, [issue.id]: e.target.value as IssueResolution }))}
+                        >
+                          {options.map(option => (
+                            <MenuItem key={option} value={option}>{RESOLUTION_LABELS[option]}</MenuItem>
+                          ))}
+                        </Select>
+                      ) : (
+                        <Typography variant="body2">{RESOLUTION_LABELS[options[0]]}</Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {filtered.length > MAX_VISIBLE_ISSUES && (
+          <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+            Showing the first {MAX_VISIBLE_ISSUES} of {filtered.length}. Bulk resolution applies to all of them.
+          </Typography>
+        )}
+        {selectedSource && (
+          <Box sx={{ mt: 2, p: 2, bgcolor: '#FDF9FC', borderRadius: 2, border: '1px solid #EFCCDB' }}>
+            <Typography variant="body2" sx={{ color: '#8A0051', fontWeight: 600, mb: 1 }}>
+              🔎 {describeSource(selectedSource)}
+            </Typography>
+            {previewRow ? (
+              <Table size="small">
+                <TableBody>
+                  {Object.entries(previewRow).map(([column, value]) => (
+                    <TableRow key={column}>
+                      <TableCell sx={{ fontWeight: 500, width: '40%' }}>{column}</TableCell>
+                      <TableCell>{String(value ?? '')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <Typography variant="body2" color="text.secondary">Row not available.</Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} sx={{ mr: 1 }}>
+          Cancel Import
+        </Button>
+        <Button onClick={() => onConfirm(resolutions)} variant="contained" sx={{ px: 3 }}>
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportValidationDialog;
@@ -0,0 +1,291 @@
+import React, { useState, useMemo } from 'react';
+import Plot from 'react-plotly.js';
+import type { Data, Layout } from 'plotly.js';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, Grid, Chip, Alert, Divider, Paper,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import { colorManager } from '../utils/ColorManager';
+import { getSignificanceLevel } from '../utils/StatisticalAnalysis';
+import { fitGrowthMixedModel, type FixedEffect, type MixedModelObservation } from '../utils/MixedModel';
+
+interface LongitudinalModelProps {
+  data: ParsedData;
+  volumeColumn: string;
+  groupField: string;
+  groups: string[];
+  controlGroup: string;
+  labelFor: (group: string) => string;
+}
+
+type ModelPlot = 'fitted_vs_observed' | 'time_course';
+
+const formatP = (p: number) => (!Number.isFinite(p) ? '—' : p < 0.001 ? '<0.001' : p.toFixed(3));
+
+// Mixed-model growth rates on log tumour volume, compared with the control across the whole time course
+const LongitudinalModel: React.FC<LongitudinalModelProps> = ({
+  data, volumeColumn, groupField, groups, controlGroup, labelFor
+}) => {
+  const [plotType, setPlotType] = useState<ModelPlot>('fitted_vs_observed');
+
+  const fit = useMemo(() => {
+    const observations: MixedModelObservation[] = [];
+    data.forEach(row => {
+      const group = row[groupField];
+      const volume = row[volumeColumn];
+      if (!row.animalId || !group || typeof volume !== 'number') return;
+      observations.push({ animalId: String(row.animalId), group: String(group), day: Number(row.studyDay), volume });
+    });
+    return fitGrowthMixedModel(observations, groups, controlGroup);
+  }, [data, volumeColumn, groupField, groups, controlGroup]);
+
+  const termLabel = (effect: FixedEffect) => {
+    if (effect.term === 'group') return `${labelFor(effect.group!)} vs ${labelFor(controlGroup)} (intercept)`;
+    if (effect.term === 'group_day') return `${labelFor(effect.group!)} × Day`;
+    return effect.name;
+  };
+
+  const modelPlot = useMemo(() => {
+    if (!fit) return null;
+    const traces: Data[] = [];
+    if (plotType === 'fitted_vs_observed') {
+      fit.groups.forEach(group => {
+        const points = fit.fitted.filter(p => p.group === group);
+        traces.push({
+          x: points.map(p => p.logFitted),
+          y: points.map(p => p.logObserved),
+          text: points.map(p => `${p.animalId}, day ${p.day}`),
+          type: 'scatter',
+          mode: 'markers',
+          name: labelFor(group),
+          marker: { color: colorManager.getColor(group), size: 6, opacity: 0.7 },
+          hovertemplate: '%{text}<br>Fitted %{x:.2f}<br>Observed %{y:.2f}<extra></extra>'
+        });
+      });
+      const values = fit.fitted.flatMap(p => [p.logFitted, p.logObserved]);
+      const low = Math.min(...values);
+      const high = Math.max(...values);
+      traces.push({
+        x: [low, high],
+        y: [low, high],
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Identity',
+        line: { color: '#666', dash: 'dash', width: 1 },
+        hoverinfo: 'skip'
+      });
+    } else {
+      fit.groups.forEach(group => {
+        const color = colorManager.getColor(group);
+        const points = fit.fitted.filter(p => p.group === group);
+        traces.push({
+          x: points.map(p => p.day),
+          y: points.map(p => p.logObserved),
+          text: points.map(p => p.animalId),
+          type: 'scatter',
+          mode: 'markers',
+          name: `${labelFor(group)} (observed)`,
+          legendgroup: group,
+          marker: { color: `${color}80`, size: 5 },
+          hovertemplate: '%{text}<br>Day %{x}<br>%{y:.2f}<extra></extra>'
+        });
+        const days = Array.from(new Set(points.map(p => p.day))).sort((a, b) => a - b);
+        const population = days.map(day => points.find(p => p.day === day)!.logPopulation);
+        traces.push({
+          x: days,
+          y: population,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${labelFor(group)} (model)`,
+          legendgroup: group,
+          line: { color, width: 3 }
+        });
+      });
+    }
+
+    const layout: Partial<Layout> = {
+      title: {
+        text: plotType === 'fitted_vs_observed' ? 'Observed vs Fitted log(Volume)' : 'Model Fit Over Time (log Volume)',
+        font: { size: 18, color: '#8A0051' }
+      },
+      xaxis: {
+        title: { text: plotType === 'fitted_vs_observed' ? 'Fitted log(Volume)' : 'Study Day' },
+        showgrid: true,
+        gridcolor: '#f0f0f0'
+      },
+      yaxis: { title: { text: 'Observed log(Volume)' }, showgrid: true, gridcolor: '#f0f0f0' },
+      plot_bgcolor: 'white',
+      paper_bgcolor: 'white',
+      hovermode: 'closest',
+      legend: { x: 1.02, y: 1, bgcolor: 'rgba(255,255,255,0.9)', bordercolor: '#ccc', borderwidth: 1 }
+    };
+    return { traces, layout };
+  }, [fit, plotType, labelFor]);
+
+  if (!fit) {
+    return (
+      <Alert severity="info">
+        The mixed model needs at least two groups with positive tumour volumes and more animals than groups.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {!fit.converged && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The variance components did not fully converge; treat the estimates with caution.
+        </Alert>
+      )}
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <Chip label={`${fit.nAnimals} animals, ${fit.nObservations} measurements`} />
+        <Chip
+          label={`Group × day: F(${fit.interactionTest.df1}, ${fit.interactionTest.df2}) = ${fit.interactionTest.fStatistic.toFixed(2)}, p = ${formatP(fit.interactionTest.pValue)}`}
+          color={fit.interactionTest.pValue < 0.05 ? 'primary' : 'default'}
+          sx={{ fontWeight: 600 }}
+        />
+        <Chip variant="outlined" label={`REML log-likelihood ${fit.remlLogLikelihood.toFixed(1)}`} />
+        {fit.excludedObservations > 0 && (
+          <Chip variant="outlined" color="warning" label={`${fit.excludedObservations} zero or missing volume(s) left out`} />
+        )}
+      </Box>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={6}>
+          <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+            Growth Rate by Group
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>log(V) per Day</strong></TableCell>
+                  <TableCell align="right"><strong>95% CI</strong></TableCell>
+                  <TableCell align="right"><strong>Doubling Time (days)</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fit.groupRates.map(rate => (
+                  <TableRow key={rate.group}>
+                    <TableCell sx={{ color: colorManager.getColor(rate.group), fontWeight: 600 }}>{labelFor(rate.group)}</TableCell>
+                    <TableCell align="right">{rate.rate.toFixed(4)}</TableCell>
+                    <TableCell align="right">{rate.lower.toFixed(4)} – {rate.upper.toFixed(4)}</TableCell>
+                    <TableCell align="right">{Number.isFinite(rate.doublingTime) ? rate.doublingTime.toFixed(1) : 'No growth'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+            Growth-Rate Difference vs {labelFor(fit.controlGroup)}
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>Difference</strong></TableCell>
+                  <TableCell align="right"><strong>95% CI</strong></TableCell>
+                  <TableCell align="right"><strong>p-value</strong></TableCell>
+                  <TableCell align="center"><strong>Significance</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fit.comparisons.map(comparison => (
+                  <TableRow
+                    key={comparison.group}
+                    sx={{ backgroundColor: comparison.pValue < 0.05 ? `${colorManager.getColor(comparison.group)}20` : 'inherit' }}
+                  >
+                    <TableCell sx={{ color: colorManager.getColor(comparison.group), fontWeight: 600 }}>{labelFor(comparison.group)}</TableCell>
+                    <TableCell align="right">{comparison.difference.toFixed(4)}</TableCell>
+                    <TableCell align="right">{comparison.lower.toFixed(4)} – {comparison.upper.toFixed(4)}</TableCell>
+                    <TableCell align="right">{formatP(comparison.pValue)}</TableCell>
+                    <TableCell align="center">{getSignificanceLevel(comparison.pValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+      </Grid>
+
+      <Divider sx={{ my: 3 }} />
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="body2" sx={{ color: '#666' }}>
+          Between-animal SD: intercept {fit.randomEffects.interceptSD.toFixed(3)}, slope {fit.randomEffects.slopeSD.toFixed(4)} per day
+          (correlation {fit.randomEffects.correlation.toFixed(2)}); residual SD {fit.randomEffects.residualSD.toFixed(3)}
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 220 }}>
+          <InputLabel>Plot</InputLabel>
+          <Select value={plotType} label="Plot" onChange={(e) => setPlotType(e.target.value as ModelPlot)}>
+            <MenuItem value="fitted_vs_observed">Observed vs Fitted</MenuItem>
+            <MenuItem value="time_course">Model Fit Over Time</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+      {modelPlot && (
+        <Plot
+          data={modelPlot.traces}
+          layout={{
+            ...modelPlot.layout,
+            width: 900,
+            height: 500,
+            margin: { l: 60, r: 60, t: 60, b: 60 }
+          }}
+          config={{
+            displayModeBar: true,
+            displaylogo: false,
+            modeBarButtonsToRemove: ['pan2d', 'lasso2d']
+          }}
+        />
+      )}
+
+      <Divider sx={{ my: 3 }} />
+      <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+        Fixed Effects
+      </Typography>
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell><strong>Term</strong></TableCell>
+              <TableCell align="right"><strong>Estimate</strong></TableCell>
+              <TableCell align="right"><strong>SE</strong></TableCell>
+              <TableCell align="right"><strong>df</strong></TableCell>
+              <TableCell align="right"><strong>t</strong></TableCell>
+              <TableCell align="right"><strong>p-value</strong></TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {fit.fixedEffects.map(effect => (
+              <TableRow key={effect.name}>
+                <TableCell>{termLabel(effect)}</TableCell>
+                <TableCell align="right">{effect.estimate.toFixed(4)}</TableCell>
+                <TableCell align="right">{effect.standardError.toFixed(4)}</TableCell>
+                <TableCell align="right">{effect.df}</TableCell>
+                <TableCell align="right">{effect.t.toFixed(2)}</TableCell>
+                <TableCell align="right">{formatP(effect.pValue)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Alert severity="info" sx={{ mt: 2 }}>
+        <Typography variant="body2">
+          <strong>Statistical Methods:</strong> Linear mixed-effects model on log tumour volume with group, study day and
+          group × day fixed effects and a correlated random intercept and slope per animal, fitted by REML. Day is measured
+          from day {fit.baselineDay}; group terms are against {labelFor(fit.controlGroup)}. Every measurement an animal has
+          contributes, so unequal visit schedules and dropouts need no imputation. Tests use t distributions with
+          between/within-animal degrees of freedom; doubling time is ln 2 divided by the growth rate.
+        </Typography>
+      </Alert>
+    </Box>
+  );
+};
+
+export default LongitudinalModel;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions,
+  Button, Box, Typography, TextField, IconButton, Tooltip, Alert,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon, Check as CheckIcon, Close as CloseIcon } from '@mui/icons-material';
+import {
+  listTemplates, renameTemplate, deleteTemplate,
+  exportTemplatesToJSON, importTemplatesFromJSON,
+  type MappingTemplate
+} from '../utils/MappingTemplateStore';
+
+interface MappingTemplateManagerProps {
+  open: boolean;
+  onClose: () => void;
+  onTemplatesChanged?: () => void;
+}
+
+const MappingTemplateManager: React.FC<MappingTemplateManagerProps> = ({ open, onClose, onTemplatesChanged }) => {
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (error) {
+      console.error('Failed to load mapping templates:', error);
+      setMessage({ severity: 'error', text: 'Could not read saved templates from browser storage.' });
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (open) {
+      setMessage(null);
+      setEditingId(null);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  const handleRename = async (id: number) => {
+    const name = editingName.trim();
+    if (!name) return;
+    try {
+      await renameTemplate(id, name);
+      setEditingId(null);
+      await refresh();
+      onTemplatesChanged?.();
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to rename the template.' });
+    }
+  };
+
+  const handleDelete = async (template: MappingTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      await refresh();
+      onTemplatesChanged?.();
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to delete the template.' });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const json = await exportTemplatesToJSON();
+      const blob = new Blob([json], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'mapping_templates.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to export templates.' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importTemplatesFromJSON(await file.text());
+      setMessage({ severity: 'success', text: `Imported ${count} template(s) from ${file.name}.` });
+      await refresh();
+      onTemplatesChanged?.();
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to import templates.' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🗂️ Mapping Templates
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          Saved column and metadata mappings, matched automatically by sheet headers
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        {message && (
+          <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+        {templates.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+            No templates saved yet. Save one from the column mapping or metadata import dialog.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} sx={{ maxHeight: 400 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Name</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Type</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Headers</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Updated</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {templates.map(template => (
+                  <TableRow key={template.id}>
+                    <TableCell>
+                      {editingId === template.id ? (
+                        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                          <TextField
+                            size="small"
+                            value={editingName}
+                            onChange={e => setEditingName(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') handleRename(template.id); }}
+                            autoFocus
+                          />
+                          <IconButton size="small" onClick={() => handleRename(template.id)}><CheckIcon fontSize="small" /></IconButton>
+                          <IconButton size="small" onClick={() => setEditingId(null)}><CloseIcon fontSize="small" /></IconButton>
+                        </Box>
+                      ) : template.name}
+                    </TableCell>
+                    <TableCell>
+                      {[template.columnMapping && 'Columns', template.metadataMapping && 'Metadata'].filter(Boolean).join(' + ')}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title={template.columns.join(', ')}>
+                        <span>{template.columns.length} columns</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>{new Date(template.updatedAt).toLocaleDateString()}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Rename">
+                        <IconButton size="small" onClick={() => { setEditingId(template.id); setEditingName(template.name); }}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => handleDelete(template)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={() => fileInputRef.current?.click()} sx={{ mr: 'auto' }}>
+          Import JSON
+        </Button>
+        <Button onClick={handleExport} disabled={templates.length === 0}>
+          Export JSON
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MappingTemplateManager;
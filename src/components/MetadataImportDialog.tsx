@@ -4,26 +4,46 @@ import {
   Button, FormControl, InputLabel, Select, MenuItem, 
   Checkbox, ListItemText, OutlinedInput, Box, Typography,
   Step, Stepper, StepLabel, Paper, Table, TableBody, 
-  TableCell, TableContainer, TableHead, TableRow
+  TableCell, TableContainer, TableHead, TableRow, Alert, TextField
 } from '@mui/material';
+import { findTemplateForColumns, saveTemplate, type MappingTemplate } from '../utils/MappingTemplateStore';
+import type { IdAliases } from '../utils/AnimalIdMatcher';
+import AnimalIdMatchTable from './AnimalIdMatchTable';
+
+export interface MetadataImport {
+  sourceTab: string;
+  animalIdColumn: string;
+  metadataColumns: string[];
+  mappingPreview: any[];
+}
 
 interface MetadataImportDialogProps {
   open: boolean;
   allTabs: { tabName: string; columns: string[]; rows: any[] }[];
-  onConfirm: (metadata: { sourceTab: string; animalIdColumn: string; metadataColumns: string[]; mappingPreview: any[] }) => void;
+  onConfirm: (metadata: MetadataImport) => void;
   onClose: () => void;
+  // Animals in the study data, for showing how metadata IDs join them
+  dataAnimalIds?: string[];
+  idAliases?: IdAliases;
+  onIdAliasesChange?: (aliases: IdAliases) => void;
 }
 
 const MetadataImportDialog: React.FC<MetadataImportDialogProps> = ({ 
   open, 
   allTabs, 
   onConfirm, 
-  onClose 
+  onClose,
+  dataAnimalIds = [],
+  idAliases = {},
+  onIdAliasesChange
 }) => {
   const [activeStep, setActiveStep] = useState(0);
   const [selectedTab, setSelectedTab] = useState('');
   const [animalIdColumn, setAnimalIdColumn] = useState('');
   const [metadataColumns, setMetadataColumns] = useState<string[]>([]);
+  const [matchedTemplate, setMatchedTemplate] = useState<MappingTemplate | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateMessage, setTemplateMessage] = useState('');
 
   const steps = ['Select Source Tab', 'Map Animal ID', 'Choose Metadata Fields', 'Preview & Confirm'];
 
@@ -34,12 +54,55 @@ const MetadataImportDialog: React.FC<MetadataImportDialogProps> = ({
       setSelectedTab('');
       setAnimalIdColumn('');
       setMetadataColumns([]);
+      setMatchedTemplate(null);
+      setTemplateName('');
+      setTemplateMessage('');
     }
   }, [open]);
 
   const selectedTabData = allTabs.find(tab => tab.tabName === selectedTab);
   const availableColumns = selectedTabData?.columns || [];
 
+  // Pre-fill from a saved template when the selected tab's headers match one
+  React.useEffect(() => {
+    if (!selectedTabData) return;
+    let cancelled = false;
+    const columns = selectedTabData.columns;
+    findTemplateForColumns(columns, 'metadata')
+      .then(template => {
+        if (cancelled) return;
+        const mapping = template?.metadataMapping;
+        const fields = mapping ? mapping.metadataColumns.filter(col => columns.includes(col)) : [];
+        if (template && mapping && columns.includes(mapping.animalIdColumn) && fields.length > 0) {
+          setAnimalIdColumn(mapping.animalIdColumn);
+          setMetadataColumns(fields);
+          setMatchedTemplate(template);
+          setTemplateName(template.name);
+        } else {
+          setMatchedTemplate(null);
+        }
+      })
+      .catch(error => console.error('Template lookup failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTabData]);
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name || !selectedTabData) return;
+    try {
+      const saved = await saveTemplate(name, selectedTabData.columns, {
+        metadataMapping: { animalIdColumn, metadataColumns }
+      });
+      setMatchedTemplate(saved);
+      setTemplateMessage(`Template "${saved.name}" saved.`);
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      setTemplateMessage('Could not save template to browser storage.');
+    }
+  };
+
   // Generate preview of metadata mapping
   const generatePreview = () => {
     if (!selectedTabData || !animalIdColumn || metadataColumns.length === 0) return [];
@@ -104,6 +167,20 @@ const MetadataImportDialog: React.FC<MetadataImportDialogProps> = ({
                 ))}
               </Select>
             </FormControl>
+            {matchedTemplate && (
+              <Alert
+                severity="success"
+                sx={{ mt: 3 }}
+                action={
+                  <Button color="inherit" size="small" onClick={() => setActiveStep(steps.length - 1)}>
+                    Apply & Preview
+                  </Button>
+                }
+              >
+                Headers of "{selectedTab}" match saved template <strong>"{matchedTemplate.name}"</strong>.
+                Animal ID and metadata fields have been pre-filled.
+              </Alert>
+            )}
           </Box>
         );
 
@@ -203,6 +280,33 @@ const MetadataImportDialog: React.FC<MetadataImportDialogProps> = ({
             <Typography variant="caption" sx={{ mt: 1, display: 'block', color: '#666' }}>
               Showing first 5 rows. This metadata will be added to all matching animals in your study data.
             </Typography>
+
+            {selectedTabData && onIdAliasesChange && dataAnimalIds.length > 0 && (
+              <AnimalIdMatchTable
+                sourceIds={selectedTabData.rows.map(row => row[animalIdColumn])}
+                targetIds={dataAnimalIds}
+                aliases={idAliases}
+                onAliasesChange={onIdAliasesChange}
+              />
+            )}
+
+            <Box sx={{ mt: 3, display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                size="small"
+                label="Save as template"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                sx={{ flexGrow: 1 }}
+              />
+              <Button variant="outlined" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+                Save Template
+              </Button>
+            </Box>
+            {templateMessage && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+                {templateMessage}
+              </Typography>
+            )}
           </Box>
         );
       }
@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  Box, Typography, Select, MenuItem, Table, TableBody, TableCell, TableHead, TableRow
+} from '@mui/material';
+import {
+  UNITS, compatibleUnits, parameterNames, withUnit,
+  type ParameterUnit, type UnitCode
+} from '../utils/Units';
+
+interface ParameterUnitsEditorProps {
+  parameters: string[];
+  // Unit per parameter column; null means the parameter has no unit
+  value: Record<string, ParameterUnit | null>;
+  onChange: (parameter: string, unit: ParameterUnit | null) => void;
+}
+
+// Unit of each mapped parameter as supplied in the sheet, and the unit it is converted to at import
+const ParameterUnitsEditor: React.FC<ParameterUnitsEditorProps> = ({ parameters, value, onChange }) => {
+  if (parameters.length === 0) return null;
+
+  const units: Record<string, ParameterUnit> = {};
+  parameters.forEach(param => {
+    const unit = value[param];
+    if (unit) units[param] = unit;
+  });
+  const names = parameterNames(parameters, units);
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+        📏 Units
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Parameter</TableCell>
+            <TableCell sx={{ fontWeight: 600 }}>Unit in file</TableCell>
+            <TableCell sx={{ fontWeight: 600 }}>Convert to</TableCell>
+            <TableCell sx={{ fontWeight: 600 }}>Imported as</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {parameters.map(param => {
+            const unit = value[param];
+            return (
+              <TableRow key={param}>
+                <TableCell>{param}</TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    fullWidth
+                    displayEmpty
+                    value={unit?.unit || ''}
+                    onChange={e => {
+                      const code = e.target.value as UnitCode | '';
+                      onChange(param, code ? { unit: code, canonical: code } : null);
+                    }}
+                  >
+                    <MenuItem value=""><em>None</em></MenuItem>
+                    {(Object.keys(UNITS) as UnitCode[]).map(code => (
+                      <MenuItem key={code} value={code}>{UNITS[code].label}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  {unit && (
+                    <Select
+                      size="small"
+                      fullWidth
+                      value={unit.canonical}
+                      onChange={e => onChange(param, { ...unit, canonical: e.target.value as UnitCode })}
+                    >
+                      {compatibleUnits(unit.unit).map(code => (
+                        <MenuItem key={code} value={code}>{UNITS[code].label}</MenuItem>
+                      ))}
+                    </Select>
+                  )}
+                </TableCell>
+                <TableCell>{withUnit(names[param], unit?.canonical)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default ParameterUnitsEditor;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import Plot from 'react-plotly.js';
 import { 
   Box, Typography, FormControl, InputLabel, Select, MenuItem, 
@@ -7,22 +7,46 @@ import {
 import type { ParsedData } from './FileUpload';
 import { colorManager } from '../utils/ColorManager';
 import ColorEditor from './ColorEditor';
+import { withUnit, type UnitCode } from '../utils/Units';
+import { designControlGroup, groupLabel, orderGroups, type StudyDesign } from '../utils/StudyDesign';
+import { eventOverlay, eventsForGroups, type EventDisplay, type StudyEvent } from '../utils/StudyEvents';
+import { AnimalDataManager } from '../utils/AnimalDataManager';
+import {
+  fitAnimalGrowth, growthCurveValue, selectedFit, GROWTH_MODEL_LABELS, type GrowthModelKind
+} from '../utils/GrowthCurves';
+import GrowthCurveSummary from './GrowthCurveSummary';
 
 interface ParameterVisualizationProps {
   data: ParsedData;
   availableParameters: string[];
+  parameterUnits?: Record<string, UnitCode>;
+  // Group order and labels come from the design when it is linked to the group field
+  studyDesign?: StudyDesign | null;
+  // Dosing and other events drawn over the time axis
+  events?: StudyEvent[];
+  eventDisplay?: EventDisplay;
 }
 
+const NO_EVENTS: StudyEvent[] = [];
+
 const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({ 
   data, 
-  availableParameters 
+  availableParameters,
+  parameterUnits = {},
+  studyDesign,
+  events = NO_EVENTS,
+  eventDisplay = 'markers'
 }) => {
   const [selectedParameter, setSelectedParameter] = useState(availableParameters[0] || '');
   const [selectedGroupField, setSelectedGroupField] = useState<string>('');
   const [showIndividualAnimals, setShowIndividualAnimals] = useState(false);
   const [showGroupAverages, setShowGroupAverages] = useState(true);
   const [showIndividualSubplots, setShowIndividualSubplots] = useState(false);
+  const [showFittedCurves, setShowFittedCurves] = useState(false);
+  const [curveModel, setCurveModel] = useState<GrowthModelKind | 'best'>('best');
+  const [referenceGroup, setReferenceGroup] = useState('');
   const [colorUpdateTrigger, setColorUpdateTrigger] = useState(0);
+  const parameterLabel = withUnit(selectedParameter, parameterUnits[selectedParameter]);
 
   // Get available metadata fields (potential grouping variables)
   const availableGroupFields = useMemo(() => {
@@ -41,12 +65,13 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
     return Array.from(metadataFields).sort();
   }, [data, availableParameters]);
 
-  // Auto-select first available group field
+  // Auto-select the design's group field, else the first available one
   React.useEffect(() => {
     if (availableGroupFields.length > 0 && !selectedGroupField) {
-      setSelectedGroupField(availableGroupFields[0]);
+      const designField = studyDesign && availableGroupFields.includes(studyDesign.groupField) ? studyDesign.groupField : '';
+      setSelectedGroupField(designField || availableGroupFields[0]);
     }
-  }, [availableGroupFields, selectedGroupField]);
+  }, [availableGroupFields, selectedGroupField, studyDesign]);
 
   // Get available groups from selected group field
   const availableGroups = useMemo(() => {
@@ -58,8 +83,31 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
         groups.add(groupValue);
       }
     });
-    return Array.from(groups).sort();
-  }, [data, selectedGroupField]);
+    return orderGroups(Array.from(groups), studyDesign, selectedGroupField);
+  }, [data, selectedGroupField, studyDesign]);
+
+  const labelFor = useCallback(
+    (group: string) => groupLabel(group, studyDesign, selectedGroupField),
+    [studyDesign, selectedGroupField]
+  );
+
+  // Rates are compared with the design's control unless another group is picked
+  const controlGroup = availableGroups.includes(referenceGroup)
+    ? referenceGroup
+    : designControlGroup(studyDesign, selectedGroupField) ?? availableGroups[0] ?? '';
+
+  // Per-animal growth curves, fitted to each animal's timeline only while they are shown
+  const growthFits = useMemo(() => {
+    if (!showIndividualSubplots || !showFittedCurves || !selectedParameter || !selectedGroupField) return [];
+    const manager = new AnimalDataManager();
+    manager.consolidateData(data);
+    const groupOf = new Map<string, string>();
+    data.forEach(row => {
+      const group = row[selectedGroupField];
+      if (row.animalId && group && !groupOf.has(String(row.animalId))) groupOf.set(String(row.animalId), String(group));
+    });
+    return fitAnimalGrowth(manager, selectedParameter, animalId => groupOf.get(animalId));
+  }, [data, selectedParameter, selectedGroupField, showIndividualSubplots, showFittedCurves]);
 
   // Process data for visualization
   const chartData = useMemo(() => {
@@ -103,11 +151,11 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
           y: animal.timepoints.map(tp => tp.value),
           type: 'scatter',
           mode: 'lines+markers',
-          name: `${animalId} (${groupName})`,
+          name: `${animalId} (${labelFor(groupName)})`,
           line: { color: color + '80', width: 1 }, // Add transparency
           marker: { size: 4, color: color + '80' },
           showlegend: false,
-          hovertemplate: `Animal: ${animalId}<br>Group: ${groupName}<br>Day: %{x}<br>${selectedParameter}: %{y}<extra></extra>`
+          hovertemplate: `Animal: ${animalId}<br>Group: ${labelFor(groupName)}<br>Day: %{x}<br>${parameterLabel}: %{y}<extra></extra>`
         });
       });
     }
@@ -159,14 +207,15 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
           },
           type: 'scatter',
           mode: 'lines+markers',
-          name: group,
+          name: labelFor(group),
           line: { color, width: 3 },
           marker: { size: 6, color },
-          hovertemplate: `Group: ${group}<br>Day: %{x}<br>Mean ${selectedParameter}: %{y:.2f} ± %{error_y.array:.2f}<extra></extra>`
+          hovertemplate: `Group: ${labelFor(group)}<br>Day: %{x}<br>Mean ${parameterLabel}: %{y:.2f} ± %{error_y.array:.2f}<extra></extra>`
         });
       });
     }
 
+    const overlay = eventOverlay(eventsForGroups(events, availableGroups), eventDisplay);
     const layout = {
       title: { text: `${selectedParameter} Over Time` },
       xaxis: { 
@@ -175,7 +224,7 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
         gridcolor: '#f0f0f0'
       },
       yaxis: { 
-        title: selectedParameter,
+        title: parameterLabel,
         showgrid: true,
         gridcolor: '#f0f0f0'
       },
@@ -188,11 +237,13 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
         bgcolor: 'rgba(255,255,255,0.8)',
         bordercolor: '#ccc',
         borderwidth: 1
-      }
+      },
+      shapes: overlay.shapes,
+      annotations: overlay.annotations
     };
 
     return { traces, layout };
-  }, [selectedParameter, data, showIndividualAnimals, showGroupAverages, availableGroups, selectedGroupField, colorUpdateTrigger]);
+  }, [selectedParameter, parameterLabel, data, showIndividualAnimals, showGroupAverages, availableGroups, selectedGroupField, colorUpdateTrigger, labelFor, events, eventDisplay]);
 
   // Individual subplot data
   const individualSubplotData = useMemo(() => {
@@ -264,13 +315,33 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
           y: timepoints.map(tp => tp.value),
           type: 'scatter',
           mode: 'lines+markers',
-          name: `${groupName}: ${animalId}`,
+          name: `${labelFor(groupName)}: ${animalId}`,
           line: { color: color + '80', width: 2 },
           marker: { size: 4, color },
           yaxis: groupIdx === 0 ? 'y' : `y${groupIdx + 1}`,
           xaxis: groupIdx === 0 ? 'x' : `x${groupIdx + 1}`,
           showlegend: false,
-          hovertemplate: `Group: ${groupName}<br>Animal: ${animalId}<br>Day: %{x}<br>${selectedParameter}: %{y}<extra></extra>`
+          hovertemplate: `Group: ${labelFor(groupName)}<br>Animal: ${animalId}<br>Day: %{x}<br>${parameterLabel}: %{y}<extra></extra>`
+        });
+      });
+
+      // Fitted curve for each animal, drawn across the animal's observed days
+      growthFits.filter(animal => animal.group === groupName).forEach(animal => {
+        const fit = selectedFit(animal, curveModel);
+        if (!fit) return;
+        const span = animal.days[animal.days.length - 1] - animal.origin;
+        const days = Array.from({ length: 50 }, (_, i) => animal.origin + span * i / 49);
+        traces.push({
+          x: days,
+          y: days.map(day => growthCurveValue(fit, day - animal.origin)),
+          type: 'scatter',
+          mode: 'lines',
+          name: `${animal.animalId} (${GROWTH_MODEL_LABELS[fit.model]} fit)`,
+          line: { color, width: 1.5, dash: 'dash' },
+          yaxis: groupIdx === 0 ? 'y' : `y${groupIdx + 1}`,
+          xaxis: groupIdx === 0 ? 'x' : `x${groupIdx + 1}`,
+          showlegend: false,
+          hovertemplate: `Animal: ${animal.animalId}<br>${GROWTH_MODEL_LABELS[fit.model]} fit, R² ${fit.rSquared.toFixed(3)}<br>Day: %{x:.1f}<br>Fitted: %{y:.1f}<extra></extra>`
         });
       });
     });
@@ -283,7 +354,8 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
       paper_bgcolor: 'white',
       hovermode: 'closest',
       height: Math.max(400, numGroups * 280),
-      annotations: []
+      annotations: [],
+      shapes: []
     };
 
     // Set up axes for each subplot
@@ -319,16 +391,29 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
       layout[yAxisKey] = {
         domain: [yBottom, yTop],
         anchor: isFirst ? 'x' : `x${groupIdx + 1}`,
-        title: selectedParameter,
+        title: parameterLabel,
         range: [yMin, yMax],
         showgrid: true,
         gridcolor: '#f0f0f0',
         zeroline: false
       };
 
+      // Events for the group and its animals, within this subplot
+      const groupAnimals = groupData.get(groupName);
+      const overlay = eventOverlay(
+        [
+          ...eventsForGroups(events, [groupName]),
+          ...events.filter(e => e.scope === 'animal' && groupAnimals?.has(e.target))
+        ],
+        eventDisplay,
+        { xref: isFirst ? 'x' : `x${groupIdx + 1}`, yDomain: [yBottom, yTop] }
+      );
+      layout.shapes.push(...overlay.shapes);
+      layout.annotations.push(...overlay.annotations);
+
       // Add group title annotation
       layout.annotations.push({
-        text: `<b>${groupName}</b>`,
+        text: `<b>${labelFor(groupName)}</b>`,
         showarrow: false,
         x: 0.02,
         y: (yBottom + yTop) / 2,
@@ -364,7 +449,7 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
     });
 
     return { traces, layout };
-  }, [selectedParameter, data, showIndividualSubplots, availableGroups, selectedGroupField, colorUpdateTrigger]);
+  }, [selectedParameter, parameterLabel, data, showIndividualSubplots, availableGroups, selectedGroupField, colorUpdateTrigger, labelFor, events, eventDisplay, growthFits, curveModel]);
 
   if (!availableParameters.length) {
     return (
@@ -394,7 +479,7 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
                 onChange={(e) => setSelectedParameter(e.target.value)}
               >
                 {availableParameters.map(param => (
-                  <MenuItem key={param} value={param}>{param}</MenuItem>
+                  <MenuItem key={param} value={param}>{withUnit(param, parameterUnits[param])}</MenuItem>
                 ))}
               </Select>
             </FormControl>
@@ -461,6 +546,55 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
               label="Show Individual Animals by Group (Subplots)"
             />
           </Grid>
+
+          {showIndividualSubplots && (
+            <>
+              <Grid item xs={12} md={2}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={showFittedCurves}
+                      onChange={(e) => setShowFittedCurves(e.target.checked)}
+                    />
+                  }
+                  label="Fit Growth Curves"
+                />
+              </Grid>
+              {showFittedCurves && (
+                <>
+                  <Grid item xs={12} md={2}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Curve Model</InputLabel>
+                      <Select
+                        value={curveModel}
+                        label="Curve Model"
+                        onChange={(e) => setCurveModel(e.target.value as GrowthModelKind | 'best')}
+                      >
+                        <MenuItem value="best">Best by AIC</MenuItem>
+                        {(Object.keys(GROWTH_MODEL_LABELS) as GrowthModelKind[]).map(model => (
+                          <MenuItem key={model} value={model}>{GROWTH_MODEL_LABELS[model]}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={12} md={2}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Reference Group</InputLabel>
+                      <Select
+                        value={controlGroup}
+                        label="Reference Group"
+                        onChange={(e) => setReferenceGroup(e.target.value)}
+                      >
+                        {availableGroups.map(group => (
+                          <MenuItem key={group} value={group}>{labelFor(group)}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                </>
+              )}
+            </>
+          )}
         </Grid>
 
         {/* Available Groups Display */}
@@ -479,7 +613,7 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
               {availableGroups.map(group => (
                 <Chip 
                   key={group} 
-                  label={group} 
+                  label={labelFor(group)} 
                   size="small" 
                   sx={{ 
                     bgcolor: colorManager.getColor(group) + '20', 
@@ -531,6 +665,17 @@ const ParameterVisualization: React.FC<ParameterVisualizationProps> = ({
           />
         )}
       </Box>
+
+      {showIndividualSubplots && showFittedCurves && (
+        <GrowthCurveSummary
+          fits={growthFits}
+          groups={availableGroups}
+          controlGroup={controlGroup}
+          model={curveModel}
+          parameterLabel={parameterLabel}
+          labelFor={labelFor}
+        />
+      )}
     </Paper>
   );
 };
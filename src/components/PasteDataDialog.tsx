@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField,
+  FormControlLabel, Checkbox, Table, TableBody, TableCell, TableRow
+} from '@mui/material';
+import { parseClipboardTable, looksLikeHeaderRow, pastedSheet } from '../utils/ClipboardParsing';
+import type { ParsedSheet } from '../utils/HeaderDetection';
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onConfirm: (sheet: ParsedSheet) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Paste a block of cells copied from Excel or a chat; it is imported like a one-tab workbook
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ open, onConfirm, onClose }) => {
+  const [text, setText] = useState('');
+  // null until the user ticks or unticks the box; until then the first row decides
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setText('');
+      setHeaderOverride(null);
+    }
+  }, [open]);
+
+  const rows = useMemo(() => parseClipboardTable(text), [text]);
+  const hasHeaderRow = headerOverride ?? looksLikeHeaderRow(rows[0]);
+  const width = rows[0]?.length || 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          📋 Paste Data
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          Copy cells from Excel or a message and paste them below
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        <TextField
+          autoFocus
+          multiline
+          fullWidth
+          minRows={8}
+          maxRows={14}
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={'Animal ID\tDay\tVolume\nM01\t0\t102.5\n...'}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.85rem' } }}
+        />
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Checkbox checked={hasHeaderRow} onChange={e => setHeaderOverride(e.target.checked)} />}
+          label="First row contains column headers"
+        />
+        {rows.length > 0 && (
+          <Box sx={{ mt: 1 }}>
+            <Typography variant="body2" sx={{ color: '#8A0051', fontWeight: 500, mb: 1 }}>
+              {hasHeaderRow ? rows.length - 1 : rows.length} data row(s) × {width} column(s)
+            </Typography>
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableBody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                    <TableRow key={idx} sx={{ bgcolor: hasHeaderRow && idx === 0 ? '#e3f2fd' : undefined }}>
+                      {row.map((cell, i) => (
+                        <TableCell key={i} sx={{ fontWeight: hasHeaderRow && idx === 0 ? 600 : undefined }}>
+                          {String(cell)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+            {rows.length > PREVIEW_ROWS && (
+              <Typography variant="caption" sx={{ color: '#666' }}>
+                … and {rows.length - PREVIEW_ROWS} more row(s)
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} sx={{ mr: 1 }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onConfirm(pastedSheet(rows, hasHeaderRow))}
+          variant="contained"
+          disabled={rows.length === 0 || (hasHeaderRow && rows.length < 2)}
+          sx={{ px: 3 }}
+        >
+          Next: Confirm Header Rows →
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PasteDataDialog;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+
+interface ProvenanceNoteProps {
+  lines: string[];
+}
+
+// Import provenance (day-0 rule, derived parameters) shown above a data or analysis section
+const ProvenanceNote: React.FC<ProvenanceNoteProps> = ({ lines }) => {
+  if (lines.length === 0) return null;
+  return (
+    <Box sx={{ mt: 2, p: 1.5, bgcolor: '#FDF9FC', borderRadius: 1, border: '1px solid #EFCCDB' }}>
+      {lines.map(line => (
+        <Typography key={line} variant="body2" sx={{ color: '#5C0037' }}>
+          📝 {line}
+        </Typography>
+      ))}
+    </Box>
+  );
+};
+
+export default ProvenanceNote;
@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Grid, TextField, Alert, Chip,
+  FormControl, InputLabel, Select, MenuItem, IconButton, Tooltip,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import type { ParsedData } from './FileUpload';
+import { unitLabel, withUnit, type UnitCode } from '../utils/Units';
+import type { StudyDesign } from '../utils/StudyDesign';
+import {
+  RANDOMISATION_METHOD_LABELS, describeRandomisation, newSeed, randomiseAnimals,
+  type Allocation, type RandomisationGroup, type RandomisationMethod, type RandomisationSettings
+} from '../utils/Randomisation';
+
+interface RandomisationDialogProps {
+  open: boolean;
+  data: ParsedData;
+  parameters: string[];
+  parameterUnits: Record<string, UnitCode>;
+  studyDesign?: StudyDesign | null;
+  onApply: (allocations: Allocation[], groupField: string, description: string) => void;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number, digits = 1) => (Number.isFinite(value) ? value.toFixed(digits) : '—');
+
+const optionalNumber = (text: string) => (text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text));
+
+// Days with a value of the parameter, earliest first
+const measuredDays = (data: ParsedData, parameter: string) =>
+  Array.from(new Set(data.filter(row => typeof row[parameter] === 'number').map(row => Number(row.studyDay))))
+    .sort((a, b) => a - b);
+
+function initialSettings(data: ParsedData, parameters: string[], design?: StudyDesign | null): RandomisationSettings {
+  const parameter = parameters.find(p => /vol/i.test(p)) || parameters[0] || '';
+  const animals = new Set(data.map(row => String(row.animalId))).size;
+  const designGroups: RandomisationGroup[] = (design?.groups || []).map(g => ({
+    name: g.dataValue || g.label || g.code,
+    n: g.plannedN ?? 0
+  }));
+  const groups = designGroups.length > 0
+    ? designGroups
+    : [1, 2, 3].map(i => ({ name: `Group ${i}`, n: Math.floor(animals / 3) }));
+  return {
+    parameter,
+    baselineDay: measuredDays(data, parameter)[0] ?? 0,
+    groups,
+    method: 's_shaped',
+    seed: newSeed()
+  };
+}
+
+// Allocate animals to groups from their baseline measurement and preview the balance before applying
+const RandomisationDialog: React.FC<RandomisationDialogProps> = ({
+  open, data, parameters, parameterUnits, studyDesign, onApply, onClose
+}) => {
+  const [settings, setSettings] = useState<RandomisationSettings>(() => initialSettings(data, parameters, studyDesign));
+  const [groupField, setGroupField] = useState('group');
+  const [windowText, setWindowText] = useState({ min: '', max: '' });
+
+  React.useEffect(() => {
+    if (!open) return;
+    setSettings(initialSettings(data, parameters, studyDesign));
+    setGroupField(studyDesign?.groupField || 'group');
+    setWindowText({ min: '', max: '' });
+  }, [open, data, parameters, studyDesign]);
+
+  const days = useMemo(() => measuredDays(data, settings.parameter), [data, settings.parameter]);
+  const result = useMemo(() => randomiseAnimals(data, settings), [data, settings]);
+  const unit = unitLabel(parameterUnits[settings.parameter]);
+
+  const update = (changes: Partial<RandomisationSettings>) => setSettings(previous => ({ ...previous, ...changes }));
+  const updateGroup = (index: number, changes: Partial<RandomisationGroup>) =>
+    update({ groups: settings.groups.map((g, i) => (i === index ? { ...g, ...changes } : g)) });
+
+  const names = settings.groups.map(g => g.name.trim());
+  const problems = [
+    ...(names.some(name => !name) ? ['Every group needs a name'] : []),
+    ...(new Set(names).size !== names.length ? ['Group names must be unique'] : []),
+    ...(!groupField.trim() ? ['Enter the group field to write the allocation to'] : []),
+    ...(result.allocations.length === 0 ? ['No animals could be allocated'] : [])
+  ];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🎲 Randomise Animals
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          Balanced group allocation by baseline measurement, reproducible from the seed
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Baseline parameter</InputLabel>
+              <Select
+                value={settings.parameter}
+                label="Baseline parameter"
+                onChange={e => update({ parameter: e.target.value, baselineDay: measuredDays(data, e.target.value)[0] ?? 0 })}
+              >
+                {parameters.map(p => (
+                  <MenuItem key={p} value={p}>{withUnit(p, parameterUnits[p])}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Baseline day</InputLabel>
+              <Select value={settings.baselineDay} label="Baseline day" onChange={e => update({ baselineDay: Number(e.target.value) })}>
+                {days.map(day => (
+                  <MenuItem key={day} value={day}>Day {day}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth size="small" type="number" label={`Min${unit ? ` (${unit})` : ''}`} value={windowText.min}
+              onChange={e => { setWindowText({ ...windowText, min: e.target.value }); update({ minValue: optionalNumber(e.target.value) }); }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth size="small" type="number" label={`Max${unit ? ` (${unit})` : ''}`} value={windowText.max}
+              onChange={e => { setWindowText({ ...windowText, max: e.target.value }); update({ maxValue: optionalNumber(e.target.value) }); }}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField fullWidth size="small" label="Write to group field" value={groupField} onChange={e => setGroupField(e.target.value)} />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Method</InputLabel>
+              <Select value={settings.method} label="Method" onChange={e => update({ method: e.target.value as RandomisationMethod })}>
+                {Object.entries(RANDOMISATION_METHOD_LABELS).map(([method, label]) => (
+                  <MenuItem key={method} value={method}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={8} md={3}>
+            <TextField
+              fullWidth size="small" type="number" label="Seed" value={settings.seed}
+              onChange={e => update({ seed: Math.abs(Math.trunc(Number(e.target.value))) || 0 })}
+            />
+          </Grid>
+          <Grid item xs={4} md={2}>
+            <Button fullWidth onClick={() => update({ seed: newSeed() })}>New seed</Button>
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051', flexGrow: 1 }}>Groups</Typography>
+          <Button size="small" onClick={() => update({ groups: [...settings.groups, { name: `Group ${settings.groups.length + 1}`, n: 0 }] })}>
+            Add group
+          </Button>
+        </Box>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, mb: 2 }}>
+          {settings.groups.map((group, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, p: 1, bgcolor: '#FDF9FC', border: '1px solid #EFCCDB', borderRadius: 1 }}>
+              <TextField size="small" label="Name" value={group.name} sx={{ width: 150 }} onChange={e => updateGroup(index, { name: e.target.value })} />
+              <TextField
+                size="small" type="number" label="n" value={group.n} sx={{ width: 70 }}
+                onChange={e => updateGroup(index, { n: Math.max(0, Math.trunc(Number(e.target.value)) || 0) })}
+              />
+              <Tooltip title="Remove">
+                <IconButton size="small" onClick={() => update({ groups: settings.groups.filter((_, i) => i !== index) })}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+        </Box>
+
+        {result.shortfall > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {result.shortfall} planned place(s) could not be filled from the eligible animals.
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051' }}>Baseline balance</Typography>
+          {Number.isFinite(result.anova.pValue) && (
+            <Chip
+              size="small"
+              color={result.anova.pValue < 0.05 ? 'error' : 'success'}
+              label={`ANOVA F(${result.anova.dfBetween}, ${result.anova.dfWithin}) = ${result.anova.fStatistic.toFixed(3)}, p = ${result.anova.pValue.toFixed(3)}`}
+            />
+          )}
+        </Box>
+        <TableContainer component={Paper} sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Group</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">n</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Mean</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">SD</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Median</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Animals</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {result.balance.map(row => (
+                <TableRow key={row.group}>
+                  <TableCell>{row.group}</TableCell>
+                  <TableCell align="right">{row.n}</TableCell>
+                  <TableCell align="right">{formatNumber(row.mean)}</TableCell>
+                  <TableCell align="right">{formatNumber(row.sd)}</TableCell>
+                  <TableCell align="right">{formatNumber(row.median)}</TableCell>
+                  <TableCell sx={{ fontSize: '0.8rem' }}>
+                    {result.allocations.filter(a => a.group === row.group).map(a => a.animalId).join(', ')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {result.excluded.length > 0 && (
+          <Typography variant="body2" sx={{ color: '#666', mb: 1 }}>
+            Not allocated: {result.excluded.map(e =>
+              `${e.animalId}${e.baseline !== undefined ? ` (${formatNumber(e.baseline)})` : ''}: ${e.reason}`
+            ).join('; ')}
+          </Typography>
+        )}
+        {problems.length > 0 && (
+          <Alert severity="warning">
+            {problems.map(problem => <div key={problem}>{problem}</div>)}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={problems.length > 0}
+          onClick={() => onApply(result.allocations, groupField.trim(), describeRandomisation(settings, result, unit))}
+          sx={{ px: 3 }}
+        >
+          Apply Allocation
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RandomisationDialog;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Chip, Checkbox,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { DIFF_KIND_LABELS, type DiffEntry, type DiffKind } from '../utils/DatasetDiff';
+
+interface ReimportDiffDialogProps {
+  open: boolean;
+  fileName: string;
+  entries: DiffEntry[];
+  onAccept: (accepted: DiffEntry[]) => void;
+  onClose: () => void;
+}
+
+// Same cap as the validation report; "select all shown" still covers the filtered list
+const MAX_VISIBLE_ENTRIES = 200;
+
+const KIND_COLORS: Record<DiffKind, 'success' | 'error' | 'warning'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning'
+};
+
+const formatValue = (value: unknown) => (value === undefined ? '—' : String(value));
+
+// Differences between the current dataset and a corrected source file, accepted all at once or one by one
+const ReimportDiffDialog: React.FC<ReimportDiffDialogProps> = ({ open, fileName, entries, onAccept, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [kindFilter, setKindFilter] = useState<DiffKind | null>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setSelected(new Set());
+      setKindFilter(null);
+    }
+  }, [open, entries]);
+
+  const kindCounts = useMemo(() => {
+    const counts = new Map<DiffKind, number>();
+    entries.forEach(entry => counts.set(entry.kind, (counts.get(entry.kind) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [entries]);
+
+  const filtered = kindFilter ? entries.filter(entry => entry.kind === kindFilter) : entries;
+  const allShownSelected = filtered.length > 0 && filtered.every(entry => selected.has(entry.id));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleShown = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      filtered.forEach(entry => (allShownSelected ? next.delete(entry.id) : next.add(entry.id)));
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🔁 Review Re-imported File
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          {fileName}: {entries.length} value(s) differ from the current study
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        {entries.length === 0 ? (
+          <Typography sx={{ py: 2, textAlign: 'center' }}>
+            No differences: the re-imported file matches the current study.
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              <Chip
+                label={`All (${entries.length})`}
+                color={kindFilter === null ? 'primary' : 'default'}
+                onClick={() => setKindFilter(null)}
+              />
+              {kindCounts.map(([kind, count]) => (
+                <Chip
+                  key={kind}
+                  label={`${DIFF_KIND_LABELS[kind]} (${count})`}
+                  color={kindFilter === kind ? 'primary' : 'default'}
+                  onClick={() => setKindFilter(kind)}
+                />
+              ))}
+            </Box>
+            <Typography variant="caption" sx={{ display: 'block', mb: 1, color: '#666' }}>
+              Removed values are values of the re-imported parameters that the file no longer contains, for the animals and days it covers.
+            </Typography>
+            <TableContainer component={Paper} sx={{ maxHeight: 380 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={allShownSelected}
+                        indeterminate={!allShownSelected && filtered.some(entry => selected.has(entry.id))}
+                        onChange={toggleShown}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Change</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Animal</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Day</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Parameter</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Current</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Re-imported</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filtered.slice(0, MAX_VISIBLE_ENTRIES).map(entry => (
+                    <TableRow key={entry.id} hover onClick={() => toggle(entry.id)} sx={{ cursor: 'pointer' }}>
+                      <TableCell padding="checkbox">
+                        <Checkbox checked={selected.has(entry.id)} />
+                      </TableCell>
+                      <TableCell>
+                        <Chip size="small" color={KIND_COLORS[entry.kind]} label={DIFF_KIND_LABELS[entry.kind]} />
+                      </TableCell>
+                      <TableCell>{entry.animalId}</TableCell>
+                      <TableCell>{entry.studyDay}</TableCell>
+                      <TableCell>{entry.parameter}</TableCell>
+                      <TableCell align="right">{formatValue(entry.before)}</TableCell>
+                      <TableCell align="right">{formatValue(entry.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {filtered.length > MAX_VISIBLE_ENTRIES && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+                Showing the first {MAX_VISIBLE_ENTRIES} of {filtered.length}. Selecting all shown selects all of them.
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} sx={{ mr: 1 }}>
+          Discard Changes
+        </Button>
+        {entries.length > 0 && (
+          <>
+            <Button
+              onClick={() => onAccept(entries.filter(entry => selected.has(entry.id)))}
+              variant="outlined"
+              disabled={selected.size === 0}
+            >
+              Accept Selected ({selected.size})
+            </Button>
+            <Button onClick={() => onAccept(entries)} variant="contained" sx={{ px: 3 }}>
+              Accept All
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReimportDiffDialog;
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Grid, TextField, Alert,
+  FormControl, InputLabel, Select, MenuItem, ToggleButton, ToggleButtonGroup
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import type { UnitCode } from '../utils/Units';
+import { writeSasTransport } from '../utils/SasTransport';
+import { downloadFile } from '../utils/Download';
+import { groupValues, metadataFields, type StudyDesign } from '../utils/StudyDesign';
+import {
+  buildSendDatasets, datasetToCsv, defaultArmCodes, defaultSendSettings, defineMetadata, defineToCsv,
+  validateSendSettings,
+  type SendExportSettings, type SendSex
+} from '../utils/SendExport';
+
+interface SendExportDialogProps {
+  open: boolean;
+  data: ParsedData;
+  parameters: string[];
+  parameterUnits: Record<string, UnitCode>;
+  studyDesign?: StudyDesign | null;
+  onClose: () => void;
+}
+
+type SendFormat = 'xpt' | 'csv';
+
+// Codes and terminology for the SEND export, then one file per domain plus the define metadata
+const SendExportDialog: React.FC<SendExportDialogProps> = ({ open, data, parameters, parameterUnits, studyDesign, onClose }) => {
+  const [settings, setSettings] = useState<SendExportSettings>(() => defaultSendSettings(data, parameters, studyDesign));
+  const [format, setFormat] = useState<SendFormat>('xpt');
+
+  React.useEffect(() => {
+    if (open) {
+      setSettings(previous => {
+        const defaults = defaultSendSettings(data, parameters, studyDesign);
+        return { ...defaults, studyId: defaults.studyId || previous.studyId };
+      });
+    }
+  }, [open, data, parameters, studyDesign]);
+
+  const fields = useMemo(() => metadataFields(data), [data]);
+  const groups = useMemo(() => groupValues(data, settings.groupField), [data, settings.groupField]);
+  const problems = validateSendSettings(settings);
+
+  const update = (changes: Partial<SendExportSettings>) => setSettings(previous => ({ ...previous, ...changes }));
+
+  const handleExport = () => {
+    const datasets = buildSendDatasets(data, settings, parameterUnits);
+    datasets.forEach(dataset => {
+      const name = dataset.name.toLowerCase();
+      if (format === 'xpt') downloadFile(`${name}.xpt`, writeSasTransport([dataset]), 'application/octet-stream');
+      else downloadFile(`${name}.csv`, datasetToCsv(dataset), 'text/csv');
+    });
+    const define = defineMetadata(datasets);
+    downloadFile('define.json', JSON.stringify({ studyId: settings.studyId, variables: define }, null, 2), 'application/json');
+    downloadFile('define.csv', defineToCsv(define), 'text/csv');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🗂️ Export SEND Datasets
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          DM, BW and tumour measurements from the analysed dataset
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        <Typography sx={{ fontWeight: 600, color: '#8A0051', mb: 1 }}>Study</Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth size="small" label="Study ID (STUDYID)" value={settings.studyId}
+              onChange={e => update({ studyId: e.target.value.trim() })}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth size="small" label="Species (SPECIES)" value={settings.species}
+              onChange={e => update({ species: e.target.value.toUpperCase() })}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth size="small" label="Strain (STRAIN)" value={settings.strain}
+              onChange={e => update({ strain: e.target.value.toUpperCase() })}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Sex when not recorded</InputLabel>
+              <Select
+                value={settings.defaultSex}
+                label="Sex when not recorded"
+                onChange={e => update({ defaultSex: e.target.value as SendSex })}
+              >
+                <MenuItem value="M">M</MenuItem>
+                <MenuItem value="F">F</MenuItem>
+                <MenuItem value="U">U</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Group Field (ARM)</InputLabel>
+              <Select
+                value={settings.groupField}
+                label="Group Field (ARM)"
+                onChange={e => update({
+                  groupField: e.target.value,
+                  armCodes: defaultArmCodes(groupValues(data, e.target.value))
+                })}
+              >
+                {fields.map(field => (
+                  <MenuItem key={field} value={field}>{field}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        {groups.length > 0 && (
+          <>
+            <Typography sx={{ fontWeight: 600, color: '#8A0051', mb: 1 }}>Arm codes (ARMCD, SETCD)</Typography>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              {groups.map(group => (
+                <Grid item xs={12} sm={6} md={3} key={group}>
+                  <TextField
+                    fullWidth size="small" label={group} value={settings.armCodes[group] || ''}
+                    onChange={e => update({ armCodes: { ...settings.armCodes, [group]: e.target.value.toUpperCase() } })}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          </>
+        )}
+
+        <Typography sx={{ fontWeight: 600, color: '#8A0051', mb: 1 }}>Findings</Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Body weight parameter (BW)</InputLabel>
+              <Select
+                value={settings.bodyWeightParameter}
+                label="Body weight parameter (BW)"
+                onChange={e => update({ bodyWeightParameter: e.target.value })}
+              >
+                <MenuItem value="">Not exported</MenuItem>
+                {parameters.map(parameter => (
+                  <MenuItem key={parameter} value={parameter}>{parameter}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Tumour parameter</InputLabel>
+              <Select
+                value={settings.tumorParameter}
+                label="Tumour parameter"
+                onChange={e => update({ tumorParameter: e.target.value })}
+              >
+                <MenuItem value="">Not exported</MenuItem>
+                {parameters.map(parameter => (
+                  <MenuItem key={parameter} value={parameter}>{parameter}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              fullWidth size="small" label="Tumour domain" value={settings.tumorDomain}
+              onChange={e => update({ tumorDomain: e.target.value.toUpperCase() })}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              fullWidth size="small" label="Test code (--TESTCD)" value={settings.tumorTestCode}
+              onChange={e => update({ tumorTestCode: e.target.value.toUpperCase() })}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth size="small" label="Test name (--TEST)" value={settings.tumorTest}
+              onChange={e => update({ tumorTest: e.target.value })}
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051' }}>Format</Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={format}
+            onChange={(_, value: SendFormat | null) => value && setFormat(value)}
+          >
+            <ToggleButton value="xpt">SAS XPORT v5</ToggleButton>
+            <ToggleButton value="csv">CSV</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {problems.length > 0 && (
+          <Alert severity="warning">
+            {problems.map(problem => <div key={problem}>{problem}</div>)}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleExport} variant="contained" disabled={problems.length > 0} sx={{ px: 3 }}>
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SendExportDialog;
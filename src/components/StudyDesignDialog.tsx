@@ -0,0 +1,321 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Grid, TextField, Alert, Chip,
+  FormControl, InputLabel, Select, MenuItem, Radio, IconButton, Tooltip,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Delete as DeleteIcon, ArrowUpward as ArrowUpIcon, ArrowDownward as ArrowDownIcon } from '@mui/icons-material';
+import type { ParsedData } from './FileUpload';
+import { downloadFile } from '../utils/Download';
+import {
+  designFormatFor, designFromData, emptyDesignGroup, emptyStudyDesign, groupValues, metadataFields,
+  parseStudyDesign, serializeStudyDesign, unlinkedGroups, validateStudyDesign,
+  type DesignGroup, type StudyDesign, type StudyDesignFormat
+} from '../utils/StudyDesign';
+
+interface StudyDesignDialogProps {
+  open: boolean;
+  design: StudyDesign | null;
+  data: ParsedData | null;
+  onSave: (design: StudyDesign | null) => void;
+  onClose: () => void;
+}
+
+const cellInput = { '& .MuiInputBase-input': { py: 0.75, px: 1, fontSize: '0.85rem' } };
+
+// Edit the study design form, or import/export it as JSON or YAML
+const StudyDesignDialog: React.FC<StudyDesignDialogProps> = ({ open, design, data, onSave, onClose }) => {
+  const [draft, setDraft] = useState<StudyDesign>(emptyStudyDesign());
+  const [newArticle, setNewArticle] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setMessage(null);
+    setNewArticle('');
+    if (design) setDraft(design);
+    else if (data) {
+      const fields = metadataFields(data);
+      setDraft(designFromData(data, fields.includes('group') ? 'group' : fields[0] || 'group'));
+    } else setDraft(emptyStudyDesign());
+  }, [open, design, data]);
+
+  const fields = useMemo(() => (data ? metadataFields(data) : []), [data]);
+  const values = useMemo(() => (data ? groupValues(data, draft.groupField) : []), [data, draft.groupField]);
+  const animalCounts = useMemo(() => {
+    const animals = new Map<string, Set<string>>();
+    (data || []).forEach(row => {
+      const value = String(row[draft.groupField] ?? '');
+      animals.set(value, (animals.get(value) || new Set()).add(String(row.animalId)));
+    });
+    return animals;
+  }, [data, draft.groupField]);
+  const problems = validateStudyDesign(draft);
+  const unlinked = data ? unlinkedGroups(draft, data) : null;
+
+  const update = (changes: Partial<StudyDesign>) => setDraft(previous => ({ ...previous, ...changes }));
+
+  const updateGroup = (index: number, changes: Partial<DesignGroup>) => {
+    setDraft(previous => ({
+      ...previous,
+      groups: previous.groups.map((g, i) => {
+        if (i === index) return { ...g, ...changes };
+        // Only one control
+        return changes.isControl ? { ...g, isControl: false } : g;
+      })
+    }));
+  };
+
+  const moveGroup = (index: number, offset: number) => {
+    setDraft(previous => {
+      const groups = [...previous.groups];
+      const [group] = groups.splice(index, 1);
+      groups.splice(index + offset, 0, group);
+      return { ...previous, groups };
+    });
+  };
+
+  const addArticle = () => {
+    const name = newArticle.trim();
+    if (name && !draft.testArticles.some(a => a.name === name)) {
+      update({ testArticles: [...draft.testArticles, { name }] });
+    }
+    setNewArticle('');
+  };
+
+  const handleExport = (format: StudyDesignFormat) => {
+    const name = draft.studyId || 'study';
+    downloadFile(
+      `${name}_design.${format === 'json' ? 'json' : 'yaml'}`,
+      serializeStudyDesign(draft, format),
+      format === 'json' ? 'application/json' : 'application/yaml'
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseStudyDesign(await file.text(), designFormatFor(file.name));
+      setDraft(imported);
+      setMessage({ severity: 'success', text: `Loaded ${imported.groups.length} group(s) from ${file.name}.` });
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to read the design file.' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          🧪 Study Design
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          Test articles and treatment groups, linked to the group values in the data
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        {message && (
+          <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} md={3}>
+            <TextField fullWidth size="small" label="Study ID" value={draft.studyId} onChange={e => update({ studyId: e.target.value })} />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField fullWidth size="small" label="Title" value={draft.title} onChange={e => update({ title: e.target.value })} />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Linked Group Field</InputLabel>
+              <Select
+                value={fields.includes(draft.groupField) ? draft.groupField : ''}
+                label="Linked Group Field"
+                onChange={e => update({ groupField: e.target.value })}
+              >
+                {fields.map(field => (
+                  <MenuItem key={field} value={field}>{field}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        <Typography sx={{ fontWeight: 600, color: '#8A0051', mb: 1 }}>Test articles</Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+          {draft.testArticles.map(article => (
+            <Chip
+              key={article.name}
+              label={article.name}
+              onDelete={() => update({ testArticles: draft.testArticles.filter(a => a !== article) })}
+            />
+          ))}
+          <TextField
+            size="small"
+            placeholder="Add test article"
+            value={newArticle}
+            onChange={e => setNewArticle(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') addArticle(); }}
+          />
+          <Button size="small" onClick={addArticle} disabled={!newArticle.trim()}>Add</Button>
+        </Box>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051', flexGrow: 1 }}>Groups</Typography>
+          {data && (
+            <Button size="small" onClick={() => setDraft(designFromData(data, draft.groupField, draft))}>
+              Add groups from data
+            </Button>
+          )}
+          <Button size="small" onClick={() => update({ groups: [...draft.groups, emptyDesignGroup(draft.groups.length)] })}>
+            Add group
+          </Button>
+        </Box>
+        <TableContainer component={Paper} sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Control</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Code</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Label</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Data value</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Test article</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Dose</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Unit</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Route</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Regimen</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Planned n</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Actual n</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {draft.groups.map((group, index) => {
+                const actual = animalCounts.get(group.dataValue)?.size || 0;
+                return (
+                  <TableRow key={index}>
+                    <TableCell padding="checkbox">
+                      <Radio size="small" checked={group.isControl} onClick={() => updateGroup(index, { isControl: !group.isControl })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 70 }} value={group.code} onChange={e => updateGroup(index, { code: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 140 }} value={group.label} placeholder={group.dataValue} onChange={e => updateGroup(index, { label: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        sx={{ ...cellInput, width: 140 }}
+                        value={values.includes(group.dataValue) ? group.dataValue : ''}
+                        displayEmpty
+                        onChange={e => updateGroup(index, { dataValue: e.target.value })}
+                      >
+                        <MenuItem value=""><em>{group.dataValue || 'Not linked'}</em></MenuItem>
+                        {values.map(value => (
+                          <MenuItem key={value} value={value}>{value}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        sx={{ ...cellInput, width: 130 }}
+                        value={group.testArticle}
+                        displayEmpty
+                        onChange={e => updateGroup(index, { testArticle: e.target.value })}
+                      >
+                        <MenuItem value=""><em>None</em></MenuItem>
+                        {draft.testArticles.map(article => (
+                          <MenuItem key={article.name} value={article.name}>{article.name}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small" type="number" sx={{ ...cellInput, width: 80 }} value={group.dose ?? ''}
+                        onChange={e => updateGroup(index, { dose: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 70 }} value={group.doseUnit} onChange={e => updateGroup(index, { doseUnit: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 70 }} value={group.route} onChange={e => updateGroup(index, { route: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 100 }} value={group.regimen} onChange={e => updateGroup(index, { regimen: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small" type="number" sx={{ ...cellInput, width: 70 }} value={group.plannedN ?? ''}
+                        onChange={e => updateGroup(index, { plannedN: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ color: group.plannedN !== undefined && actual !== group.plannedN ? '#B26A00' : undefined }}>
+                      {data ? actual : '—'}
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" disabled={index === 0} onClick={() => moveGroup(index, -1)}>
+                        <ArrowUpIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" disabled={index === draft.groups.length - 1} onClick={() => moveGroup(index, 1)}>
+                        <ArrowDownIcon fontSize="small" />
+                      </IconButton>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => update({ groups: draft.groups.filter((_, i) => i !== index) })}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {problems.length > 0 && (
+          <Alert severity="error" sx={{ mb: 1 }}>
+            {problems.map(problem => <div key={problem}>{problem}</div>)}
+          </Alert>
+        )}
+        {unlinked && unlinked.unmatchedValues.length > 0 && (
+          <Alert severity="info" sx={{ mb: 1 }}>
+            Values of "{draft.groupField}" with no design group: {unlinked.unmatchedValues.join(', ')}
+          </Alert>
+        )}
+        {unlinked && unlinked.missingGroups.length > 0 && (
+          <Alert severity="info" sx={{ mb: 1 }}>
+            Groups not linked to any data: {unlinked.missingGroups.join(', ')}
+          </Alert>
+        )}
+        <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" hidden onChange={handleImport} />
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={() => fileInputRef.current?.click()}>Import JSON/YAML</Button>
+        <Button onClick={() => handleExport('json')}>Export JSON</Button>
+        <Button onClick={() => handleExport('yaml')} sx={{ mr: 'auto' }}>Export YAML</Button>
+        {design && (
+          <Button color="error" onClick={() => onSave(null)}>Remove Design</Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => onSave(draft)} variant="contained" disabled={problems.length > 0} sx={{ px: 3 }}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StudyDesignDialog;
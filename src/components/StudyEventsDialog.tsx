@@ -0,0 +1,293 @@
+import React, { useMemo, useRef, useState } from 'react';
+import Papa from 'papaparse';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField, Alert,
+  FormControl, InputLabel, Select, MenuItem, IconButton, Tooltip, ToggleButton, ToggleButtonGroup,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import type { ParsedData } from './FileUpload';
+import { importWorker, ImportCancelledError } from '../utils/ImportWorkerClient';
+import {
+  EVENT_DISPLAY_LABELS, EVENT_KIND_LABELS, eventsFromDosingFields, eventsFromRows, guessEventColumns,
+  type EventDisplay, type StudyEvent, type StudyEventKind, type StudyEventScope
+} from '../utils/StudyEvents';
+
+interface StudyEventsDialogProps {
+  open: boolean;
+  events: StudyEvent[];
+  display: EventDisplay;
+  data: ParsedData | null;
+  // Tabs of the last imported workbook, any of which may hold the dosing schedule
+  tabs: { tabName: string; columns: string[]; rows: ParsedData }[];
+  groupField: string;
+  onSave: (events: StudyEvent[], display: EventDisplay) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<StudyEventScope, string> = {
+  study: 'Whole study',
+  group: 'Group',
+  animal: 'Animal'
+};
+
+const cellInput = { '& .MuiInputBase-input': { py: 0.75, px: 1, fontSize: '0.85rem' } };
+
+const newEvent = (): StudyEvent => ({
+  kind: 'dose', scope: 'study', target: '', day: 0, compound: '', doseUnit: 'mg/kg', route: '', description: ''
+});
+
+// Dosing schedule and other study events, entered by hand or read from a sheet
+const StudyEventsDialog: React.FC<StudyEventsDialogProps> = ({ open, events, display, data, tabs, groupField, onSave, onClose }) => {
+  const [draft, setDraft] = useState<StudyEvent[]>([]);
+  const [draftDisplay, setDraftDisplay] = useState<EventDisplay>('markers');
+  const [sourceTab, setSourceTab] = useState('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setDraft(events);
+    setDraftDisplay(display);
+    setMessage(null);
+  }, [open, events, display]);
+
+  const groups = useMemo(
+    () => Array.from(new Set((data || []).map(row => row[groupField]).filter(v => v !== undefined && v !== null && v !== '').map(String))).sort(),
+    [data, groupField]
+  );
+  const animals = useMemo(() => Array.from(new Set((data || []).map(row => String(row.animalId)))).sort(), [data]);
+  const hasDosingFields = useMemo(() => (data || []).some(row => row.dosingDays), [data]);
+
+  const targetsFor = (event: StudyEvent) => {
+    const options = event.scope === 'group' ? groups : event.scope === 'animal' ? animals : [];
+    return event.target && !options.includes(event.target) ? [event.target, ...options] : options;
+  };
+
+  const updateEvent = (index: number, changes: Partial<StudyEvent>) =>
+    setDraft(previous => previous.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+
+  const addImported = (rows: Record<string, unknown>[], columns: string[], source: string) => {
+    const mapping = guessEventColumns(columns);
+    if (!mapping.day) {
+      setMessage({ severity: 'error', text: `No study day column found in ${source}.` });
+      return;
+    }
+    const imported = eventsFromRows(rows, mapping);
+    setDraft(previous => [...previous, ...imported]);
+    const used = Object.entries(mapping).filter(([, column]) => column).map(([field, column]) => `${field} ← "${column}"`);
+    setMessage({ severity: 'success', text: `Added ${imported.length} event(s) from ${source} (${used.join(', ')}).` });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (/\.csv$/i.test(file.name)) {
+      Papa.parse<Record<string, unknown>>(file, {
+        header: true,
+        skipEmptyLines: true,
+        complete: results => addImported(results.data, results.meta.fields || [], file.name)
+      });
+      return;
+    }
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = await importWorker.call('parseWorkbook', { data }, undefined, [data]);
+      const sheet = workbook.sheetNames.map(name => workbook.sheets[name]).find(Boolean);
+      if (!sheet) throw new Error(`${file.name} has no data`);
+      addImported(sheet.rows, sheet.columns, file.name);
+    } catch (error) {
+      if (error instanceof ImportCancelledError) return;
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : `Could not read ${file.name}.` });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{
+        background: 'linear-gradient(135deg, #2D1B3D 0%, #8A0051 100%)',
+        color: 'white',
+        textAlign: 'center',
+        py: 3
+      }}>
+        <Typography variant="h5" sx={{ fontWeight: 700 }}>
+          💉 Dosing & Study Events
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#E699C2', mt: 1 }}>
+          Shown on the time-course, TGI and per-animal charts
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ mt: 2 }}>
+        {message && (
+          <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1.5, mb: 2 }}>
+          <Typography sx={{ fontWeight: 600, color: '#8A0051' }}>Show as</Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={draftDisplay}
+            onChange={(_, value: EventDisplay | null) => value && setDraftDisplay(value)}
+          >
+            {Object.entries(EVENT_DISPLAY_LABELS).map(([value, label]) => (
+              <ToggleButton key={value} value={value}>{label}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1.5, mb: 2 }}>
+          {tabs.length > 0 && (
+            <>
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel>Sheet with events</InputLabel>
+                <Select value={sourceTab} label="Sheet with events" onChange={e => setSourceTab(e.target.value)}>
+                  {tabs.map(tab => (
+                    <MenuItem key={tab.tabName} value={tab.tabName}>{tab.tabName}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                size="small"
+                disabled={!sourceTab}
+                onClick={() => {
+                  const tab = tabs.find(t => t.tabName === sourceTab);
+                  if (tab) addImported(tab.rows, tab.columns, `"${tab.tabName}"`);
+                }}
+              >
+                Import from sheet
+              </Button>
+            </>
+          )}
+          <Button size="small" onClick={() => fileInputRef.current?.click()}>Import CSV/Excel file</Button>
+          {hasDosingFields && data && (
+            <Button
+              size="small"
+              onClick={() => {
+                const imported = eventsFromDosingFields(data, groupField);
+                setDraft(previous => [...previous, ...imported]);
+                setMessage({ severity: 'success', text: `Added ${imported.length} dose event(s) from the SEND dosing records.` });
+              }}
+            >
+              Add SEND dosing
+            </Button>
+          )}
+          <Button size="small" sx={{ ml: 'auto' }} onClick={() => setDraft([...draft, newEvent()])}>
+            Add event
+          </Button>
+        </Box>
+
+        {draft.length === 0 ? (
+          <Alert severity="info">No events yet. Import a dosing sheet or add events by hand.</Alert>
+        ) : (
+          <TableContainer component={Paper} sx={{ maxHeight: 420 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Event</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Applies to</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Group / animal</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Day</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Compound</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Dose</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Unit</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Route</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Description</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.map((event, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select size="small" sx={{ ...cellInput, width: 120 }} value={event.kind} onChange={e => updateEvent(index, { kind: e.target.value as StudyEventKind })}>
+                        {Object.entries(EVENT_KIND_LABELS).map(([kind, label]) => (
+                          <MenuItem key={kind} value={kind}>{label}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small" sx={{ ...cellInput, width: 120 }} value={event.scope}
+                        onChange={e => updateEvent(index, { scope: e.target.value as StudyEventScope, target: '' })}
+                      >
+                        {Object.entries(SCOPE_LABELS).map(([scope, label]) => (
+                          <MenuItem key={scope} value={scope}>{label}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small" sx={{ ...cellInput, width: 130 }} value={event.target} displayEmpty
+                        disabled={event.scope === 'study'}
+                        onChange={e => updateEvent(index, { target: e.target.value })}
+                      >
+                        <MenuItem value=""><em>{event.scope === 'study' ? 'All' : 'Choose'}</em></MenuItem>
+                        {targetsFor(event).map(target => (
+                          <MenuItem key={target} value={target}>{target}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small" type="number" sx={{ ...cellInput, width: 70 }} value={event.day}
+                        onChange={e => updateEvent(index, { day: Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 110 }} value={event.compound} onChange={e => updateEvent(index, { compound: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small" type="number" sx={{ ...cellInput, width: 70 }} value={event.dose ?? ''}
+                        onChange={e => updateEvent(index, { dose: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 70 }} value={event.doseUnit} onChange={e => updateEvent(index, { doseUnit: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 60 }} value={event.route} onChange={e => updateEvent(index, { route: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField size="small" sx={{ ...cellInput, width: 140 }} value={event.description} onChange={e => updateEvent(index, { description: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => setDraft(draft.filter((_, i) => i !== index))}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls" hidden onChange={handleFile} />
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button color="error" onClick={() => setDraft([])} disabled={draft.length === 0} sx={{ mr: 'auto' }}>
+          Clear All
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          sx={{ px: 3 }}
+          onClick={() => onSave(
+            [...draft].filter(e => e.scope === 'study' || e.target).sort((a, b) => a.day - b.day),
+            draftDisplay
+          )}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StudyEventsDialog;
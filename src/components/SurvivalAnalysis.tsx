@@ -0,0 +1,734 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import Plot from 'react-plotly.js';
+import type { Data, Layout } from 'plotly.js';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, TextField, Paper, Grid, Chip, Alert,
+  Divider, FormControlLabel, Checkbox, Table, TableBody, TableCell, TableContainer, TableHead, TableRow
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import { colorManager } from '../utils/ColorManager';
+import ColorEditor from './ColorEditor';
+import { getSignificanceLevel } from '../utils/StatisticalAnalysis';
+import { withUnit, type UnitCode } from '../utils/Units';
+import { designControlGroup, groupLabel, metadataFields, orderGroups, type StudyDesign } from '../utils/StudyDesign';
+import {
+  ENDPOINT_RULE_LABELS, kaplanMeier, logRankTest, numberAtRisk, pairwiseLogRank, survivalSubjects,
+  type EndpointRule, type EndpointRuleKind
+} from '../utils/SurvivalAnalysis';
+import { coxDesign, fitCox } from '../utils/CoxRegression';
+
+interface SurvivalAnalysisProps {
+  data: ParsedData;
+  parameterUnits?: Record<string, UnitCode>;
+  // Group order and labels default from the design when it is linked to the group field
+  studyDesign?: StudyDesign | null;
+}
+
+const TUMOR_VOLUME_COLUMNS = ['Volume', 'TumorVolume', 'Tumor_Volume', 'volume', 'tumor_volume'];
+
+// Default limits: a typical humane-endpoint tumour volume, and a 20% body-weight loss
+const DEFAULT_THRESHOLDS: Record<EndpointRuleKind, number> = {
+  volume_threshold: 1500,
+  event_column: 0,
+  body_weight_loss: 20
+};
+
+// Number-at-risk columns under the plot
+const MAX_RISK_COLUMNS = 10;
+
+// Baseline covariates enter the Cox model per this many units, so hazard ratios stay readable
+const BASELINE_SCALE = 100;
+
+const formatDay = (day: number) => (Number.isFinite(day) ? String(day) : 'NR');
+
+const formatP = (p: number) => (!Number.isFinite(p) ? '—' : p < 0.001 ? '<0.001' : p.toFixed(3));
+
+// Kaplan-Meier curves and log-rank tests for time to a chosen endpoint
+const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ data, parameterUnits = {}, studyDesign }) => {
+  const [selectedGroupField, setSelectedGroupField] = useState<string>('');
+  const [ruleKind, setRuleKind] = useState<EndpointRuleKind>('volume_threshold');
+  const [parameter, setParameter] = useState<string>('');
+  const [threshold, setThreshold] = useState<number>(DEFAULT_THRESHOLDS.volume_threshold);
+  const [eventColumn, setEventColumn] = useState<string>('');
+  const [eventValues, setEventValues] = useState<string[]>([]);
+  const [censorColumn, setCensorColumn] = useState<string>('');
+  const [showConfidence, setShowConfidence] = useState(true);
+  const [colorUpdateTrigger, setColorUpdateTrigger] = useState(0);
+  const [referenceGroup, setReferenceGroup] = useState<string>('');
+  const [baselineParameter, setBaselineParameter] = useState<string>('');
+  const [adjustFactors, setAdjustFactors] = useState<string[]>([]);
+
+  const availableGroupFields = useMemo(() => metadataFields(data), [data]);
+
+  // Auto-select the design's group field, else the first available one
+  React.useEffect(() => {
+    if (availableGroupFields.length > 0 && !selectedGroupField) {
+      const designField = studyDesign && availableGroupFields.includes(studyDesign.groupField) ? studyDesign.groupField : '';
+      setSelectedGroupField(designField || availableGroupFields[0]);
+    }
+  }, [availableGroupFields, selectedGroupField, studyDesign]);
+
+  const numericParameters = useMemo(() => {
+    const fields = new Set<string>();
+    data.forEach(row => {
+      Object.keys(row).forEach(key => {
+        if (key !== 'studyDay' && typeof row[key] === 'number') fields.add(key);
+      });
+    });
+    return Array.from(fields).sort();
+  }, [data]);
+
+  // Any column other than the keys can record deaths or removals
+  const recordColumns = useMemo(() => {
+    const fields = new Set<string>();
+    data.forEach(row => Object.keys(row).forEach(key => {
+      if (key !== 'animalId' && key !== 'studyDay') fields.add(key);
+    }));
+    return Array.from(fields).sort();
+  }, [data]);
+
+  // Pick a sensible parameter whenever the rule changes
+  React.useEffect(() => {
+    if (numericParameters.includes(parameter)) return;
+    const guess = ruleKind === 'body_weight_loss'
+      ? numericParameters.find(p => /weight|^bw$/i.test(p))
+      : numericParameters.find(p => TUMOR_VOLUME_COLUMNS.includes(p));
+    setParameter(guess || numericParameters[0] || '');
+  }, [numericParameters, parameter, ruleKind]);
+
+  const handleRuleKindChange = (kind: EndpointRuleKind) => {
+    setRuleKind(kind);
+    setThreshold(DEFAULT_THRESHOLDS[kind]);
+    setParameter('');
+  };
+
+  const eventColumnValues = useMemo(() => {
+    if (!eventColumn) return [];
+    const values = new Set<string>();
+    data.forEach(row => {
+      const value = row[eventColumn];
+      if (value !== undefined && value !== null && String(value).trim() !== '' && isNaN(Number(value))) {
+        values.add(String(value).trim());
+      }
+    });
+    return Array.from(values).sort();
+  }, [data, eventColumn]);
+
+  const rule: EndpointRule = useMemo(() => ({
+    kind: ruleKind,
+    parameter,
+    threshold,
+    column: eventColumn,
+    eventValues,
+    censorColumn
+  }), [ruleKind, parameter, threshold, eventColumn, eventValues, censorColumn]);
+
+  const ruleReady = ruleKind === 'event_column' ? Boolean(eventColumn) : Boolean(parameter) && threshold > 0;
+
+  const subjects = useMemo(
+    () => (ruleReady && selectedGroupField ? survivalSubjects(data, rule, selectedGroupField) : []),
+    [data, rule, ruleReady, selectedGroupField]
+  );
+
+  const availableGroups = useMemo(
+    () => orderGroups(Array.from(new Set(subjects.map(s => s.group))), studyDesign, selectedGroupField),
+    [subjects, studyDesign, selectedGroupField]
+  );
+
+  const labelFor = useCallback(
+    (group: string) => groupLabel(group, studyDesign, selectedGroupField),
+    [studyDesign, selectedGroupField]
+  );
+
+  const curves = useMemo(() => availableGroups.map(group => kaplanMeier(subjects, group)), [subjects, availableGroups]);
+
+  const overall = useMemo(
+    () => (availableGroups.length > 1 ? logRankTest(subjects, availableGroups) : null),
+    [subjects, availableGroups]
+  );
+
+  const pairwise = useMemo(
+    () => (availableGroups.length > 2 ? pairwiseLogRank(subjects, availableGroups) : []),
+    [subjects, availableGroups]
+  );
+
+  // Hazard ratios are against the design's control by default
+  React.useEffect(() => {
+    if (referenceGroup && availableGroups.includes(referenceGroup)) return;
+    const designControl = designControlGroup(studyDesign, selectedGroupField);
+    setReferenceGroup(designControl && availableGroups.includes(designControl) ? designControl : availableGroups[0] || '');
+  }, [availableGroups, referenceGroup, studyDesign, selectedGroupField]);
+
+  const factorFields = useMemo(
+    () => availableGroupFields.filter(field => field !== selectedGroupField),
+    [availableGroupFields, selectedGroupField]
+  );
+
+  const activeFactors = useMemo(
+    () => adjustFactors.filter(field => factorFields.includes(field)),
+    [adjustFactors, factorFields]
+  );
+
+  const cox = useMemo(() => {
+    if (availableGroups.length < 2 || !availableGroups.includes(referenceGroup)) return null;
+    const design = coxDesign(subjects, data, availableGroups, referenceGroup, {
+      baselineParameter,
+      baselineScale: BASELINE_SCALE,
+      factors: activeFactors
+    }, labelFor);
+    if (design.rows.length === 0 || !design.events.some(Boolean)) return { design, fit: null };
+    return { design, fit: fitCox(design) };
+  }, [subjects, data, availableGroups, referenceGroup, baselineParameter, activeFactors, labelFor]);
+
+  const forestPlot = useMemo(() => {
+    if (!cox?.fit) return null;
+    const terms = [...cox.fit.terms].reverse().filter(term => Number.isFinite(term.lower) && Number.isFinite(term.upper));
+    const traces: Data[] = [{
+      x: terms.map(term => term.hazardRatio),
+      y: terms.map(term => term.name),
+      type: 'scatter',
+      mode: 'markers',
+      marker: { symbol: 'square', size: 10, color: '#8A0051' },
+      error_x: {
+        type: 'data',
+        symmetric: false,
+        array: terms.map(term => term.upper - term.hazardRatio),
+        arrayminus: terms.map(term => term.hazardRatio - term.lower),
+        color: '#8A0051',
+        thickness: 2
+      },
+      hovertemplate: '%{y}<br>HR %{x:.2f}<extra></extra>',
+      showlegend: false
+    }];
+    const layout: Partial<Layout> = {
+      title: { text: 'Hazard Ratios (95% CI)', font: { size: 16, color: '#8A0051' } },
+      xaxis: { title: { text: 'Hazard Ratio (log scale)' }, type: 'log', showgrid: true, gridcolor: '#f0f0f0' },
+      yaxis: { automargin: true },
+      shapes: [{ type: 'line', x0: 1, x1: 1, xref: 'x', y0: 0, y1: 1, yref: 'paper', line: { color: '#666', dash: 'dash', width: 1 } }],
+      plot_bgcolor: 'white',
+      paper_bgcolor: 'white'
+    };
+    return { traces, layout, height: Math.max(250, 80 + terms.length * 45) };
+  }, [cox]);
+
+  const startDay = useMemo(() => {
+    const days = data.map(row => Number(row.studyDay)).filter(day => !isNaN(day));
+    return days.length > 0 ? Math.min(...days) : 0;
+  }, [data]);
+
+  // Evenly spaced study days up to the last follow-up
+  const riskDays = useMemo(() => {
+    if (subjects.length === 0) return [];
+    const lastDay = Math.max(...subjects.map(s => s.time));
+    const span = Math.max(lastDay - startDay, 1);
+    const step = Math.max(1, Math.ceil(span / (MAX_RISK_COLUMNS - 1)));
+    const days: number[] = [];
+    for (let day = startDay; day <= lastDay; day += step) days.push(day);
+    return days;
+  }, [subjects, startDay]);
+
+  const survivalPlot = useMemo(() => {
+    const traces: Data[] = [];
+    curves.forEach(curve => {
+      const color = colorManager.getColor(curve.group);
+      const x = [startDay, ...curve.steps.map(step => step.time)];
+      if (showConfidence) {
+        traces.push({
+          x,
+          y: [1, ...curve.steps.map(step => step.upper)],
+          type: 'scatter',
+          mode: 'lines',
+          line: { shape: 'hv', width: 0 },
+          legendgroup: curve.group,
+          showlegend: false,
+          hoverinfo: 'skip'
+        });
+        traces.push({
+          x,
+          y: [1, ...curve.steps.map(step => step.lower)],
+          type: 'scatter',
+          mode: 'lines',
+          line: { shape: 'hv', width: 0 },
+          fill: 'tonexty',
+          fillcolor: `${color}20`,
+          legendgroup: curve.group,
+          showlegend: false,
+          hoverinfo: 'skip'
+        });
+      }
+      traces.push({
+        x,
+        y: [1, ...curve.steps.map(step => step.survival)],
+        type: 'scatter',
+        mode: 'lines',
+        name: `${labelFor(curve.group)} (n=${curve.n})`,
+        line: { shape: 'hv', color, width: 3 },
+        legendgroup: curve.group,
+        hovertemplate: `${labelFor(curve.group)}<br>Day %{x}<br>Survival %{y:.2f}<extra></extra>`
+      });
+      const censored = curve.steps.filter(step => step.censored > 0);
+      if (censored.length > 0) {
+        traces.push({
+          x: censored.map(step => step.time),
+          y: censored.map(step => step.survival),
+          type: 'scatter',
+          mode: 'markers',
+          marker: { symbol: 'cross-thin-open', size: 10, color, line: { width: 2, color } },
+          legendgroup: curve.group,
+          showlegend: false,
+          hovertemplate: `${labelFor(curve.group)}<br>Censored day %{x}<extra></extra>`
+        });
+      }
+    });
+
+    const layout: Partial<Layout> = {
+      title: { text: `Kaplan-Meier: ${ENDPOINT_RULE_LABELS[ruleKind]}`, font: { size: 18, color: '#8A0051' } },
+      xaxis: { title: { text: 'Study Day' }, showgrid: true, gridcolor: '#f0f0f0' },
+      yaxis: { title: { text: 'Proportion Event-Free' }, range: [0, 1.05], showgrid: true, gridcolor: '#f0f0f0' },
+      plot_bgcolor: 'white',
+      paper_bgcolor: 'white',
+      // Redraw when group colours are edited
+      datarevision: colorUpdateTrigger,
+      legend: { x: 1.02, y: 1, bgcolor: 'rgba(255,255,255,0.9)', bordercolor: '#ccc', borderwidth: 1 }
+    };
+    return { traces, layout };
+  }, [curves, startDay, showConfidence, labelFor, ruleKind, colorUpdateTrigger]);
+
+  const ruleDescription = ruleKind === 'volume_threshold'
+    ? `${withUnit(parameter, parameterUnits[parameter])} reaching ${threshold}`
+    : ruleKind === 'body_weight_loss'
+      ? `${threshold}% loss of ${parameter} from its first measurement`
+      : `${eventColumn}${eventValues.length > 0 ? ` = ${eventValues.join(' or ')}` : ''}`;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" sx={{ mb: 3, color: '#8A0051', fontWeight: 600 }}>
+        ⏱️ Survival Analysis (Kaplan-Meier)
+      </Typography>
+
+      {/* Controls */}
+      <Box sx={{ mb: 3 }}>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth>
+              <InputLabel>Group Field</InputLabel>
+              <Select
+                value={selectedGroupField}
+                label="Group Field"
+                onChange={(e) => setSelectedGroupField(e.target.value)}
+              >
+                {availableGroupFields.map(field => (
+                  <MenuItem key={field} value={field}>{field}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth>
+              <InputLabel>Endpoint</InputLabel>
+              <Select
+                value={ruleKind}
+                label="Endpoint"
+                onChange={(e) => handleRuleKindChange(e.target.value as EndpointRuleKind)}
+              >
+                {(Object.keys(ENDPOINT_RULE_LABELS) as EndpointRuleKind[]).map(kind => (
+                  <MenuItem key={kind} value={kind}>{ENDPOINT_RULE_LABELS[kind]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          {ruleKind !== 'event_column' ? (
+            <>
+              <Grid item xs={12} md={3}>
+                <FormControl fullWidth>
+                  <InputLabel>Parameter</InputLabel>
+                  <Select
+                    value={parameter}
+                    label="Parameter"
+                    onChange={(e) => setParameter(e.target.value)}
+                  >
+                    {numericParameters.map(p => (
+                      <MenuItem key={p} value={p}>{withUnit(p, parameterUnits[p])}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label={ruleKind === 'volume_threshold' ? 'Volume threshold' : 'Loss limit (%)'}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+            </>
+          ) : (
+            <>
+              <Grid item xs={12} md={3}>
+                <FormControl fullWidth>
+                  <InputLabel>Death / Removal Column</InputLabel>
+                  <Select
+                    value={eventColumn}
+                    label="Death / Removal Column"
+                    onChange={(e) => {
+                      setEventColumn(e.target.value);
+                      setEventValues([]);
+                    }}
+                  >
+                    {recordColumns.map(column => (
+                      <MenuItem key={column} value={column}>{column}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} md={3}>
+                <FormControl fullWidth disabled={eventColumnValues.length === 0}>
+                  <InputLabel>Counted as Events</InputLabel>
+                  <Select
+                    multiple
+                    value={eventValues}
+                    label="Counted as Events"
+                    onChange={(e) => setEventValues(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+                    renderValue={(selected) => (selected.length === 0 ? 'All values' : selected.join(', '))}
+                  >
+                    {eventColumnValues.map(value => (
+                      <MenuItem key={value} value={value}>
+                        <Checkbox checked={eventValues.includes(value)} size="small" />
+                        {value}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            </>
+          )}
+
+          <Grid item xs={12} md={3}>
+            <FormControl fullWidth>
+              <InputLabel>Censor Column</InputLabel>
+              <Select
+                value={censorColumn}
+                label="Censor Column"
+                onChange={(e) => setCensorColumn(e.target.value)}
+              >
+                <MenuItem value=""><em>None</em></MenuItem>
+                {recordColumns.filter(column => column !== eventColumn).map(column => (
+                  <MenuItem key={column} value={column}>{column}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <FormControlLabel
+              control={<Checkbox checked={showConfidence} onChange={(e) => setShowConfidence(e.target.checked)} />}
+              label="Show 95% confidence bands"
+            />
+          </Grid>
+        </Grid>
+
+        {availableGroups.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="body2" sx={{ color: '#666' }}>
+                Endpoint: {ruleDescription}. Animals without the event are censored at their last observation
+                {censorColumn ? ` or when ${censorColumn} records a removal` : ''}.
+              </Typography>
+              <ColorEditor
+                availableGroups={availableGroups}
+                onColorsChanged={() => setColorUpdateTrigger(prev => prev + 1)}
+              />
+            </Box>
+          </Box>
+        )}
+      </Box>
+
+      {!ruleReady && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          {ruleKind === 'event_column'
+            ? 'Select the column that records deaths or euthanasia.'
+            : 'Select a parameter and a threshold to define the endpoint.'}
+        </Alert>
+      )}
+
+      {ruleReady && subjects.length === 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          No animals have a value for the selected group field.
+        </Alert>
+      )}
+
+      {subjects.length > 0 && (
+        <>
+          <Box sx={{ width: '100%', overflowX: 'auto', '& .plotly': { width: '100% !important' } }}>
+            <Plot
+              data={survivalPlot.traces}
+              layout={{
+                ...survivalPlot.layout,
+                width: 900,
+                height: 500,
+                margin: { l: 60, r: 60, t: 60, b: 60 }
+              }}
+              config={{
+                displayModeBar: true,
+                displaylogo: false,
+                modeBarButtonsToRemove: ['pan2d', 'lasso2d']
+              }}
+            />
+          </Box>
+
+          {/* Number at risk */}
+          <TableContainer component={Paper} variant="outlined" sx={{ mt: 1 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Number at risk</strong></TableCell>
+                  {riskDays.map(day => (
+                    <TableCell key={day} align="right"><strong>Day {day}</strong></TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {availableGroups.map(group => (
+                  <TableRow key={group}>
+                    <TableCell sx={{ color: colorManager.getColor(group), fontWeight: 600 }}>{labelFor(group)}</TableCell>
+                    {numberAtRisk(subjects, group, riskDays).map((count, index) => (
+                      <TableCell key={riskDays[index]} align="right">{count}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Divider sx={{ my: 3 }} />
+          <Typography variant="h6" sx={{ mb: 2, color: '#8A0051' }}>
+            📊 Median Time to Endpoint
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>n</strong></TableCell>
+                  <TableCell align="right"><strong>Events</strong></TableCell>
+                  <TableCell align="right"><strong>Censored</strong></TableCell>
+                  <TableCell align="right"><strong>Median (days)</strong></TableCell>
+                  <TableCell align="right"><strong>95% CI</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {curves.map(curve => (
+                  <TableRow key={curve.group}>
+                    <TableCell sx={{ color: colorManager.getColor(curve.group), fontWeight: 600 }}>{labelFor(curve.group)}</TableCell>
+                    <TableCell align="right">{curve.n}</TableCell>
+                    <TableCell align="right">{curve.events}</TableCell>
+                    <TableCell align="right">{curve.n - curve.events}</TableCell>
+                    <TableCell align="right">{formatDay(curve.median)}</TableCell>
+                    <TableCell align="right">{formatDay(curve.medianLower)} – {formatDay(curve.medianUpper)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {overall && (
+            <Box sx={{ mt: 3 }}>
+              <Typography variant="h6" sx={{ mb: 2, color: '#8A0051' }}>
+                📈 Log-Rank Tests
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                <Chip
+                  label={`Overall: χ² = ${Number.isFinite(overall.chiSquare) ? overall.chiSquare.toFixed(2) : '—'}, df = ${overall.df}, p = ${formatP(overall.pValue)}`}
+                  color={overall.pValue < 0.05 ? 'primary' : 'default'}
+                  sx={{ fontWeight: 600 }}
+                />
+              </Box>
+              {pairwise.length > 0 && (
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell><strong>Comparison</strong></TableCell>
+                        <TableCell align="right"><strong>χ²</strong></TableCell>
+                        <TableCell align="right"><strong>p-value</strong></TableCell>
+                        <TableCell align="right"><strong>Holm-adjusted p</strong></TableCell>
+                        <TableCell align="center"><strong>Significance</strong></TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {pairwise.map(result => (
+                        <TableRow key={`${result.groupA}|${result.groupB}`}>
+                          <TableCell>{labelFor(result.groupA)} vs {labelFor(result.groupB)}</TableCell>
+                          <TableCell align="right">{Number.isFinite(result.chiSquare) ? result.chiSquare.toFixed(2) : '—'}</TableCell>
+                          <TableCell align="right">{formatP(result.pValue)}</TableCell>
+                          <TableCell align="right">{formatP(result.adjustedPValue)}</TableCell>
+                          <TableCell align="center">
+                            {Number.isFinite(result.adjustedPValue) ? getSignificanceLevel(result.adjustedPValue) : ''}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+              <Alert severity="info" sx={{ mt: 2 }}>
+                <Typography variant="body2">
+                  <strong>Statistical Methods:</strong> Kaplan-Meier product-limit estimates with Greenwood variance and
+                  log(-log) 95% confidence bands; median CI from where the bands cross 50% (NR: not reached).
+                  Groups compared with the log-rank test (k−1 df overall); pairwise p-values Holm-adjusted.
+                </Typography>
+              </Alert>
+            </Box>
+          )}
+
+          {cox && (
+            <Box sx={{ mt: 3 }}>
+              <Divider sx={{ mb: 2 }} />
+              <Typography variant="h6" sx={{ mb: 2, color: '#8A0051' }}>
+                ⚖️ Hazard Ratios (Cox Regression)
+              </Typography>
+              <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+                <Grid item xs={12} md={4}>
+                  <FormControl fullWidth>
+                    <InputLabel>Reference Group</InputLabel>
+                    <Select
+                      value={referenceGroup}
+                      label="Reference Group"
+                      onChange={(e) => setReferenceGroup(e.target.value)}
+                    >
+                      {availableGroups.map(group => (
+                        <MenuItem key={group} value={group}>{labelFor(group)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <FormControl fullWidth>
+                    <InputLabel>Adjust for Baseline</InputLabel>
+                    <Select
+                      value={baselineParameter}
+                      label="Adjust for Baseline"
+                      onChange={(e) => setBaselineParameter(e.target.value)}
+                    >
+                      <MenuItem value=""><em>None</em></MenuItem>
+                      {numericParameters.map(p => (
+                        <MenuItem key={p} value={p}>{withUnit(p, parameterUnits[p])}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <FormControl fullWidth disabled={factorFields.length === 0}>
+                    <InputLabel>Adjust for Factors</InputLabel>
+                    <Select
+                      multiple
+                      value={adjustFactors}
+                      label="Adjust for Factors"
+                      onChange={(e) => setAdjustFactors(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+                      renderValue={(selected) => (selected.length === 0 ? 'None' : selected.join(', '))}
+                    >
+                      {factorFields.map(field => (
+                        <MenuItem key={field} value={field}>
+                          <Checkbox checked={adjustFactors.includes(field)} size="small" />
+                          {field}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+              </Grid>
+
+              {cox.design.excluded.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  {cox.design.excluded.length} animal(s) left out for missing covariate values: {cox.design.excluded.join(', ')}
+                </Alert>
+              )}
+
+              {!cox.fit ? (
+                <Alert severity="info">No events among the animals in the model, so hazard ratios cannot be estimated.</Alert>
+              ) : (
+                <>
+                  {!cox.fit.converged && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      The model did not converge. A group with no events (or only events) has an unbounded hazard ratio;
+                      treat its estimate and interval as unreliable.
+                    </Alert>
+                  )}
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                    <Chip label={`n = ${cox.fit.n}, events = ${cox.fit.events}`} />
+                    <Chip
+                      label={`Likelihood ratio: χ² = ${cox.fit.likelihoodRatio.chiSquare.toFixed(2)}, df = ${cox.fit.likelihoodRatio.df}, p = ${formatP(cox.fit.likelihoodRatio.pValue)}`}
+                      color={cox.fit.likelihoodRatio.pValue < 0.05 ? 'primary' : 'default'}
+                    />
+                    <Chip
+                      label={`Wald: χ² = ${cox.fit.wald.chiSquare.toFixed(2)}, df = ${cox.fit.wald.df}, p = ${formatP(cox.fit.wald.pValue)}`}
+                      color={cox.fit.wald.pValue < 0.05 ? 'primary' : 'default'}
+                    />
+                  </Box>
+                  <TableContainer component={Paper}>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell><strong>Term</strong></TableCell>
+                          <TableCell align="right"><strong>Coefficient</strong></TableCell>
+                          <TableCell align="right"><strong>SE</strong></TableCell>
+                          <TableCell align="right"><strong>Hazard Ratio</strong></TableCell>
+                          <TableCell align="right"><strong>95% CI</strong></TableCell>
+                          <TableCell align="right"><strong>Wald p</strong></TableCell>
+                          <TableCell align="center"><strong>Significance</strong></TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {cox.fit.terms.map(term => (
+                          <TableRow key={term.name}>
+                            <TableCell>{term.name}</TableCell>
+                            <TableCell align="right">{term.coefficient.toFixed(3)}</TableCell>
+                            <TableCell align="right">{Number.isFinite(term.standardError) ? term.standardError.toFixed(3) : '—'}</TableCell>
+                            <TableCell align="right">{term.hazardRatio.toFixed(2)}</TableCell>
+                            <TableCell align="right">
+                              {Number.isFinite(term.lower) ? `${term.lower.toFixed(2)} – ${term.upper.toFixed(2)}` : '—'}
+                            </TableCell>
+                            <TableCell align="right">{formatP(term.pValue)}</TableCell>
+                            <TableCell align="center">{Number.isFinite(term.pValue) ? getSignificanceLevel(term.pValue) : ''}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                  {forestPlot && (
+                    <Box sx={{ width: '100%', overflowX: 'auto', mt: 2, '& .plotly': { width: '100% !important' } }}>
+                      <Plot
+                        data={forestPlot.traces}
+                        layout={{
+                          ...forestPlot.layout,
+                          width: 900,
+                          height: forestPlot.height,
+                          margin: { l: 60, r: 60, t: 50, b: 50 }
+                        }}
+                        config={{ displayModeBar: true, displaylogo: false, modeBarButtonsToRemove: ['pan2d', 'lasso2d'] }}
+                      />
+                    </Box>
+                  )}
+                  <Alert severity="info" sx={{ mt: 2 }}>
+                    <Typography variant="body2">
+                      <strong>Statistical Methods:</strong> Cox proportional hazards regression fitted by Newton-Raphson
+                      with Efron's method for tied event times. Hazard ratios are per group against {labelFor(referenceGroup)}
+                      {baselineParameter ? `, adjusted for baseline ${baselineParameter} (per ${BASELINE_SCALE} units)` : ''}
+                      {activeFactors.length > 0 ? ` and ${activeFactors.join(', ')}` : ''}; Wald 95% confidence intervals.
+                    </Typography>
+                  </Alert>
+                </>
+              )}
+            </Box>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default SurvivalAnalysis;
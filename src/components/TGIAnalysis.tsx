@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import Plot from 'react-plotly.js';
 import { 
   Box, Typography, FormControl, InputLabel, Select, MenuItem, 
@@ -8,12 +8,27 @@ import {
 import type { ParsedData } from './FileUpload';
 import { colorManager } from '../utils/ColorManager';
 import ColorEditor from './ColorEditor';
+import TumorGrowthDelay from './TumorGrowthDelay';
+import LongitudinalModel from './LongitudinalModel';
 import { calculateTGIAtTimepoint, getSignificanceLevel, type TGIStatistics } from '../utils/StatisticalAnalysis';
+import { unitLabel, withUnit, type UnitCode } from '../utils/Units';
+import { designControlGroup, groupLabel, orderGroups, type StudyDesign } from '../utils/StudyDesign';
+import { eventOverlay, eventsForGroups, type EventDisplay, type StudyEvent } from '../utils/StudyEvents';
 
 interface TGIAnalysisProps {
   data: ParsedData;
+  parameterUnits?: Record<string, UnitCode>;
+  // Control, group order and labels default from the design when it is linked to the group field
+  studyDesign?: StudyDesign | null;
+  // Dosing and other events drawn over the TGI-over-time plot
+  events?: StudyEvent[];
+  eventDisplay?: EventDisplay;
 }
 
+const NO_EVENTS: StudyEvent[] = [];
+
+type AnalysisType = 'overtime' | 'waterfall' | 'growth_delay' | 'mixed_model';
+
 interface TGIResult {
   group: string;
   tgi: number;
@@ -33,10 +48,10 @@ interface WaterfallData {
   bestResponse: number;
 }
 
-const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
+const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data, parameterUnits = {}, studyDesign, events = NO_EVENTS, eventDisplay = 'markers' }) => {
   const [controlGroup, setControlGroup] = useState<string>('');
   const [selectedTimepoint, setSelectedTimepoint] = useState<number>(21);
-  const [analysisType, setAnalysisType] = useState<'overtime' | 'waterfall'>('overtime');
+  const [analysisType, setAnalysisType] = useState<AnalysisType>('overtime');
   const [selectedGroupField, setSelectedGroupField] = useState<string>('');
   const [colorUpdateTrigger, setColorUpdateTrigger] = useState(0);
   const [waterfallType, setWaterfallType] = useState<'timepoint' | 'best' | 'vs_control'>('timepoint');
@@ -58,6 +73,10 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
     ) || '';
   }, [data]);
 
+  // Volume unit for hover text and table captions; blank when the import didn't record one
+  const volumeUnit = unitLabel(parameterUnits[tumorVolumeColumn]);
+  const volumeSuffix = volumeUnit ? ` ${volumeUnit}` : '';
+
   // Get available metadata fields (potential grouping variables)
   const availableGroupFields = useMemo(() => {
     if (!data.length) return [];
@@ -75,12 +94,13 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
     return Array.from(metadataFields).sort();
   }, [data]);
 
-  // Auto-select first available group field
+  // Auto-select the design's group field, else the first available one
   React.useEffect(() => {
     if (availableGroupFields.length > 0 && !selectedGroupField) {
-      setSelectedGroupField(availableGroupFields[0]);
+      const designField = studyDesign && availableGroupFields.includes(studyDesign.groupField) ? studyDesign.groupField : '';
+      setSelectedGroupField(designField || availableGroupFields[0]);
     }
-  }, [availableGroupFields, selectedGroupField]);
+  }, [availableGroupFields, selectedGroupField, studyDesign]);
 
   // Get available groups from selected group field
   const availableGroups = useMemo(() => {
@@ -92,8 +112,20 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
         groups.add(groupValue);
       }
     });
-    return Array.from(groups).sort();
-  }, [data, selectedGroupField]);
+    return orderGroups(Array.from(groups), studyDesign, selectedGroupField);
+  }, [data, selectedGroupField, studyDesign]);
+
+  const labelFor = useCallback(
+    (group: string) => groupLabel(group, studyDesign, selectedGroupField),
+    [studyDesign, selectedGroupField]
+  );
+
+  // Default the control group to the design's control
+  React.useEffect(() => {
+    if (controlGroup && availableGroups.includes(controlGroup)) return;
+    const designControl = designControlGroup(studyDesign, selectedGroupField);
+    if (designControl && availableGroups.includes(designControl)) setControlGroup(designControl);
+  }, [availableGroups, controlGroup, studyDesign, selectedGroupField]);
 
   // Get available timepoints
   const availableTimepoints = useMemo(() => {
@@ -215,10 +247,10 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
           },
           type: 'scatter',
           mode: 'lines+markers',
-          name: `${group} vs ${controlGroup}`,
+          name: `${labelFor(group)} vs ${labelFor(controlGroup)}`,
           line: { color, width: 3 },
           marker: { size: 8, color },
-          hovertemplate: `<b>${group} vs ${controlGroup}</b><br>Day: %{x}<br>TGI: %{y:.1f} ± %{error_y.array:.1f}%<br>p-value: %{customdata:.4f}<extra></extra>`,
+          hovertemplate: `<b>${labelFor(group)} vs ${labelFor(controlGroup)}</b><br>Day: %{x}<br>TGI: %{y:.1f} ± %{error_y.array:.1f}%<br>p-value: %{customdata:.4f}<extra></extra>`,
           customdata: validTimepoints.map(tp => groupStats.get(tp)?.pValue || 1)
         });
       }
@@ -267,8 +299,9 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
       });
     });
 
+    const overlay = eventOverlay(eventsForGroups(events, availableGroups), eventDisplay);
     const layout = {
-      title: { text: `Tumor Growth Inhibition Over Time (vs ${controlGroup}) - Statistical Analysis` },
+      title: { text: `Tumor Growth Inhibition Over Time (vs ${labelFor(controlGroup)}) - Statistical Analysis` },
       xaxis: { 
         title: 'Study Day',
         showgrid: true,
@@ -283,11 +316,12 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
       plot_bgcolor: 'white',
       paper_bgcolor: 'white',
       hovermode: 'closest',
-      annotations
+      annotations: [...annotations, ...overlay.annotations],
+      shapes: overlay.shapes
     };
 
     return { traces, layout, statistics: tgiStatistics };
-  }, [data, controlGroup, tumorVolumeColumn, availableTimepoints, selectedGroupField, colorUpdateTrigger, availableGroups]);
+  }, [data, controlGroup, tumorVolumeColumn, availableTimepoints, selectedGroupField, colorUpdateTrigger, availableGroups, labelFor, events, eventDisplay]);
 
   // Calculate waterfall data for different analysis types
   const waterfallData = useMemo(() => {
@@ -451,12 +485,12 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
         opacity: 0.8
       },
       text: sortedData.map(d => d.animalId),
-      customdata: sortedData.map(d => [d.group, d.baselineVolume, d.responseVolume, d.bestResponse]),
+      customdata: sortedData.map(d => [labelFor(d.group), d.baselineVolume, d.responseVolume, d.bestResponse]),
       hovertemplate: waterfallType === 'timepoint' ? 
-        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Day ${selectedTimepoint} Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f} mm³<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f} mm³<br>Best Volume: %{customdata[3]:.0f} mm³<extra></extra>` :
+        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Day ${selectedTimepoint} Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f}${volumeSuffix}<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f}${volumeSuffix}<br>Best Volume: %{customdata[3]:.0f}${volumeSuffix}<extra></extra>` :
         waterfallType === 'best' ?
-        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Best Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f} mm³<br>Best Volume: %{customdata[3]:.0f} mm³<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f} mm³<extra></extra>` :
-        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Relative Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f} mm³<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f} mm³<br>Best Volume: %{customdata[3]:.0f} mm³<extra></extra>`,
+        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Best Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f}${volumeSuffix}<br>Best Volume: %{customdata[3]:.0f}${volumeSuffix}<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f}${volumeSuffix}<extra></extra>` :
+        `<b>%{text}</b><br>Group: %{customdata[0]}<br>Relative Response: %{y:.1f}%<br>Baseline (Day ${baselineTimepoint}): %{customdata[1]:.0f}${volumeSuffix}<br>Day ${selectedTimepoint} Volume: %{customdata[2]:.0f}${volumeSuffix}<br>Best Volume: %{customdata[3]:.0f}${volumeSuffix}<extra></extra>`,
       showlegend: false
     }];
 
@@ -473,7 +507,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
     });
 
     // Create legend traces (invisible, just for legend)
-    const uniqueGroups = Array.from(new Set(sortedData.map(d => d.group)));
+    const uniqueGroups = availableGroups.filter(group => sortedData.some(d => d.group === group));
     uniqueGroups.forEach(group => {
       traces.push({
         x: [null],
@@ -481,7 +515,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
         type: 'scatter',
         mode: 'markers',
         marker: { color: colorManager.getColor(group), size: 10 },
-        name: group,
+        name: labelFor(group),
         showlegend: true
       });
     });
@@ -552,7 +586,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
     };
 
     return { traces, layout };
-  }, [waterfallData, selectedTimepoint, colorUpdateTrigger]);
+  }, [waterfallData, selectedTimepoint, colorUpdateTrigger, volumeSuffix, availableGroups, labelFor]);
 
   if (!hasTumorVolumeData) {
     return (
@@ -602,7 +636,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
                 onChange={(e) => setControlGroup(e.target.value)}
               >
                 {availableGroups.map(group => (
-                  <MenuItem key={group} value={group}>{group}</MenuItem>
+                  <MenuItem key={group} value={group}>{labelFor(group)}</MenuItem>
                 ))}
               </Select>
             </FormControl>
@@ -614,10 +648,12 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
               <Select
                 value={analysisType}
                 label="Analysis Type"
-                onChange={(e) => setAnalysisType(e.target.value as 'overtime' | 'waterfall')}
+                onChange={(e) => setAnalysisType(e.target.value as AnalysisType)}
               >
                 <MenuItem value="overtime">TGI Over Time</MenuItem>
                 <MenuItem value="waterfall">Waterfall Analysis</MenuItem>
+                <MenuItem value="growth_delay">Tumor Growth Delay</MenuItem>
+                <MenuItem value="mixed_model">Mixed Model (log Volume)</MenuItem>
               </Select>
             </FormControl>
           </Grid>
@@ -690,7 +726,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
               {availableGroups.map(group => (
                 <Chip 
                   key={group} 
-                  label={group} 
+                  label={labelFor(group)} 
                   size="small" 
                   variant={group === controlGroup ? 'filled' : 'outlined'}
                   sx={{ 
@@ -719,7 +755,26 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
           overflowX: 'auto',
           '& .plotly': { width: '100% !important' }
         }}>
-          {analysisType === 'overtime' ? (
+          {analysisType === 'growth_delay' ? (
+            <TumorGrowthDelay
+              data={data}
+              volumeColumn={tumorVolumeColumn}
+              volumeUnit={volumeUnit}
+              groupField={selectedGroupField}
+              groups={availableGroups}
+              controlGroup={controlGroup}
+              labelFor={labelFor}
+            />
+          ) : analysisType === 'mixed_model' ? (
+            <LongitudinalModel
+              data={data}
+              volumeColumn={tumorVolumeColumn}
+              groupField={selectedGroupField}
+              groups={availableGroups}
+              controlGroup={controlGroup}
+              labelFor={labelFor}
+            />
+          ) : analysisType === 'overtime' ? (
             <>
               <Plot
                 data={tgiOverTime.traces}
@@ -743,6 +798,9 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
                   <Typography variant="h6" sx={{ mb: 2, color: '#8A0051' }}>
                     📊 TGI Statistical Analysis Summary
                   </Typography>
+                  <Typography variant="body2" sx={{ mb: 2, color: '#666' }}>
+                    Tumor volume: {withUnit(tumorVolumeColumn, parameterUnits[tumorVolumeColumn])}
+                  </Typography>
                   
                   {Array.from(tgiOverTime.statistics.entries()).map(([group, timepoints]) => (
                     <Box key={group} sx={{ mb: 3 }}>
@@ -751,7 +809,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
                         color: colorManager.getColor(group),
                         fontWeight: 600 
                       }}>
-                        {group} vs {controlGroup}
+                        {labelFor(group)} vs {labelFor(controlGroup)}
                       </Typography>
                       
                       <TableContainer component={Paper} sx={{ maxHeight: 300 }}>
@@ -873,7 +931,7 @@ const TGIAnalysis: React.FC<TGIAnalysisProps> = ({ data }) => {
                         borderBottom: `1px solid ${colorManager.getColor(group)}40`,
                         pb: 1
                       }}>
-                        {group}
+                        {labelFor(group)}
                       </Typography>
                       
                       <Box sx={{ mb: 2 }}>
@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Box, Typography, FormControl, InputLabel, Select, MenuItem, TextField, Grid, Alert, Divider, Paper,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow
+} from '@mui/material';
+import type { ParsedData } from './FileUpload';
+import { colorManager } from '../utils/ColorManager';
+import { getSignificanceLevel } from '../utils/StatisticalAnalysis';
+import {
+  CROSSING_INTERPOLATION_LABELS, GROWTH_TARGET_LABELS, NON_REACHER_LABELS, animalCrossings, growthDelayTable,
+  type CrossingInterpolation, type GrowthTargetKind, type NonReacherHandling
+} from '../utils/GrowthDelay';
+
+interface TumorGrowthDelayProps {
+  data: ParsedData;
+  volumeColumn: string;
+  // Shown after volumes; blank when the import didn't record a unit
+  volumeUnit: string;
+  groupField: string;
+  groups: string[];
+  controlGroup: string;
+  labelFor: (group: string) => string;
+}
+
+const DEFAULT_TARGETS: Record<GrowthTargetKind, number> = {
+  absolute: 1000,
+  fold: 4
+};
+
+const formatDays = (days: number) => (Number.isFinite(days) ? days.toFixed(1) : 'NR');
+
+// Tumour growth delay: median days to a target volume per group, minus the control's
+const TumorGrowthDelay: React.FC<TumorGrowthDelayProps> = ({
+  data, volumeColumn, volumeUnit, groupField, groups, controlGroup, labelFor
+}) => {
+  const [targetKind, setTargetKind] = useState<GrowthTargetKind>('absolute');
+  const [target, setTarget] = useState<number>(DEFAULT_TARGETS.absolute);
+  const [interpolation, setInterpolation] = useState<CrossingInterpolation>('log_linear');
+  const [nonReachers, setNonReachers] = useState<NonReacherHandling>('censor');
+
+  const crossings = useMemo(
+    () => (target > 0 ? animalCrossings(data, volumeColumn, groupField, { targetKind, target, interpolation, nonReachers }) : []),
+    [data, volumeColumn, groupField, targetKind, target, interpolation, nonReachers]
+  );
+
+  const rows = useMemo(
+    () => growthDelayTable(crossings, groups, controlGroup, nonReachers),
+    [crossings, groups, controlGroup, nonReachers]
+  );
+
+  const groupOrder = useMemo(() => new Map(groups.map((group, index) => [group, index])), [groups]);
+  const sortedCrossings = useMemo(
+    () => crossings
+      .filter(c => groupOrder.has(c.group))
+      .sort((a, b) => groupOrder.get(a.group)! - groupOrder.get(b.group)! || a.animalId.localeCompare(b.animalId, undefined, { numeric: true })),
+    [crossings, groupOrder]
+  );
+
+  const volumeSuffix = volumeUnit ? ` ${volumeUnit}` : '';
+  const targetDescription = targetKind === 'absolute' ? `${target}${volumeSuffix}` : `${target}× baseline volume`;
+
+  return (
+    <Box>
+      <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Target</InputLabel>
+            <Select
+              value={targetKind}
+              label="Target"
+              onChange={(e) => {
+                const kind = e.target.value as GrowthTargetKind;
+                setTargetKind(kind);
+                setTarget(DEFAULT_TARGETS[kind]);
+              }}
+            >
+              {(Object.keys(GROWTH_TARGET_LABELS) as GrowthTargetKind[]).map(kind => (
+                <MenuItem key={kind} value={kind}>{GROWTH_TARGET_LABELS[kind]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={2}>
+          <TextField
+            fullWidth
+            type="number"
+            label={targetKind === 'absolute' ? `Target volume${volumeSuffix}` : 'Fold change'}
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value))}
+            inputProps={{ min: 0, step: targetKind === 'fold' ? 0.5 : 100 }}
+          />
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Interpolation</InputLabel>
+            <Select
+              value={interpolation}
+              label="Interpolation"
+              onChange={(e) => setInterpolation(e.target.value as CrossingInterpolation)}
+            >
+              {(Object.keys(CROSSING_INTERPOLATION_LABELS) as CrossingInterpolation[]).map(method => (
+                <MenuItem key={method} value={method}>{CROSSING_INTERPOLATION_LABELS[method]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <FormControl fullWidth>
+            <InputLabel>Animals Not Reaching Target</InputLabel>
+            <Select
+              value={nonReachers}
+              label="Animals Not Reaching Target"
+              onChange={(e) => setNonReachers(e.target.value as NonReacherHandling)}
+            >
+              {(Object.keys(NON_REACHER_LABELS) as NonReacherHandling[]).map(handling => (
+                <MenuItem key={handling} value={handling}>{NON_REACHER_LABELS[handling]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+      </Grid>
+
+      {target <= 0 ? (
+        <Alert severity="info">Enter a target greater than zero.</Alert>
+      ) : (
+        <>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>n</strong></TableCell>
+                  <TableCell align="right"><strong>Reached Target</strong></TableCell>
+                  <TableCell align="right"><strong>Median Days (T / C)</strong></TableCell>
+                  <TableCell align="right"><strong>T − C (days)</strong></TableCell>
+                  <TableCell align="right"><strong>%T − C</strong></TableCell>
+                  <TableCell align="right"><strong>p-value</strong></TableCell>
+                  <TableCell align="center"><strong>Significance</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow
+                    key={row.group}
+                    sx={{ backgroundColor: row.pValue < 0.05 ? `${colorManager.getColor(row.group)}20` : 'inherit' }}
+                  >
+                    <TableCell sx={{ color: colorManager.getColor(row.group), fontWeight: 600 }}>
+                      {labelFor(row.group)}{row.group === controlGroup ? ' (control)' : ''}
+                    </TableCell>
+                    <TableCell align="right">{row.n}</TableCell>
+                    <TableCell align="right">{row.reached}</TableCell>
+                    <TableCell align="right">{formatDays(row.medianDays)}</TableCell>
+                    <TableCell align="right">{row.group === controlGroup ? '—' : formatDays(row.delay)}</TableCell>
+                    <TableCell align="right">
+                      {row.group === controlGroup || !Number.isFinite(row.percentDelay) ? '—' : `${row.percentDelay.toFixed(1)}%`}
+                    </TableCell>
+                    <TableCell align="right">
+                      {!Number.isFinite(row.pValue) ? '—' : row.pValue < 0.001 ? '<0.001' : row.pValue.toFixed(3)}
+                    </TableCell>
+                    <TableCell align="center">{Number.isFinite(row.pValue) ? getSignificanceLevel(row.pValue) : ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle1" sx={{ mb: 1, color: '#8A0051', fontWeight: 600 }}>
+            Days to {targetDescription} by Animal
+          </Typography>
+          <TableContainer component={Paper} sx={{ maxHeight: 300 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell><strong>Animal</strong></TableCell>
+                  <TableCell><strong>Group</strong></TableCell>
+                  <TableCell align="right"><strong>Baseline{volumeSuffix}</strong></TableCell>
+                  <TableCell align="right"><strong>Target{volumeSuffix}</strong></TableCell>
+                  <TableCell align="right"><strong>Day Reached</strong></TableCell>
+                  <TableCell align="right"><strong>Last Observation</strong></TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sortedCrossings.map(c => (
+                  <TableRow key={c.animalId}>
+                    <TableCell>{c.animalId}</TableCell>
+                    <TableCell sx={{ color: colorManager.getColor(c.group) }}>{labelFor(c.group)}</TableCell>
+                    <TableCell align="right">{c.baseline.toFixed(1)}</TableCell>
+                    <TableCell align="right">{c.targetVolume.toFixed(1)}</TableCell>
+                    <TableCell align="right">{c.day === null ? 'Not reached' : c.day.toFixed(1)}</TableCell>
+                    <TableCell align="right">{c.lastDay}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Alert severity="info" sx={{ mt: 2 }}>
+            <Typography variant="body2">
+              <strong>Statistical Methods:</strong> Day each animal reached {targetDescription}, interpolated
+              {interpolation === 'log_linear' ? ' on log volume' : ' linearly'} between the visits either side.
+              Tumour growth delay T − C is the difference in median days between each group and {labelFor(controlGroup)};
+              %T − C is that difference as a percentage of the control median.{' '}
+              {nonReachers === 'censor'
+                ? 'Animals not reaching the target are censored at their last observation (Kaplan-Meier medians, NR: not reached) and groups compared with the log-rank test.'
+                : nonReachers === 'last_day'
+                  ? 'Animals not reaching the target are assigned their last observation day (a conservative delay) and groups compared with the Mann-Whitney U test.'
+                  : 'Animals not reaching the target are excluded and groups compared with the Mann-Whitney U test.'}
+            </Typography>
+          </Alert>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default TumorGrowthDelay;
@@ -38,7 +38,7 @@ const TumorGrowthInhibitionAnalysis: React.FC<TumorGrowthInhibitionAnalysisProps
     const tsa = new TumorStatisticalAnalysis();
     const control = groups[controlGroup];
     const treatments = groupNames.filter(g => g !== controlGroup).map(name => ({ name, animals: groups[name] }));
-    return tsa.calculateAdvancedTGI(control, treatments, allTimepoints);
+    return tsa.calculateAdvancedTGI(control, treatments, allTimepoints, controlGroup);
   }, [groups, controlGroup, groupNames, allTimepoints]);
 
   // Prepare chart data
@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  Box, Typography, Checkbox, TextField,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+
+export interface WideColumnRow {
+  column: string;
+  day: string;
+  parameter: string;
+  included: boolean;
+}
+
+interface WideFormatEditorProps {
+  rows: WideColumnRow[];
+  onChange: (rows: WideColumnRow[]) => void;
+}
+
+// Table for confirming which columns hold which study day and parameter in a wide-format sheet
+const WideFormatEditor: React.FC<WideFormatEditorProps> = ({ rows, onChange }) => {
+  const updateRow = (column: string, changes: Partial<WideColumnRow>) => {
+    onChange(rows.map(row => (row.column === column ? { ...row, ...changes } : row)));
+  };
+
+  const includedCount = rows.filter(r => r.included).length;
+
+  return (
+    <Box>
+      <Typography gutterBottom sx={{ fontWeight: 500, color: '#8A0051' }}>
+        📆 Confirm the <b>study day</b> and <b>parameter</b> for each day column
+      </Typography>
+      <Typography variant="body2" sx={{ mb: 1, color: '#666' }}>
+        Day-like headers were detected automatically. Tick any other columns to include and enter their day.
+      </Typography>
+      <TableContainer component={Paper} sx={{ maxHeight: 280 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell sx={{ fontWeight: 600 }}>Column</TableCell>
+              <TableCell sx={{ fontWeight: 600, width: 110 }}>Study Day</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Parameter</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => {
+              const dayInvalid = row.included && (row.day.trim() === '' || isNaN(Number(row.day)));
+              return (
+                <TableRow key={row.column} sx={{ opacity: row.included ? 1 : 0.6 }}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={row.included}
+                      onChange={e => updateRow(row.column, { included: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>{row.column}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={row.day}
+                      error={dayInvalid}
+                      disabled={!row.included}
+                      onChange={e => updateRow(row.column, { day: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      value={row.parameter}
+                      error={row.included && !row.parameter.trim()}
+                      disabled={!row.included}
+                      onChange={e => updateRow(row.column, { parameter: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
+        {includedCount} column(s) will be unpivoted into one row per animal and study day.
+      </Typography>
+    </Box>
+  );
+};
+
+export default WideFormatEditor;
@@ -1,3 +1,6 @@
+import { AnimalIdMatcher } from './AnimalIdMatcher';
+import { parseNumber } from './NumberParsing';
+
 export interface Measurement {
   studyDay: number;
   date?: string;
@@ -14,15 +17,20 @@ export interface AnimalRecord {
 
 export class AnimalDataManager {
   animals: Map<string, AnimalRecord>;
+  // Folds ID variants ("M-01", "m01", 1) onto one animal
+  idMatcher: AnimalIdMatcher;
 
   constructor() {
     this.animals = new Map();
+    this.idMatcher = new AnimalIdMatcher();
   }
 
   // Consolidate data from raw rows (array of objects)
   consolidateData(rawRows: Record<string, any>[]) {
     rawRows.forEach(row => {
-      const animalId = row.Animal_ID || row.AnimalID || row.animalId;
+      const rawId = row.Animal_ID || row.AnimalID || row.animalId;
+      if (!rawId) return;
+      const animalId = this.idMatcher.resolve(rawId)?.id;
       if (!animalId) return;
       if (!this.animals.has(animalId)) {
         this.animals.set(animalId, {
@@ -54,8 +62,9 @@ export class AnimalDataManager {
     // Add all measurement values
     Object.keys(row).forEach(key => {
       if (!['Animal_ID','AnimalID','animalId','Study_Day','Day','studyDay','Date','Measurement_Date'].includes(key)) {
-        const value = parseFloat(row[key]);
-        if (!isNaN(value)) {
+        // Strict, so "123,4" or "12 mm" isn't cut down to a number; text was parsed per locale at import
+        const value = parseNumber(row[key]);
+        if (value !== null) {
           measurement!.measurements[key] = value;
         } else if (row[key] !== undefined && row[key] !== null && row[key] !== '') {
           measurement!.measurements[key] = row[key];
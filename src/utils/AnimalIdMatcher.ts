@@ -0,0 +1,126 @@
+// Animal ID normalisation: match IDs that differ only in whitespace, case, separators, leading zeros
+// or number-vs-text form, plus a user-maintained alias table for anything the rules can't resolve
+
+export type IdMatchRule = 'exact' | 'alias' | 'trim' | 'case' | 'separators' | 'leading_zeros' | 'numeric';
+
+export const ID_MATCH_RULE_LABELS: Record<IdMatchRule, string> = {
+  exact: 'Exact',
+  alias: 'Alias table',
+  trim: 'Whitespace trimmed',
+  case: 'Case ignored',
+  separators: 'Separators ignored',
+  leading_zeros: 'Leading zeros ignored',
+  numeric: 'Number matched to ID digits'
+};
+
+// Raw ID as written in a source -> canonical animal ID
+export type IdAliases = Record<string, string>;
+
+export interface IdMatch {
+  raw: string;
+  id: string;
+  rule: IdMatchRule;
+}
+
+const stripSeparators = (id: string) => id.trim().toLowerCase().replace(/[\s\-_./:#]+/g, '');
+const stripLeadingZeros = (id: string) => stripSeparators(id).replace(/(^|\D)0+(?=\d)/g, '$1');
+
+// Successively looser normal forms; an ID matches at the first level where its form is known
+const NORMALIZERS: [IdMatchRule, (id: string) => string][] = [
+  ['trim', id => id.trim()],
+  ['case', id => id.trim().toLowerCase()],
+  ['separators', stripSeparators],
+  ['leading_zeros', stripLeadingZeros]
+];
+
+// Excel hands numeric IDs over as numbers; treat them as their text form
+export const rawAnimalId = (value: unknown): string => String(value ?? '');
+
+// Digits of an ID with a single run of digits (leading zeros dropped), e.g. "M-007" -> "7"
+function digitCore(id: string): string | null {
+  const runs = stripSeparators(id).match(/\d+/g);
+  return runs && runs.length === 1 ? String(Number(runs[0])) : null;
+}
+
+const isNumericId = (id: string) => /^\d+$/.test(stripSeparators(id));
+
+export class AnimalIdMatcher {
+  private known = new Set<string>();
+  private forms: Map<string, string>[] = NORMALIZERS.map(() => new Map());
+  // Digit core -> ID; null when several known IDs share the core
+  private digitCores = new Map<string, string | null>();
+  private numericIds = new Map<string, string | null>();
+  private aliases: Map<string, string>;
+
+  constructor(aliases: IdAliases = {}) {
+    this.aliases = new Map(Object.entries(aliases).map(([raw, id]) => [raw.trim(), id]));
+  }
+
+  // Register a known animal ID
+  add(id: string) {
+    if (this.known.has(id)) return;
+    this.known.add(id);
+    NORMALIZERS.forEach(([, normalize], level) => {
+      const form = normalize(id);
+      if (!this.forms[level].has(form)) this.forms[level].set(form, id);
+    });
+    const core = digitCore(id);
+    if (core !== null) {
+      const target = isNumericId(id) ? this.numericIds : this.digitCores;
+      target.set(core, target.has(core) && target.get(core) !== id ? null : id);
+    }
+  }
+
+  getKnownIds(): string[] {
+    return Array.from(this.known);
+  }
+
+  // Find the known animal a raw ID refers to, or null if no rule matches
+  match(value: unknown): IdMatch | null {
+    const raw = rawAnimalId(value);
+    if (!raw.trim()) return null;
+
+    if (this.known.has(raw)) return { raw, id: raw, rule: 'exact' };
+
+    const alias = this.aliases.get(raw.trim());
+    if (alias) return { raw, id: alias, rule: 'alias' };
+
+    for (let level = 0; level < NORMALIZERS.length; level++) {
+      const [rule, normalize] = NORMALIZERS[level];
+      const id = this.forms[level].get(normalize(raw));
+      if (id !== undefined) return { raw, id, rule };
+    }
+
+    // A bare number against IDs like "M-01", or an ID like "M-01" against bare numbers
+    const core = digitCore(raw);
+    if (core !== null) {
+      const id = isNumericId(raw) ? this.digitCores.get(core) : this.numericIds.get(core);
+      if (id) return { raw, id, rule: 'numeric' };
+    }
+    return null;
+  }
+
+  // Match to a known animal, registering the ID as a new animal when nothing matches
+  resolve(value: unknown): IdMatch | null {
+    const match = this.match(value);
+    if (match) {
+      this.add(match.id);
+      return match;
+    }
+    const id = rawAnimalId(value).trim();
+    if (!id) return null;
+    this.add(id);
+    return { raw: rawAnimalId(value), id, rule: 'exact' };
+  }
+}
+
+// "3 separators ignored, 1 alias table" for matches that needed more than an exact comparison
+export function summarizeIdMatches(matches: IdMatch[]): string {
+  const counts = new Map<IdMatchRule, number>();
+  matches
+    .filter(m => m.rule !== 'exact')
+    .forEach(m => counts.set(m.rule, (counts.get(m.rule) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([rule, count]) => `${count} × ${ID_MATCH_RULE_LABELS[rule].toLowerCase()}`)
+    .join(', ');
+}
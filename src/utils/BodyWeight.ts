@@ -0,0 +1,153 @@
+// Body-weight toxicity: % change from each animal's baseline, group nadir, and humane-endpoint flags
+// for configurable loss limits and sustained-loss rules
+
+import Papa from 'papaparse';
+import type { ParsedData } from '../components/FileUpload';
+import { mean, standardError } from './StatisticalAnalysis';
+
+export interface BodyWeightSettings {
+  parameter: string;
+  // % loss from baseline that raises a warning, and that marks a humane endpoint
+  warningLoss: number;
+  endpointLoss: number;
+  // Endpoint when the loss stays at or above sustainedLoss for this many consecutive weighings; 0 turns the rule off
+  sustainedLoss: number;
+  sustainedVisits: number;
+}
+
+export const defaultBodyWeightSettings = (parameter: string): BodyWeightSettings => ({
+  parameter,
+  warningLoss: 15,
+  endpointLoss: 20,
+  sustainedLoss: 15,
+  sustainedVisits: 0
+});
+
+export interface WeightChange {
+  animalId: string;
+  group: string;
+  day: number;
+  weight: number;
+  // % change from the animal's first weighing
+  change: number;
+}
+
+export type FlagLevel = 'warning' | 'endpoint';
+
+export const FLAG_LEVEL_LABELS: Record<FlagLevel, string> = {
+  warning: 'Warning',
+  endpoint: 'Humane endpoint'
+};
+
+export interface BodyWeightFlag {
+  animalId: string;
+  group: string;
+  level: FlagLevel;
+  rule: string;
+  // First weighing at which the rule was met
+  day: number;
+  weight: number;
+  change: number;
+}
+
+export interface GroupWeightCurve {
+  group: string;
+  days: number[];
+  meanChange: number[];
+  sem: number[];
+  n: number[];
+  // Lowest group mean % change and the day it was reached
+  nadir: number;
+  nadirDay: number;
+}
+
+// Body-weight columns by name, for defaulting the parameter
+export const guessBodyWeightParameter = (parameters: string[]) =>
+  parameters.find(p => /body.?weight|^bw$|weight/i.test(p)) || '';
+
+export function weightChanges(data: ParsedData, parameter: string, groupField: string): WeightChange[] {
+  const animals = new Map<string, { group: string; weighings: { day: number; weight: number }[] }>();
+  data.forEach(row => {
+    const group = row[groupField];
+    const day = Number(row.studyDay);
+    const weight = row[parameter];
+    if (!row.animalId || !group || isNaN(day) || typeof weight !== 'number' || !Number.isFinite(weight)) return;
+    const id = String(row.animalId);
+    const animal = animals.get(id) || { group: String(group), weighings: [] };
+    animal.weighings.push({ day, weight });
+    animals.set(id, animal);
+  });
+
+  const changes: WeightChange[] = [];
+  animals.forEach(({ group, weighings }, animalId) => {
+    weighings.sort((a, b) => a.day - b.day);
+    const baseline = weighings[0].weight;
+    if (!(baseline > 0)) return;
+    weighings.forEach(({ day, weight }) => {
+      changes.push({ animalId, group, day, weight, change: (weight - baseline) / baseline * 100 });
+    });
+  });
+  return changes;
+}
+
+export function groupWeightCurves(changes: WeightChange[], groups: string[]): GroupWeightCurve[] {
+  return groups.map(group => {
+    const members = changes.filter(c => c.group === group);
+    const days = Array.from(new Set(members.map(c => c.day))).sort((a, b) => a - b);
+    const byDay = days.map(day => members.filter(c => c.day === day).map(c => c.change));
+    const meanChange = byDay.map(values => mean(values));
+    const nadirIndex = meanChange.reduce((lowest, value, i) => (value < meanChange[lowest] ? i : lowest), 0);
+    return {
+      group,
+      days,
+      meanChange,
+      sem: byDay.map(values => (values.length > 1 ? standardError(values) : 0)),
+      n: byDay.map(values => values.length),
+      nadir: days.length > 0 ? meanChange[nadirIndex] : NaN,
+      nadirDay: days.length > 0 ? days[nadirIndex] : NaN
+    };
+  });
+}
+
+// First weighing at which each animal met each rule; an animal is flagged at most once per rule
+export function bodyWeightFlags(changes: WeightChange[], settings: BodyWeightSettings): BodyWeightFlag[] {
+  const byAnimal = new Map<string, WeightChange[]>();
+  changes.forEach(c => byAnimal.set(c.animalId, [...(byAnimal.get(c.animalId) || []), c]));
+
+  const flags: BodyWeightFlag[] = [];
+  const flag = (c: WeightChange, level: FlagLevel, rule: string) => flags.push({
+    animalId: c.animalId, group: c.group, level, rule, day: c.day, weight: c.weight, change: c.change
+  });
+
+  byAnimal.forEach(weighings => {
+    const endpoint = weighings.find(c => -c.change >= settings.endpointLoss);
+    const warning = weighings.find(c => -c.change >= settings.warningLoss);
+    if (warning && settings.warningLoss < settings.endpointLoss) flag(warning, 'warning', `≥ ${settings.warningLoss}% loss`);
+    if (endpoint) flag(endpoint, 'endpoint', `≥ ${settings.endpointLoss}% loss`);
+
+    if (settings.sustainedVisits > 0) {
+      let run = 0;
+      const sustained = weighings.find(c => {
+        run = -c.change >= settings.sustainedLoss ? run + 1 : 0;
+        return run >= settings.sustainedVisits;
+      });
+      if (sustained) flag(sustained, 'endpoint', `≥ ${settings.sustainedLoss}% loss on ${settings.sustainedVisits} consecutive weighings`);
+    }
+  });
+
+  return flags.sort((a, b) =>
+    (a.level === b.level ? 0 : a.level === 'endpoint' ? -1 : 1) || a.day - b.day || a.animalId.localeCompare(b.animalId)
+  );
+}
+
+// Flags as a CSV for the study log
+export const flagsToCsv = (flags: BodyWeightFlag[], labelFor: (group: string) => string = group => group) =>
+  Papa.unparse(flags.map(f => ({
+    'Animal ID': f.animalId,
+    Group: labelFor(f.group),
+    Level: FLAG_LEVEL_LABELS[f.level],
+    Rule: f.rule,
+    'Study Day': f.day,
+    'Body Weight': f.weight,
+    'Change (%)': Number(f.change.toFixed(1))
+  })));
@@ -0,0 +1,34 @@
+// Cells pasted from a spreadsheet or a chat message, read into sheet rows for the header preview
+
+import Papa from 'papaparse';
+import { applyHeaderLayout, detectHeaderLayout, type ParsedSheet, type SheetRow } from './HeaderDetection';
+import { parseNumber } from './NumberParsing';
+
+// Excel copies cells as tab-separated text, quoting cells that contain tabs or line breaks.
+// Text without tabs (retyped or reformatted in a chat) falls back to Papa's delimiter guess.
+export function parseClipboardTable(text: string): SheetRow[] {
+  const trimmed = text.replace(/^\uFEFF/, '').replace(/[\r\n]+$/, '');
+  if (!trimmed.trim()) return [];
+  const result = Papa.parse<string[]>(trimmed, {
+    delimiter: trimmed.includes('\t') ? '\t' : '',
+    delimitersToGuess: [',', ';', '|'],
+    skipEmptyLines: 'greedy'
+  });
+  const rows = result.data.map(row => row.map(cell => cell.trim()));
+  // Rows of a block copied out of Excel all have the same width; pad any ragged ones from chat pastes
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return rows.map(row => [...row, ...Array(width - row.length).fill('')]);
+}
+
+// A header row has labels only: no cell reads as a number in either decimal format
+export function looksLikeHeaderRow(row: SheetRow | undefined): boolean {
+  if (!row || row.every(cell => String(cell ?? '').trim() === '')) return false;
+  return row.every(cell => parseNumber(cell) === null && parseNumber(cell, 'comma') === null);
+}
+
+// Pasted block as a sheet; without a header row the columns are named "Column 1", "Column 2", ...
+export function pastedSheet(rows: SheetRow[], hasHeaderRow: boolean): ParsedSheet {
+  const allRows = hasHeaderRow ? rows : [rows[0]?.map((_, i) => `Column ${i + 1}`) || [], ...rows];
+  const layout = hasHeaderRow ? detectHeaderLayout(allRows) : { headerStart: 0, headerEnd: 0, dataStart: 1 };
+  return applyHeaderLayout({ allRows, hasMerges: false }, layout);
+}
@@ -0,0 +1,241 @@
+// Cox proportional hazards regression (Efron ties) for hazard ratios of treatment groups versus a
+// reference, optionally adjusted for baseline measurements and metadata factors
+
+import type { ParsedData } from '../components/FileUpload';
+import { chiSquarePValue, normalCDF, normalQuantile } from './StatisticalAnalysis';
+import { dot, invert, multiplyVector, type Matrix } from './Matrix';
+import type { SurvivalSubject } from './SurvivalAnalysis';
+
+export interface ChiSquareTest {
+  chiSquare: number;
+  df: number;
+  pValue: number;
+}
+
+export interface CoxTerm {
+  name: string;
+  coefficient: number;
+  standardError: number;
+  hazardRatio: number;
+  lower: number;
+  upper: number;
+  z: number;
+  pValue: number;
+}
+
+export interface CoxFit {
+  terms: CoxTerm[];
+  n: number;
+  events: number;
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  likelihoodRatio: ChiSquareTest;
+  wald: ChiSquareTest;
+  iterations: number;
+  // False when Newton-Raphson did not settle, typically a group with no events (infinite hazard ratio)
+  converged: boolean;
+}
+
+// Covariate matrix for the model, one row per animal kept
+export interface CoxDesign {
+  times: number[];
+  events: boolean[];
+  rows: number[][];
+  names: string[];
+  // Animals dropped for missing covariate values
+  excluded: string[];
+}
+
+export interface CoxAdjustments {
+  // Parameter whose first measurement is entered per baselineScale units; blank for none
+  baselineParameter: string;
+  baselineScale: number;
+  // Metadata fields entered as factors, each level against its most common level
+  factors: string[];
+}
+
+const MAX_ITERATIONS = 50;
+
+interface PartialLikelihood {
+  logLikelihood: number;
+  gradient: number[];
+  information: Matrix;
+}
+
+// Efron-approximated partial likelihood with its gradient and observed information
+function partialLikelihood(times: number[], events: boolean[], rows: number[][], beta: number[]): PartialLikelihood {
+  const p = beta.length;
+  const risk = rows.map(x => Math.exp(dot(x, beta)));
+  const gradient = new Array<number>(p).fill(0);
+  const information: Matrix = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  let logLikelihood = 0;
+
+  const eventTimes = Array.from(new Set(times.filter((_, i) => events[i]))).sort((a, b) => a - b);
+  eventTimes.forEach(time => {
+    const atRisk = times.map((t, i) => i).filter(i => times[i] >= time);
+    const tied = atRisk.filter(i => times[i] === time && events[i]);
+    const d = tied.length;
+
+    const sums = (indices: number[]) => {
+      const s0 = indices.reduce((sum, i) => sum + risk[i], 0);
+      const s1 = new Array<number>(p).fill(0);
+      const s2: Matrix = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+      indices.forEach(i => {
+        for (let j = 0; j < p; j++) {
+          s1[j] += risk[i] * rows[i][j];
+          for (let k = 0; k < p; k++) s2[j][k] += risk[i] * rows[i][j] * rows[i][k];
+        }
+      });
+      return { s0, s1, s2 };
+    };
+    const all = sums(atRisk);
+    const ties = sums(tied);
+
+    tied.forEach(i => {
+      logLikelihood += dot(rows[i], beta);
+      for (let j = 0; j < p; j++) gradient[j] += rows[i][j];
+    });
+    for (let l = 0; l < d; l++) {
+      const f = l / d;
+      const s0 = all.s0 - f * ties.s0;
+      const s1 = all.s1.map((value, j) => value - f * ties.s1[j]);
+      logLikelihood -= Math.log(s0);
+      for (let j = 0; j < p; j++) {
+        gradient[j] -= s1[j] / s0;
+        for (let k = 0; k < p; k++) {
+          information[j][k] += (all.s2[j][k] - f * ties.s2[j][k]) / s0 - (s1[j] * s1[k]) / (s0 * s0);
+        }
+      }
+    }
+  });
+  return { logLikelihood, gradient, information };
+}
+
+// Newton-Raphson with step halving
+export function fitCox(design: CoxDesign, confidence = 0.95): CoxFit {
+  const { times, events, rows, names } = design;
+  const p = names.length;
+  let beta = new Array<number>(p).fill(0);
+  let current = partialLikelihood(times, events, rows, beta);
+  const nullLogLikelihood = current.logLikelihood;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+    const inverse = invert(current.information);
+    if (!inverse) break;
+    const step = multiplyVector(inverse, current.gradient);
+    let scale = 1;
+    let next = partialLikelihood(times, events, rows, beta.map((b, j) => b + step[j]));
+    while (next.logLikelihood < current.logLikelihood - 1e-12 && scale > 1e-4) {
+      scale /= 2;
+      next = partialLikelihood(times, events, rows, beta.map((b, j) => b + scale * step[j]));
+    }
+    beta = beta.map((b, j) => b + scale * step[j]);
+    const change = Math.abs(next.logLikelihood - current.logLikelihood);
+    current = next;
+    if (change < 1e-9) {
+      converged = true;
+      break;
+    }
+  }
+
+  const covariance = invert(current.information);
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const terms: CoxTerm[] = names.map((name, j) => {
+    const coefficient = beta[j];
+    const standardError = covariance ? Math.sqrt(covariance[j][j]) : NaN;
+    const wald = coefficient / standardError;
+    return {
+      name,
+      coefficient,
+      standardError,
+      hazardRatio: Math.exp(coefficient),
+      lower: Math.exp(coefficient - z * standardError),
+      upper: Math.exp(coefficient + z * standardError),
+      z: wald,
+      pValue: Number.isFinite(wald) ? 2 * (1 - normalCDF(Math.abs(wald))) : NaN
+    };
+  });
+
+  const lrStatistic = 2 * (current.logLikelihood - nullLogLikelihood);
+  const waldStatistic = dot(beta, multiplyVector(current.information, beta));
+  // Coefficients running off to infinity leave a tiny information matrix; treat as not converged
+  const stable = converged && beta.every(b => Math.abs(b) < 15);
+
+  return {
+    terms,
+    n: times.length,
+    events: events.filter(Boolean).length,
+    logLikelihood: current.logLikelihood,
+    nullLogLikelihood,
+    likelihoodRatio: { chiSquare: lrStatistic, df: p, pValue: chiSquarePValue(lrStatistic, p) },
+    wald: { chiSquare: waldStatistic, df: p, pValue: chiSquarePValue(waldStatistic, p) },
+    iterations,
+    converged: stable
+  };
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Treatment indicators against the reference group, then the adjustments
+export function coxDesign(
+  subjects: SurvivalSubject[],
+  data: ParsedData,
+  groups: string[],
+  referenceGroup: string,
+  adjustments: CoxAdjustments,
+  labelFor: (group: string) => string = group => group
+): CoxDesign {
+  const rowsByAnimal = new Map<string, ParsedData>();
+  data.forEach(row => {
+    const id = String(row.animalId);
+    rowsByAnimal.set(id, [...(rowsByAnimal.get(id) || []), row]);
+  });
+
+  const baseline = (animalId: string): number | null => {
+    const measured = (rowsByAnimal.get(animalId) || [])
+      .filter(row => typeof row[adjustments.baselineParameter] === 'number')
+      .sort((a, b) => Number(a.studyDay) - Number(b.studyDay));
+    return measured.length > 0 ? (measured[0][adjustments.baselineParameter] as number) : null;
+  };
+  const factorValue = (animalId: string, field: string): string | null => {
+    const row = (rowsByAnimal.get(animalId) || []).find(r => !isBlank(r[field]));
+    return row ? String(row[field]).trim() : null;
+  };
+
+  const treated = groups.filter(group => group !== referenceGroup);
+  const kept = subjects.filter(s => groups.includes(s.group));
+  const excluded: string[] = [];
+  const usable = kept.filter(s => {
+    const ok = (!adjustments.baselineParameter || baseline(s.animalId) !== null) &&
+      adjustments.factors.every(field => factorValue(s.animalId, field) !== null);
+    if (!ok) excluded.push(s.animalId);
+    return ok;
+  });
+
+  // Levels of each factor, the most common one first as its reference
+  const factorLevels = adjustments.factors.map(field => {
+    const counts = new Map<string, number>();
+    usable.forEach(s => {
+      const value = factorValue(s.animalId, field)!;
+      counts.set(value, (counts.get(value) || 0) + 1);
+    });
+    return { field, levels: Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([level]) => level) };
+  });
+
+  const names = [
+    ...treated.map(group => `${labelFor(group)} vs ${labelFor(referenceGroup)}`),
+    ...(adjustments.baselineParameter ? [`Baseline ${adjustments.baselineParameter} (per ${adjustments.baselineScale})`] : []),
+    ...factorLevels.flatMap(({ field, levels }) => levels.slice(1).map(level => `${field}: ${level} vs ${levels[0]}`))
+  ];
+
+  const rows = usable.map(s => [
+    ...treated.map(group => (s.group === group ? 1 : 0)),
+    ...(adjustments.baselineParameter ? [baseline(s.animalId)! / adjustments.baselineScale] : []),
+    ...factorLevels.flatMap(({ field, levels }) => levels.slice(1).map(level => (factorValue(s.animalId, field) === level ? 1 : 0)))
+  ]);
+
+  return { times: usable.map(s => s.time), events: usable.map(s => s.event), rows, names, excluded };
+}
@@ -0,0 +1,204 @@
+// Incremental import: fold newly imported animal/day rows into the current dataset and summarise what changed.
+// Re-import: compare a corrected file with the current dataset and apply the changes the user accepts.
+
+import type { ParsedData } from '../components/FileUpload';
+import { collectMappedTabs, mergeCollectedTabs, mergeKey, type MappedTab } from './TabMerge';
+import type { IdAliases } from './AnimalIdMatcher';
+import type { IssueResolutions } from './ImportValidation';
+
+export interface ValueChange {
+  animalId: string;
+  studyDay: number;
+  parameter: string;
+  // Undefined when the value is new
+  before?: unknown;
+  after: unknown;
+}
+
+export interface DatasetChanges {
+  newAnimals: string[];
+  newTimepoints: number[];
+  addedValues: ValueChange[];
+  changedValues: ValueChange[];
+  unchangedCount: number;
+}
+
+export interface FileChanges {
+  fileName: string;
+  changes: DatasetChanges;
+}
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export const DIFF_KIND_LABELS: Record<DiffKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed'
+};
+
+// One value that differs between the current dataset and a re-imported file
+export interface DiffEntry extends ValueChange {
+  id: string;
+  kind: DiffKind;
+}
+
+// An accepted re-import change, kept for the record
+export interface AcceptedChange extends DiffEntry {
+  fileName: string;
+}
+
+const KEY_FIELDS = new Set(['animalId', 'studyDay']);
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const rowKey = (row: Record<string, unknown>) => mergeKey(row.animalId, Number(row.studyDay));
+
+// What merging the incoming rows (one per animal and day, as built by mergeCollectedTabs) would change
+export function diffDataset(existing: ParsedData, incoming: ParsedData): DatasetChanges {
+  const existingByKey = new Map(existing.map(row => [rowKey(row), row]));
+  const existingAnimals = new Set(existing.map(row => String(row.animalId)));
+  const existingDays = new Set(existing.map(row => Number(row.studyDay)));
+  const newAnimals = new Set<string>();
+  const newTimepoints = new Set<number>();
+  const addedValues: ValueChange[] = [];
+  const changedValues: ValueChange[] = [];
+  let unchangedCount = 0;
+
+  incoming.forEach(row => {
+    const animalId = String(row.animalId);
+    const studyDay = Number(row.studyDay);
+    if (!existingAnimals.has(animalId)) newAnimals.add(animalId);
+    if (!existingDays.has(studyDay)) newTimepoints.add(studyDay);
+    const before = existingByKey.get(rowKey(row));
+
+    Object.keys(row).filter(key => !KEY_FIELDS.has(key) && !isBlank(row[key])).forEach(parameter => {
+      const change = { animalId, studyDay, parameter, after: row[parameter] };
+      if (!before || isBlank(before[parameter])) addedValues.push(change);
+      else if (before[parameter] !== row[parameter]) changedValues.push({ ...change, before: before[parameter] });
+      else unchangedCount++;
+    });
+  });
+
+  return {
+    newAnimals: Array.from(newAnimals),
+    newTimepoints: Array.from(newTimepoints).sort((a, b) => a - b),
+    addedValues,
+    changedValues,
+    unchangedCount
+  };
+}
+
+// Fields with the same value on every row of an animal (group, sex, ... from metadata),
+// copied onto its new rows so new timepoints stay in their group
+function animalMetadata(rows: ParsedData): Map<string, Record<string, unknown>> {
+  const rowsByAnimal = new Map<string, ParsedData>();
+  rows.forEach(row => {
+    const animalId = String(row.animalId);
+    rowsByAnimal.set(animalId, [...(rowsByAnimal.get(animalId) || []), row]);
+  });
+
+  const metadata = new Map<string, Record<string, unknown>>();
+  rowsByAnimal.forEach((animalRows, animalId) => {
+    const [first, ...rest] = animalRows;
+    const fields: Record<string, unknown> = {};
+    Object.keys(first)
+      .filter(key => !KEY_FIELDS.has(key) && !isBlank(first[key]))
+      .filter(key => rest.every(row => row[key] === first[key]))
+      .forEach(key => { fields[key] = first[key]; });
+    metadata.set(animalId, fields);
+  });
+  return metadata;
+}
+
+// Incoming values win over existing ones for the same animal, day and parameter
+export function appendToDataset(existing: ParsedData, incoming: ParsedData): ParsedData {
+  const result = existing.map(row => ({ ...row }));
+  const indexByKey = new Map(result.map((row, index) => [rowKey(row), index]));
+  const metadata = animalMetadata(existing);
+
+  incoming.forEach(row => {
+    const key = rowKey(row);
+    const index = indexByKey.get(key);
+    if (index !== undefined) {
+      result[index] = { ...result[index], ...row };
+    } else {
+      indexByKey.set(key, result.length);
+      result.push({ ...metadata.get(String(row.animalId)), ...row });
+    }
+  });
+  return result;
+}
+
+// Changes each file would make on its own, measured against the dataset before this import
+export function changesByFile(
+  existing: ParsedData,
+  tabs: MappedTab[],
+  aliases: IdAliases,
+  resolutions: IssueResolutions
+): FileChanges[] {
+  const existingIds = Array.from(new Set(existing.map(row => String(row.animalId))));
+  const fileNames = Array.from(new Set(tabs.map(tab => tab.fileName || '')));
+  return fileNames.map(fileName => {
+    const fileTabs = tabs.filter(tab => (tab.fileName || '') === fileName);
+    const rows = mergeCollectedTabs(collectMappedTabs(fileTabs, aliases, existingIds), resolutions);
+    return { fileName: fileName || fileTabs.map(tab => tab.tabName).join(', '), changes: diffDataset(existing, rows) };
+  });
+}
+
+// Added, removed and changed values of the re-imported parameters. Values of those parameters
+// that the corrected file no longer has count as removed, but only for animals and days the file
+// covers: a study built from several files keeps what the other files contributed.
+// Other parameters are left alone.
+export function reimportDiff(existing: ParsedData, incoming: ParsedData, parameters: string[]): DiffEntry[] {
+  const incomingByKey = new Map(incoming.map(row => [rowKey(row), row]));
+  const incomingAnimals = new Set(incoming.map(row => String(row.animalId)));
+  const incomingDays = new Set(incoming.map(row => Number(row.studyDay)));
+  const entries: DiffEntry[] = [];
+  const entry = (kind: DiffKind, animalId: string, studyDay: number, parameter: string, before: unknown, after: unknown) => {
+    entries.push({ id: `${mergeKey(animalId, studyDay)}|${parameter}`, kind, animalId, studyDay, parameter, before, after });
+  };
+
+  const { changedValues, addedValues } = diffDataset(existing, incoming);
+  addedValues.forEach(v => entry('added', v.animalId, v.studyDay, v.parameter, undefined, v.after));
+  changedValues.forEach(v => entry('changed', v.animalId, v.studyDay, v.parameter, v.before, v.after));
+
+  existing.forEach(row => {
+    if (!incomingAnimals.has(String(row.animalId)) || !incomingDays.has(Number(row.studyDay))) return;
+    const after = incomingByKey.get(rowKey(row));
+    parameters.forEach(parameter => {
+      if (isBlank(row[parameter]) || (after && !isBlank(after[parameter]))) return;
+      entry('removed', String(row.animalId), Number(row.studyDay), parameter, row[parameter], undefined);
+    });
+  });
+
+  return entries.sort((a, b) =>
+    a.animalId.localeCompare(b.animalId) || a.studyDay - b.studyDay || a.parameter.localeCompare(b.parameter)
+  );
+}
+
+// The current dataset with the accepted changes applied. A row that loses values and has no
+// measurements (numeric values) left is dropped rather than kept as an empty animal/day
+export function applyDiffEntries(existing: ParsedData, entries: DiffEntry[]): ParsedData {
+  const incoming = new Map<string, Record<string, unknown>>();
+  entries.filter(e => e.kind !== 'removed').forEach(e => {
+    const key = mergeKey(e.animalId, e.studyDay);
+    const row = incoming.get(key) || { animalId: e.animalId, studyDay: e.studyDay };
+    row[e.parameter] = e.after;
+    incoming.set(key, row);
+  });
+
+  const removed = new Set(entries.filter(e => e.kind === 'removed').map(e => e.id));
+  const result = appendToDataset(existing, Array.from(incoming.values()));
+  if (removed.size === 0) return result;
+  return result.flatMap(row => {
+    const next = { ...row };
+    let lostValues = false;
+    Object.keys(next).forEach(parameter => {
+      if (!removed.has(`${rowKey(row)}|${parameter}`)) return;
+      delete next[parameter];
+      lostValues = true;
+    });
+    const hasMeasurements = Object.keys(next).some(key => !KEY_FIELDS.has(key) && typeof next[key] === 'number');
+    return lostValues && !hasMeasurements ? [] : [next];
+  });
+}
@@ -0,0 +1,90 @@
+// Record of how the current dataset was derived at import, shown alongside the analyses and in PDF reports
+
+import { withUnit, type UnitCode } from './Units';
+import type { AcceptedChange, DiffKind } from './DatasetDiff';
+
+export interface DatasetProvenance {
+  // Files the data was imported from, in import order
+  sourceFiles: string[];
+  // How study day 0 was set when dates were converted to study days
+  dayZeroRule?: string;
+  volumeFormulas: string[];
+  // Unit each parameter is stored in, and the conversions made to get there
+  parameterUnits: Record<string, UnitCode>;
+  unitConversions: string[];
+  // How animal IDs that differed between sources were joined
+  idMatching: string[];
+  // Validation issues and how they were resolved before the data was committed
+  importResolutions: string[];
+  // Values changed by accepting corrections from re-imported files
+  acceptedChanges: AcceptedChange[];
+  // How animals were allocated to groups, when the randomisation tool was used
+  randomisation?: string;
+}
+
+export const emptyProvenance = (): DatasetProvenance => ({
+  sourceFiles: [],
+  volumeFormulas: [],
+  parameterUnits: {},
+  unitConversions: [],
+  idMatching: [],
+  importResolutions: [],
+  acceptedChanges: []
+});
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+// Provenance after a further import was added to the current study
+export function appendProvenance(previous: DatasetProvenance, added: DatasetProvenance): DatasetProvenance {
+  return {
+    sourceFiles: union(previous.sourceFiles, added.sourceFiles),
+    dayZeroRule: previous.dayZeroRule || added.dayZeroRule,
+    volumeFormulas: union(previous.volumeFormulas, added.volumeFormulas),
+    parameterUnits: { ...previous.parameterUnits, ...added.parameterUnits },
+    unitConversions: union(previous.unitConversions, added.unitConversions),
+    idMatching: [...previous.idMatching, ...added.idMatching],
+    importResolutions: [...previous.importResolutions, ...added.importResolutions],
+    acceptedChanges: [...previous.acceptedChanges, ...added.acceptedChanges],
+    randomisation: previous.randomisation || added.randomisation
+  };
+}
+
+// Methods statements in report order
+export function provenanceLines(provenance: DatasetProvenance): string[] {
+  const lines: string[] = [];
+  if (provenance.sourceFiles.length > 0) {
+    lines.push(`Source files: ${provenance.sourceFiles.join(', ')}`);
+  }
+  if (provenance.dayZeroRule) {
+    lines.push(`Study days anchored at import: ${provenance.dayZeroRule}`);
+  }
+  if (provenance.randomisation) {
+    lines.push(`Randomisation: ${provenance.randomisation}`);
+  }
+  provenance.volumeFormulas.forEach(formula => {
+    lines.push(`Tumor volume calculated at import: ${formula}`);
+  });
+  const units = Object.entries(provenance.parameterUnits);
+  if (units.length > 0) {
+    lines.push(`Parameter units: ${units.map(([name, unit]) => withUnit(name, unit)).join(', ')}`);
+  }
+  provenance.unitConversions.forEach(conversion => {
+    lines.push(`Units converted at import: ${conversion}`);
+  });
+  provenance.idMatching.forEach(line => {
+    lines.push(`Animal IDs matched: ${line}`);
+  });
+  if (provenance.importResolutions.length > 0) {
+    lines.push(`Import validation: ${provenance.importResolutions.join('; ')}`);
+  }
+  const changesByFile = new Map<string, Record<DiffKind, number>>();
+  provenance.acceptedChanges.forEach(change => {
+    const counts = changesByFile.get(change.fileName) || { added: 0, changed: 0, removed: 0 };
+    counts[change.kind]++;
+    changesByFile.set(change.fileName, counts);
+  });
+  changesByFile.forEach((counts, fileName) => {
+    lines.push(`Corrections accepted from ${fileName}: ${counts.changed} changed, ${counts.added} added, ${counts.removed} removed`);
+  });
+  return lines;
+}
@@ -0,0 +1,156 @@
+// Date handling for time columns: format detection, locale-specific parsing, Excel serial dates
+// and study-day arithmetic on calendar days (no time-of-day, so timezones and DST can't shift a day).
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'excel_serial';
+
+// What a mapped time column contains; 'auto' means detect from the values
+export type TimeColumnFormat = 'auto' | 'study_day' | DateFormat;
+
+export const TIME_FORMAT_LABELS: Record<TimeColumnFormat, string> = {
+  auto: 'Auto-detect',
+  study_day: 'Study day (number)',
+  iso: 'Date: YYYY-MM-DD',
+  dmy: 'Date: DD/MM/YYYY, DD.MM.YYYY, DD-MM-YYYY',
+  mdy: 'Date: MM/DD/YYYY',
+  excel_serial: 'Excel serial date number'
+};
+
+export interface TimeFormatDetection {
+  format: Exclude<TimeColumnFormat, 'auto'>;
+  // True when day and month could not be told apart (every component <= 12)
+  ambiguous: boolean;
+}
+
+const ISO_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s].*)?$/;
+const DAY_MONTH_YEAR_PATTERN = /^(\d{1,2})([./-])(\d{1,2})\2(\d{2}|\d{4})(?:\s.*)?$/;
+
+// Excel's 1900 date system: serial 25569 is 1970-01-01, and serial 60 is the non-existent 1900-02-29
+const EXCEL_EPOCH_OFFSET = 25569;
+const EXCEL_LEAP_BUG_SERIAL = 60;
+// Plausible serials for study dates (1954-2119); study days never get this large
+const MIN_PLAUSIBLE_SERIAL = 20000;
+const MAX_PLAUSIBLE_SERIAL = 80000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Days since 1970-01-01 for a calendar date, or null if the date does not exist
+export function toEpochDay(year: number, month: number, day: number): number | null {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const ms = Date.UTC(year, month - 1, day);
+  const check = new Date(ms);
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return Math.round(ms / MS_PER_DAY);
+}
+
+// ISO YYYY-MM-DD string for an epoch day
+export function formatEpochDay(epochDay: number): string {
+  const d = new Date(epochDay * MS_PER_DAY);
+  const yyyy = d.getUTCFullYear();
+  const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(d.getUTCDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function expandYear(year: string): number {
+  const y = Number(year);
+  return year.length === 2 ? 2000 + y : y;
+}
+
+function excelSerialToEpochDay(serial: number): number | null {
+  if (!Number.isFinite(serial) || serial < 1) return null;
+  const whole = Math.floor(serial);
+  if (whole === EXCEL_LEAP_BUG_SERIAL) return null;
+  return whole < EXCEL_LEAP_BUG_SERIAL ? whole - EXCEL_EPOCH_OFFSET + 1 : whole - EXCEL_EPOCH_OFFSET;
+}
+
+// Parse a cell into an epoch day using the given format. Date objects are accepted regardless of format.
+export function parseDateValue(value: unknown, format: DateFormat): number | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return toEpochDay(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+
+  if (format === 'excel_serial') {
+    const serial = typeof value === 'number' ? value : Number(String(value).trim());
+    return excelSerialToEpochDay(serial);
+  }
+
+  const text = String(value).trim();
+
+  if (format === 'iso') {
+    const m = text.match(ISO_PATTERN);
+    return m ? toEpochDay(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+  }
+
+  const m = text.match(DAY_MONTH_YEAR_PATTERN);
+  if (!m) return null;
+  const first = Number(m[1]);
+  const second = Number(m[3]);
+  const year = expandYear(m[4]);
+  return format === 'dmy' ? toEpochDay(year, second, first) : toEpochDay(year, first, second);
+}
+
+// Work out what a time column contains from its values (and header, for Excel serials)
+export function detectTimeFormat(values: unknown[], header = ''): TimeFormatDetection {
+  const present = values.filter(v => v !== undefined && v !== null && v !== '');
+  if (present.length === 0) return { format: 'study_day', ambiguous: false };
+
+  if (present.some(v => v instanceof Date)) return { format: 'iso', ambiguous: false };
+
+  const strings = present
+    .filter(v => typeof v === 'string' && isNaN(Number(v)))
+    .map(v => String(v).trim());
+
+  if (strings.length > 0) {
+    if (strings.filter(s => ISO_PATTERN.test(s)).length >= strings.length / 2) {
+      return { format: 'iso', ambiguous: false };
+    }
+
+    const parts = strings
+      .map(s => s.match(DAY_MONTH_YEAR_PATTERN))
+      .filter((m): m is RegExpMatchArray => m !== null);
+    if (parts.length >= strings.length / 2) {
+      if (parts.some(m => Number(m[1]) > 12)) return { format: 'dmy', ambiguous: false };
+      if (parts.some(m => Number(m[3]) > 12)) return { format: 'mdy', ambiguous: false };
+      // Dotted dates are a European convention
+      if (parts.every(m => m[2] === '.')) return { format: 'dmy', ambiguous: true };
+      return { format: 'mdy', ambiguous: true };
+    }
+  }
+
+  const numbers = present.map(v => Number(v)).filter(n => Number.isFinite(n));
+  if (numbers.length > 0) {
+    const allSerialRange = numbers.every(n => n >= MIN_PLAUSIBLE_SERIAL && n <= MAX_PLAUSIBLE_SERIAL);
+    if (allSerialRange && (/date/i.test(header) || numbers.length === present.length)) {
+      return { format: 'excel_serial', ambiguous: false };
+    }
+  }
+
+  return { format: 'study_day', ambiguous: false };
+}
+
+export function isDateFormat(format: TimeColumnFormat): format is DateFormat {
+  return format === 'iso' || format === 'dmy' || format === 'mdy' || format === 'excel_serial';
+}
+
+// Study day of a date relative to a day-0 date (both epoch days)
+export function studyDayFromEpochDays(date: number, dayZero: number): number {
+  return date - dayZero;
+}
+
+// Earliest parseable date across several columns, as an epoch day
+export function earliestEpochDay(sources: { values: unknown[]; format: DateFormat }[]): number | null {
+  let min: number | null = null;
+  sources.forEach(({ values, format }) => {
+    values.forEach(value => {
+      const day = parseDateValue(value, format);
+      if (day !== null && (min === null || day < min)) min = day;
+    });
+  });
+  return min;
+}
@@ -0,0 +1,10 @@
+// Save generated content as a file through the browser's download prompt
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,274 @@
+// Per-animal growth curves: exponential, linear, Gompertz and logistic fits to each animal's timeline,
+// the model chosen by AIC, and the fitted growth rates compared between groups
+
+import type { AnimalDataManager } from './AnimalDataManager';
+import { nelderMead } from './Optimize';
+import { holmAdjust, type AnovaResult, mean, median, oneWayAnova, standardDeviation, welchTTest } from './StatisticalAnalysis';
+
+export type GrowthModelKind = 'exponential' | 'linear' | 'gompertz' | 'logistic';
+
+export const GROWTH_MODEL_LABELS: Record<GrowthModelKind, string> = {
+  exponential: 'Exponential',
+  linear: 'Linear',
+  gompertz: 'Gompertz',
+  logistic: 'Logistic'
+};
+
+export const GROWTH_MODEL_FORMULAS: Record<GrowthModelKind, string> = {
+  exponential: 'V₀·e^(r·t)',
+  linear: 'V₀ + b·t',
+  gompertz: 'V₀·e^(ln(K/V₀)·(1 − e^(−β·t)))',
+  logistic: 'K / (1 + (K/V₀ − 1)·e^(−r·t))'
+};
+
+const MODEL_KINDS: GrowthModelKind[] = ['exponential', 'linear', 'gompertz', 'logistic'];
+
+export interface GrowthCurveFit {
+  model: GrowthModelKind;
+  // Natural-scale parameters: V₀ and r or b, plus K and β where the model has them
+  parameters: Record<string, number>;
+  n: number;
+  rss: number;
+  aic: number;
+  rSquared: number;
+  // Initial specific growth rate V'(0) / V(0), per day; NaN when V(0) ≤ 0
+  growthRate: number;
+  // Days for the fitted curve to double from V(0); Infinity when it never does, NaN when V(0) ≤ 0
+  doublingTime: number;
+}
+
+export interface AnimalGrowthFit {
+  animalId: string;
+  group: string;
+  // Day the curves are measured from (t = 0)
+  origin: number;
+  days: number[];
+  values: number[];
+  fits: GrowthCurveFit[];
+  best: GrowthCurveFit | null;
+}
+
+interface Point {
+  t: number;
+  v: number;
+}
+
+// Value of a fitted curve t days after the animal's first visit
+export function growthCurveValue(fit: GrowthCurveFit, t: number): number {
+  const { V0, r, b, K, beta } = fit.parameters;
+  switch (fit.model) {
+    case 'exponential': return V0 * Math.exp(r * t);
+    case 'linear': return V0 + b * t;
+    case 'gompertz': return V0 * Math.exp(Math.log(K / V0) * (1 - Math.exp(-beta * t)));
+    case 'logistic': return K / (1 + (K / V0 - 1) * Math.exp(-r * t));
+  }
+}
+
+function growthRateOf(model: GrowthModelKind, p: Record<string, number>): number {
+  switch (model) {
+    case 'exponential': return p.r;
+    // Undefined when the fitted line starts at or below zero
+    case 'linear': return p.V0 > 0 ? p.b / p.V0 : NaN;
+    case 'gompertz': return p.beta * Math.log(p.K / p.V0);
+    case 'logistic': return p.r * (1 - p.V0 / p.K);
+  }
+}
+
+function doublingTimeOf(model: GrowthModelKind, p: Record<string, number>): number {
+  switch (model) {
+    case 'exponential':
+      return p.r > 0 ? Math.LN2 / p.r : Infinity;
+    case 'linear':
+      if (p.V0 <= 0) return NaN;
+      return p.b > 0 ? p.V0 / p.b : Infinity;
+    case 'gompertz': {
+      // Never doubles when the plateau is below 2·V₀
+      const fraction = Math.LN2 / Math.log(p.K / p.V0);
+      return fraction > 0 && fraction < 1 ? -Math.log(1 - fraction) / p.beta : Infinity;
+    }
+    case 'logistic':
+      return p.K > 2 * p.V0 ? Math.log((p.K / p.V0 - 1) / (p.K / (2 * p.V0) - 1)) / p.r : Infinity;
+  }
+}
+
+// Log-linear least squares on the positive values, used for starting points and the exponential fallback
+function logLinearStart(points: Point[]): { logV0: number; r: number } {
+  const positive = points.filter(p => p.v > 0);
+  if (positive.length < 2) return { logV0: Math.log(Math.max(...points.map(p => p.v), 1)), r: 0 };
+  const tMean = mean(positive.map(p => p.t));
+  const yMean = mean(positive.map(p => Math.log(p.v)));
+  const sxx = positive.reduce((sum, p) => sum + (p.t - tMean) ** 2, 0);
+  const sxy = positive.reduce((sum, p) => sum + (p.t - tMean) * (Math.log(p.v) - yMean), 0);
+  const r = sxx > 0 ? sxy / sxx : 0;
+  return { logV0: yMean - r * tMean, r };
+}
+
+// Nelder-Mead with one restart from the first minimum, which the simplex often stops short of
+function minimise(f: (x: number[]) => number, start: number[]): number[] {
+  const first = nelderMead(f, start, { step: 0.2, maxIterations: 4000 });
+  return nelderMead(f, first.point, { step: 0.05, maxIterations: 4000 }).point;
+}
+
+// Least-squares fit of one model on the volume scale, with parameters kept positive where the model needs it
+function fitModel(model: GrowthModelKind, points: Point[]): Record<string, number> | null {
+  const start = logLinearStart(points);
+  const maxValue = Math.max(...points.map(p => p.v));
+  const sse = (predict: (t: number) => number) =>
+    points.reduce((sum, p) => sum + (p.v - predict(p.t)) ** 2, 0);
+
+  switch (model) {
+    case 'linear': {
+      const tMean = mean(points.map(p => p.t));
+      const vMean = mean(points.map(p => p.v));
+      const sxx = points.reduce((sum, p) => sum + (p.t - tMean) ** 2, 0);
+      if (sxx === 0) return null;
+      const b = points.reduce((sum, p) => sum + (p.t - tMean) * (p.v - vMean), 0) / sxx;
+      return { V0: vMean - b * tMean, b };
+    }
+    case 'exponential': {
+      const [logV0, r] = minimise(([a, r]) => sse(t => Math.exp(a + r * t)), [start.logV0, start.r]);
+      return { V0: Math.exp(logV0), r };
+    }
+    case 'gompertz': {
+      // Sigmoidal models describe growth towards a plateau, so they are only tried on animals that grew
+      if (start.r <= 0 || maxValue <= 0) return null;
+      const logK = Math.log(maxValue * 1.5);
+      const logBeta = Math.log(start.r / Math.max(logK - start.logV0, 0.1));
+      const [logV0, fittedLogK, fittedLogBeta] = minimise(
+        ([a, k, c]) => (k <= a ? Infinity : sse(t => Math.exp(a + (k - a) * (1 - Math.exp(-Math.exp(c) * t))))),
+        [start.logV0, Math.max(logK, start.logV0 + 0.5), logBeta]
+      );
+      return { V0: Math.exp(logV0), K: Math.exp(fittedLogK), beta: Math.exp(fittedLogBeta) };
+    }
+    case 'logistic': {
+      if (start.r <= 0 || maxValue <= 0) return null;
+      const logK = Math.max(Math.log(maxValue * 1.5), start.logV0 + 0.5);
+      const [logV0, fittedLogK, logR] = minimise(
+        ([a, k, c]) => (k <= a ? Infinity : sse(t => Math.exp(k) / (1 + (Math.exp(k - a) - 1) * Math.exp(-Math.exp(c) * t)))),
+        [start.logV0, logK, Math.log(start.r)]
+      );
+      return { V0: Math.exp(logV0), K: Math.exp(fittedLogK), r: Math.exp(logR) };
+    }
+  }
+}
+
+const PARAMETER_COUNTS: Record<GrowthModelKind, number> = { exponential: 2, linear: 2, gompertz: 3, logistic: 3 };
+
+// Fit every model the timeline has enough visits for and pick the lowest AIC
+export function fitGrowthCurves(days: number[], values: number[]): { origin: number; fits: GrowthCurveFit[]; best: GrowthCurveFit | null } {
+  const origin = days.length > 0 ? Math.min(...days) : 0;
+  const points = days.map((day, i) => ({ t: day - origin, v: values[i] }));
+  const n = points.length;
+  const vMean = n > 0 ? mean(values) : 0;
+  const tss = values.reduce((sum, v) => sum + (v - vMean) ** 2, 0);
+
+  const fits: GrowthCurveFit[] = [];
+  MODEL_KINDS.forEach(model => {
+    const k = PARAMETER_COUNTS[model];
+    // At least two residual degrees of freedom beyond the parameters and the error variance
+    if (n < k + 2) return;
+    const parameters = fitModel(model, points);
+    if (!parameters) return;
+    const fit: GrowthCurveFit = { model, parameters, n, rss: 0, aic: 0, rSquared: 0, growthRate: 0, doublingTime: 0 };
+    const rss = points.reduce((sum, p) => sum + (p.v - growthCurveValue(fit, p.t)) ** 2, 0);
+    if (!Number.isFinite(rss)) return;
+    // Least-squares AIC; the residual variance counts as a parameter. A tiny floor keeps exact fits finite
+    fit.rss = rss;
+    fit.aic = n * Math.log(Math.max(rss, 1e-12) / n) + 2 * (k + 1);
+    fit.rSquared = tss > 0 ? 1 - rss / tss : NaN;
+    fit.growthRate = growthRateOf(model, parameters);
+    fit.doublingTime = doublingTimeOf(model, parameters);
+    fits.push(fit);
+  });
+
+  const best = fits.reduce<GrowthCurveFit | null>((lowest, fit) => (!lowest || fit.aic < lowest.aic ? fit : lowest), null);
+  return { origin, fits, best };
+}
+
+// Fit each animal's timeline for the parameter, taking the animal's group from the consolidated rows
+export function fitAnimalGrowth(
+  manager: AnimalDataManager,
+  parameter: string,
+  groupOf: (animalId: string) => string | undefined
+): AnimalGrowthFit[] {
+  const results: AnimalGrowthFit[] = [];
+  manager.getAllAnimals().forEach(animal => {
+    const group = groupOf(animal.animalId);
+    if (!group) return;
+    const timeline = manager.getParameterTimeline(animal.animalId, parameter)
+      .filter((point): point is typeof point & { value: number } => typeof point.value === 'number' && Number.isFinite(point.value));
+    const days = timeline.map(point => point.studyDay);
+    const values = timeline.map(point => point.value);
+    results.push({ animalId: animal.animalId, group, days, values, ...fitGrowthCurves(days, values) });
+  });
+  return results;
+}
+
+// Fit used for an animal: the AIC choice, or the named model when it could be fitted
+export function selectedFit(animal: AnimalGrowthFit, model: GrowthModelKind | 'best'): GrowthCurveFit | null {
+  if (model === 'best') return animal.best;
+  return animal.fits.find(fit => fit.model === model) || null;
+}
+
+export interface GrowthRateSummary {
+  group: string;
+  n: number;
+  meanRate: number;
+  sdRate: number;
+  medianDoublingTime: number;
+  meanRSquared: number;
+  // Animals per chosen model, for the 'best' selection
+  modelCounts: Record<GrowthModelKind, number>;
+  // Welch t-test of the rates against the control, Holm-adjusted across groups
+  difference: number;
+  pValue: number;
+  adjustedPValue: number;
+}
+
+export interface GrowthRateComparison {
+  rows: GrowthRateSummary[];
+  // One-way ANOVA of the rates across all groups
+  anova: AnovaResult;
+}
+
+export function compareGrowthRates(
+  animals: AnimalGrowthFit[],
+  groups: string[],
+  controlGroup: string,
+  model: GrowthModelKind | 'best'
+): GrowthRateComparison {
+  const fitsFor = (group: string) => animals
+    .filter(animal => animal.group === group)
+    .map(animal => selectedFit(animal, model))
+    .filter((fit): fit is GrowthCurveFit => fit !== null && Number.isFinite(fit.growthRate));
+  const ratesFor = (group: string) => fitsFor(group).map(fit => fit.growthRate);
+  const controlRates = ratesFor(controlGroup);
+
+  const rows = groups.map(group => {
+    const fits = fitsFor(group);
+    const rates = fits.map(fit => fit.growthRate);
+    const modelCounts: Record<GrowthModelKind, number> = { exponential: 0, linear: 0, gompertz: 0, logistic: 0 };
+    fits.forEach(fit => { modelCounts[fit.model]++; });
+    const rSquared = fits.map(fit => fit.rSquared).filter(Number.isFinite);
+    // Infinity (never doubles) still counts towards the median; NaN (undefined) does not
+    const doublingTimes = fits.map(fit => fit.doublingTime).filter(days => !Number.isNaN(days));
+    const testable = group !== controlGroup && rates.length >= 2 && controlRates.length >= 2;
+    return {
+      group,
+      n: rates.length,
+      meanRate: rates.length > 0 ? mean(rates) : NaN,
+      sdRate: rates.length > 1 ? standardDeviation(rates) : NaN,
+      medianDoublingTime: doublingTimes.length > 0 ? median(doublingTimes) : NaN,
+      meanRSquared: rSquared.length > 0 ? mean(rSquared) : NaN,
+      modelCounts,
+      difference: group !== controlGroup && rates.length > 0 && controlRates.length > 0 ? mean(rates) - mean(controlRates) : NaN,
+      pValue: testable ? welchTTest(rates, controlRates).pValue : NaN,
+      adjustedPValue: NaN
+    };
+  });
+
+  const tested = rows.filter(row => Number.isFinite(row.pValue));
+  holmAdjust(tested.map(row => row.pValue)).forEach((adjusted, i) => { tested[i].adjustedPValue = adjusted; });
+
+  return { rows, anova: oneWayAnova(groups.map(ratesFor)) };
+}
@@ -0,0 +1,175 @@
+// Tumour growth delay (NCI-style T - C): per-animal days to reach a target volume, interpolated between
+// visits, and the difference in median time to endpoint between each group and the control
+
+import type { ParsedData } from '../components/FileUpload';
+import { mannWhitneyU, median } from './StatisticalAnalysis';
+import { kaplanMeier, logRankTest, type SurvivalSubject } from './SurvivalAnalysis';
+
+export type GrowthTargetKind = 'absolute' | 'fold';
+
+export const GROWTH_TARGET_LABELS: Record<GrowthTargetKind, string> = {
+  absolute: 'Absolute volume',
+  fold: 'Fold change from baseline'
+};
+
+export type CrossingInterpolation = 'linear' | 'log_linear';
+
+export const CROSSING_INTERPOLATION_LABELS: Record<CrossingInterpolation, string> = {
+  linear: 'Linear',
+  log_linear: 'Log-linear (exponential growth)'
+};
+
+// What to do with animals that never reach the target before their last visit
+export type NonReacherHandling = 'censor' | 'last_day' | 'exclude';
+
+export const NON_REACHER_LABELS: Record<NonReacherHandling, string> = {
+  censor: 'Censor (Kaplan-Meier median, log-rank test)',
+  last_day: 'Assign last observation day',
+  exclude: 'Exclude from the group'
+};
+
+export interface GrowthDelaySettings {
+  targetKind: GrowthTargetKind;
+  // Volume for 'absolute', multiple of the baseline for 'fold'
+  target: number;
+  interpolation: CrossingInterpolation;
+  nonReachers: NonReacherHandling;
+}
+
+export interface AnimalCrossing {
+  animalId: string;
+  group: string;
+  baseline: number;
+  targetVolume: number;
+  // Interpolated day the target was reached; null when it never was
+  day: number | null;
+  lastDay: number;
+}
+
+export interface GrowthDelayRow {
+  group: string;
+  n: number;
+  reached: number;
+  // Median days to endpoint; NaN when not reached
+  medianDays: number;
+  // T - C in days against the control's median, and as a percentage of the control's
+  delay: number;
+  percentDelay: number;
+  test: 'Mann-Whitney' | 'Log-rank' | '';
+  pValue: number;
+}
+
+interface Visit {
+  day: number;
+  volume: number;
+}
+
+// Day the volume first reaches the target, interpolated between the visits either side
+export function crossingDay(visits: Visit[], target: number, interpolation: CrossingInterpolation): number | null {
+  if (visits.length === 0) return null;
+  if (visits[0].volume >= target) return visits[0].day;
+  for (let i = 1; i < visits.length; i++) {
+    const before = visits[i - 1];
+    const after = visits[i];
+    if (after.volume < target) continue;
+    const useLog = interpolation === 'log_linear' && before.volume > 0 && after.volume > 0 && target > 0;
+    const from = useLog ? Math.log(before.volume) : before.volume;
+    const to = useLog ? Math.log(after.volume) : after.volume;
+    const goal = useLog ? Math.log(target) : target;
+    if (to === from) return after.day;
+    return before.day + (goal - from) / (to - from) * (after.day - before.day);
+  }
+  return null;
+}
+
+export function animalCrossings(
+  data: ParsedData,
+  volumeColumn: string,
+  groupField: string,
+  settings: GrowthDelaySettings
+): AnimalCrossing[] {
+  const animals = new Map<string, { group: string; visits: Visit[] }>();
+  data.forEach(row => {
+    const group = row[groupField];
+    const day = Number(row.studyDay);
+    const volume = row[volumeColumn];
+    if (!row.animalId || !group || isNaN(day) || typeof volume !== 'number' || !Number.isFinite(volume)) return;
+    const id = String(row.animalId);
+    const animal = animals.get(id) || { group: String(group), visits: [] };
+    animal.visits.push({ day, volume });
+    animals.set(id, animal);
+  });
+
+  return Array.from(animals.entries()).map(([animalId, { group, visits }]) => {
+    visits.sort((a, b) => a.day - b.day);
+    const baseline = visits[0].volume;
+    const targetVolume = settings.targetKind === 'fold' ? baseline * settings.target : settings.target;
+    return {
+      animalId,
+      group,
+      baseline,
+      targetVolume,
+      day: crossingDay(visits, targetVolume, settings.interpolation),
+      lastDay: visits[visits.length - 1].day
+    };
+  });
+}
+
+const asSubjects = (crossings: AnimalCrossing[]): SurvivalSubject[] => crossings.map(c => ({
+  animalId: c.animalId,
+  group: c.group,
+  time: c.day ?? c.lastDay,
+  event: c.day !== null,
+  note: ''
+}));
+
+// Times used for the median and test under the chosen handling of animals that never reach the target
+function groupTimes(crossings: AnimalCrossing[], handling: NonReacherHandling): number[] {
+  return crossings
+    .filter(c => c.day !== null || handling === 'last_day')
+    .map(c => c.day ?? c.lastDay);
+}
+
+export function growthDelayTable(
+  crossings: AnimalCrossing[],
+  groups: string[],
+  controlGroup: string,
+  handling: NonReacherHandling
+): GrowthDelayRow[] {
+  const members = (group: string) => crossings.filter(c => c.group === group);
+  const medianDays = (group: string) => {
+    if (handling === 'censor') return kaplanMeier(asSubjects(members(group)), group).median;
+    const times = groupTimes(members(group), handling);
+    return times.length > 0 ? median(times) : NaN;
+  };
+
+  const controlMedian = medianDays(controlGroup);
+  const controlTimes = groupTimes(members(controlGroup), handling);
+
+  return groups.map(group => {
+    const groupCrossings = members(group);
+    const groupMedian = medianDays(group);
+    const delay = groupMedian - controlMedian;
+    let test: GrowthDelayRow['test'] = '';
+    let pValue = NaN;
+    if (group !== controlGroup) {
+      if (handling === 'censor') {
+        test = 'Log-rank';
+        pValue = logRankTest(asSubjects([...groupCrossings, ...members(controlGroup)]), [controlGroup, group]).pValue;
+      } else {
+        test = 'Mann-Whitney';
+        pValue = mannWhitneyU(groupTimes(groupCrossings, handling), controlTimes).pValue;
+      }
+    }
+    return {
+      group,
+      n: groupCrossings.length,
+      reached: groupCrossings.filter(c => c.day !== null).length,
+      medianDays: groupMedian,
+      delay: group === controlGroup ? 0 : delay,
+      percentDelay: group === controlGroup ? 0 : delay / controlMedian * 100,
+      test,
+      pValue
+    };
+  });
+}
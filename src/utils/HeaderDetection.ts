@@ -0,0 +1,184 @@
+// Header detection for worksheet tabs: single or stacked header rows, merged cells, and the data start row
+
+import * as XLSX from 'xlsx';
+import type { ParsedData } from '../components/FileUpload';
+
+export type SheetRow = unknown[];
+
+// Row indices are 0-based into the sheet's rows; headerEnd is inclusive
+export interface HeaderLayout {
+  headerStart: number;
+  headerEnd: number;
+  dataStart: number;
+}
+
+export interface ParsedSheet {
+  columns: string[];
+  rows: ParsedData;
+  // All rows with merged cells filled in, for the header preview
+  allRows: SheetRow[];
+  layout: HeaderLayout;
+  hasMerges: boolean;
+}
+
+const HEADER_KEYWORDS = [
+  'group', 'animal', 'volume', 'weight', 'comment', 'observations', 'sex', 'date'
+];
+
+export const MAX_HEADER_SCAN_ROWS = 10;
+
+// Stacked headers deeper than this are almost certainly a misdetection
+const MAX_HEADER_ROWS = 3;
+
+const isBlankCell = (cell: unknown) => cell === undefined || cell === null || String(cell).trim() === '';
+
+// Copy each merged range's top-left value into every cell it covers
+export function fillMergedCells(rows: SheetRow[], merges: XLSX.Range[]): SheetRow[] {
+  const filled = rows.map(row => (Array.isArray(row) ? [...row] : []));
+  merges.forEach(({ s, e }) => {
+    const value = filled[s.r]?.[s.c];
+    if (isBlankCell(value)) return;
+    for (let r = Math.max(s.r, 0); r <= e.r && r < filled.length; r++) {
+      for (let c = Math.max(s.c, 0); c <= e.c; c++) {
+        if (isBlankCell(filled[r][c])) filled[r][c] = value;
+      }
+    }
+  });
+  return filled;
+}
+
+function keywordScore(row: SheetRow): number {
+  return row.reduce<number>((acc, cell) => {
+    if (typeof cell === 'string') {
+      const cellLower = cell.toLowerCase();
+      if (HEADER_KEYWORDS.some(keyword => cellLower.includes(keyword))) {
+        return acc + 1;
+      }
+    }
+    return acc;
+  }, 0);
+}
+
+// A row of labels only: something filled in, and no numbers or dates
+function isLabelRow(row: SheetRow | undefined): boolean {
+  if (!Array.isArray(row)) return false;
+  const filled = row.filter(cell => !isBlankCell(cell));
+  return filled.length > 0 && filled.every(cell => typeof cell === 'string' && isNaN(Number(cell)));
+}
+
+function duplicateCount(names: string[]): number {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  names.filter(name => !name.startsWith('_EMPTY_')).forEach(name => {
+    if (seen.has(name)) duplicates++;
+    seen.add(name);
+  });
+  return duplicates;
+}
+
+// Pick the keyword-richest row, then stack adjacent label rows while that makes column names unique
+export function detectHeaderLayout(allRows: SheetRow[], fillAcross = true): HeaderLayout {
+  let bestIdx = 0;
+  let bestScore = -1;
+  for (let i = 0; i < Math.min(MAX_HEADER_SCAN_ROWS, allRows.length); ++i) {
+    const row = allRows[i];
+    if (!Array.isArray(row)) continue;
+    const score = keywordScore(row);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIdx = i;
+    }
+  }
+
+  const layout: HeaderLayout = { headerStart: bestIdx, headerEnd: bestIdx, dataStart: bestIdx + 1 };
+  const duplicates = (candidate: HeaderLayout) => duplicateCount(buildColumnNames(allRows, candidate, fillAcross));
+
+  while (layout.headerEnd - layout.headerStart + 1 < MAX_HEADER_ROWS && duplicates(layout) > 0) {
+    const above = { ...layout, headerStart: layout.headerStart - 1 };
+    const below = { ...layout, headerEnd: layout.headerEnd + 1, dataStart: layout.headerEnd + 2 };
+    const options = [
+      layout.headerStart > 0 && isLabelRow(allRows[above.headerStart]) ? above : null,
+      isLabelRow(allRows[below.headerEnd]) ? below : null
+    ].filter((option): option is HeaderLayout => option !== null);
+    const better = options
+      .map(option => ({ option, duplicates: duplicates(option) }))
+      .filter(({ duplicates: d }) => d < duplicates(layout))
+      .sort((a, b) => a.duplicates - b.duplicates)[0];
+    if (!better) break;
+    Object.assign(layout, better.option);
+  }
+  return layout;
+}
+
+// Composite column names from the header rows, e.g. "Day 7" over "L" becomes "Day 7 L".
+// Without worksheet merges, a label in an upper header row carries right over blank cells
+// (the usual way a group label is written over several columns).
+export function buildColumnNames(allRows: SheetRow[], layout: HeaderLayout, fillAcross = true): string[] {
+  const headerRows = allRows.slice(layout.headerStart, layout.headerEnd + 1).map(row => (Array.isArray(row) ? row : []));
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  const lastRow = headerRows.length - 1;
+
+  const carried = headerRows.map((row, level) => {
+    if (level === lastRow || !fillAcross) return row;
+    let current: unknown = '';
+    return Array.from({ length: width }, (_, c) => {
+      if (!isBlankCell(row[c])) current = row[c];
+      return isBlankCell(row[c]) && !isBlankCell(headerRows[lastRow][c]) ? current : row[c];
+    });
+  });
+
+  const columns: string[] = [];
+  const used = new Map<string, number>();
+  let emptyCount = 1;
+  for (let c = 0; c < width; c++) {
+    const parts: string[] = [];
+    carried.forEach(row => {
+      const cell = row[c];
+      if (isBlankCell(cell)) return;
+      const part = String(cell).trim();
+      if (parts[parts.length - 1] !== part) parts.push(part);
+    });
+    if (parts.length === 0) {
+      columns.push(`_EMPTY_${emptyCount++}`);
+      continue;
+    }
+    // Stacked headers can still repeat; suffix rather than let later columns overwrite earlier ones
+    const name = parts.join(' ');
+    const seen = used.get(name) || 0;
+    used.set(name, seen + 1);
+    columns.push(seen === 0 || headerRows.length === 1 ? name : `${name} (${seen + 1})`);
+  }
+  return columns;
+}
+
+// Keyed rows for the data area, skipping fully blank rows
+export function rowsToRecords(allRows: SheetRow[], columns: string[], dataStart: number): ParsedData {
+  return allRows
+    .slice(dataStart)
+    .filter(row => Array.isArray(row) && row.some(cell => cell !== undefined && cell !== null && cell !== ''))
+    .map(row => Object.fromEntries(columns.map((col, i) => [col, row[i]])));
+}
+
+export function applyHeaderLayout(sheet: Pick<ParsedSheet, 'allRows' | 'hasMerges'>, layout: HeaderLayout): ParsedSheet {
+  const columns = buildColumnNames(sheet.allRows, layout, !sheet.hasMerges);
+  return {
+    ...sheet,
+    columns,
+    rows: rowsToRecords(sheet.allRows, columns, layout.dataStart),
+    layout
+  };
+}
+
+// Read a worksheet into rows, honouring merged cells, with an auto-detected or given header layout
+export function parseWorksheet(worksheet: XLSX.WorkSheet, layout?: HeaderLayout): ParsedSheet {
+  const raw = XLSX.utils.sheet_to_json<SheetRow>(worksheet, { defval: '', header: 1 });
+  // Merge ranges are absolute; the rows start at the top-left of the used range
+  const origin = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+  const merges = (worksheet['!merges'] || []).map(({ s, e }) => ({
+    s: { r: s.r - origin.r, c: s.c - origin.c },
+    e: { r: e.r - origin.r, c: e.c - origin.c }
+  }));
+  const allRows = fillMergedCells(raw, merges);
+  const hasMerges = merges.length > 0;
+  return applyHeaderLayout({ allRows, hasMerges }, layout || detectHeaderLayout(allRows, !hasMerges));
+}
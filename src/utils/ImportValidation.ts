@@ -0,0 +1,175 @@
+// Structured report of problems found while merging imported tabs, with the resolution chosen for each
+
+import type { ParsedData } from '../components/FileUpload';
+import type { AnimalIdMatcher } from './AnimalIdMatcher';
+
+export type ValidationIssueType =
+  | 'conflict'
+  | 'duplicate_row'
+  | 'unparseable_day'
+  | 'non_numeric'
+  | 'ambiguous_number'
+  | 'no_group'
+  | 'orphan_metadata';
+
+export type IssueResolution = 'keep_first' | 'keep_last' | 'average' | 'exclude' | 'keep';
+
+// Index into the rows of a mapped (or metadata) tab
+export interface SourceRef {
+  tabName: string;
+  rowIndex: number;
+}
+
+export interface ValidationIssue {
+  id: string;
+  type: ValidationIssueType;
+  message: string;
+  animalId?: string;
+  studyDay?: number;
+  parameter?: string;
+  values?: (string | number)[];
+  sources: SourceRef[];
+}
+
+// Issue ID -> chosen resolution; issues without an entry use their default
+export type IssueResolutions = Record<string, IssueResolution>;
+
+export const ISSUE_TYPE_LABELS: Record<ValidationIssueType, string> = {
+  conflict: 'Conflicting values',
+  duplicate_row: 'Duplicate rows',
+  unparseable_day: 'Unparseable study day',
+  non_numeric: 'Non-numeric value',
+  ambiguous_number: 'Ambiguous number format',
+  no_group: 'Animal without group',
+  orphan_metadata: 'Metadata ID without data'
+};
+
+export const RESOLUTION_LABELS: Record<IssueResolution, string> = {
+  keep_first: 'Keep first',
+  keep_last: 'Keep last',
+  average: 'Average',
+  exclude: 'Exclude',
+  keep: 'Keep as is'
+};
+
+// Deterministic IDs so the merge can look up the resolution for each cell
+export const issueId = {
+  conflict: (key: string, parameter: string) => `conflict:${key}:${parameter}`,
+  duplicateRow: (key: string) => `duplicate:${key}`,
+  unparseableDay: (source: SourceRef) => `day:${source.tabName}:${source.rowIndex}`,
+  nonNumeric: (source: SourceRef, parameter: string) => `non_numeric:${source.tabName}:${source.rowIndex}:${parameter}`,
+  ambiguousNumber: (source: SourceRef, column: string) => `ambiguous_number:${source.tabName}:${source.rowIndex}:${column}`,
+  noGroup: (animalId: string) => `no_group:${animalId}`,
+  orphanMetadata: (animalId: string) => `orphan:${animalId}`
+};
+
+export function resolutionOptions(issue: ValidationIssue): IssueResolution[] {
+  switch (issue.type) {
+    case 'conflict':
+      return issue.values && issue.values.every(v => typeof v === 'number')
+        ? ['keep_first', 'keep_last', 'average', 'exclude']
+        : ['keep_first', 'keep_last', 'exclude'];
+    case 'duplicate_row':
+      return ['keep_first', 'exclude'];
+    case 'unparseable_day':
+      return ['exclude'];
+    case 'non_numeric':
+    case 'no_group':
+      return ['keep', 'exclude'];
+    case 'ambiguous_number':
+      // Caliper readings only feed the derived volume; the value itself isn't imported
+      return issue.parameter ? ['keep', 'exclude'] : ['keep'];
+    default:
+      return ['keep'];
+  }
+}
+
+// Defaults reproduce the previous import behaviour (later values overwrite earlier ones)
+export function defaultResolution(issue: ValidationIssue): IssueResolution {
+  switch (issue.type) {
+    case 'conflict':
+      return 'keep_last';
+    case 'duplicate_row':
+      return 'keep_first';
+    case 'unparseable_day':
+      return 'exclude';
+    default:
+      return 'keep';
+  }
+}
+
+export function resolutionFor(resolutions: IssueResolutions, issue: ValidationIssue): IssueResolution {
+  return resolutions[issue.id] || defaultResolution(issue);
+}
+
+export const describeSource = (source: SourceRef) => `${source.tabName} row ${source.rowIndex + 1}`;
+
+// Metadata column most likely to hold the treatment group
+export function findGroupColumn(columns: string[]): string | undefined {
+  return columns.find(c => /group|treatment|arm/i.test(c)) || columns.find(c => /cohort/i.test(c));
+}
+
+// Animals in the data with no group in the metadata, and metadata IDs that match no animal
+export function validateMetadata(
+  idMatcher: AnimalIdMatcher,
+  metaTabName: string,
+  metaRows: ParsedData,
+  idColumn: string,
+  groupColumn?: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  // Known animal ID -> first metadata row that matches it
+  const metaIndex = new Map<string, number>();
+  const orphans = new Map<string, number>();
+  metaRows.forEach((row, rowIndex) => {
+    const raw = String(row[idColumn] ?? '').trim();
+    if (!raw) return;
+    const match = idMatcher.match(row[idColumn]);
+    if (match && !metaIndex.has(match.id)) metaIndex.set(match.id, rowIndex);
+    if (!match && !orphans.has(raw)) orphans.set(raw, rowIndex);
+  });
+
+  if (groupColumn) {
+    idMatcher.getKnownIds().forEach(animalId => {
+      const rowIndex = metaIndex.get(animalId);
+      const group = rowIndex === undefined ? '' : String(metaRows[rowIndex][groupColumn] ?? '').trim();
+      if (group) return;
+      issues.push({
+        id: issueId.noGroup(animalId),
+        type: 'no_group',
+        animalId,
+        message: rowIndex === undefined
+          ? `Animal ${animalId} has no row in "${metaTabName}"`
+          : `Animal ${animalId} has an empty "${groupColumn}"`,
+        sources: rowIndex === undefined ? [] : [{ tabName: metaTabName, rowIndex }]
+      });
+    });
+  }
+
+  orphans.forEach((rowIndex, animalId) => {
+    issues.push({
+      id: issueId.orphanMetadata(animalId),
+      type: 'orphan_metadata',
+      animalId,
+      message: `Metadata ID ${animalId} matches no animal in the imported data`,
+      sources: [{ tabName: metaTabName, rowIndex }]
+    });
+  });
+
+  return issues;
+}
+
+// One line per issue type and resolution, e.g. "Conflicting values: 3 × keep last"
+export function summarizeResolutions(issues: ValidationIssue[], resolutions: IssueResolutions): string[] {
+  const counts = new Map<string, { type: ValidationIssueType; resolution: IssueResolution; count: number }>();
+  issues.forEach(issue => {
+    const resolution = resolutionFor(resolutions, issue);
+    const key = `${issue.type}|${resolution}`;
+    const entry = counts.get(key) || { type: issue.type, resolution, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values()).map(({ type, resolution, count }) =>
+    `${ISSUE_TYPE_LABELS[type]}: ${count} × ${RESOLUTION_LABELS[resolution].toLowerCase()}`
+  );
+}
@@ -0,0 +1,71 @@
+// Web Worker entry for the heavy import steps: workbook and SEND parsing, header detection, tab grouping and the tab merge.
+// Requests and replies are described in ImportWorkerClient.
+
+import { parseWorkbook, groupTabsByHeaders, type ProgressCallback } from './WorkbookParsing';
+import { collectMappedTabs, mergeCollectedTabs, type CollectedTabs, type MappedTab } from './TabMerge';
+import { changesByFile } from './DatasetDiff';
+import { buildSendTabs, readSendFile } from './SendImport';
+import type { ParsedData } from '../components/FileUpload';
+import type { IdAliases } from './AnimalIdMatcher';
+import type { IssueResolutions } from './ImportValidation';
+import type { ImportWorkerRequest, ImportWorkerResponse } from './ImportWorkerClient';
+
+const methods = {
+  parseWorkbook: ({ data }: { data: ArrayBuffer }, onProgress: ProgressCallback) => parseWorkbook(data, onProgress),
+
+  // Only names and headers are sent; the caller keeps the rows
+  groupTabs: ({ tabs }: { tabs: { tabName: string; columns: string[] }[] }) =>
+    groupTabsByHeaders(tabs).map(group => ({
+      tabNames: group.tabs.map(tab => tab.tabName),
+      hasIdenticalHeaders: group.hasIdenticalHeaders
+    })),
+
+  // A SEND package: every domain file dropped together, built into mapped tabs
+  readSendFiles: ({ files }: { files: { name: string; data: ArrayBuffer }[] }, onProgress: ProgressCallback) => {
+    const domains = files.flatMap((file, index) => {
+      onProgress(`Reading ${file.name}`, index, files.length);
+      return readSendFile(file.name, file.data);
+    });
+    onProgress('Mapping SEND domains', files.length, files.length);
+    return buildSendTabs(domains);
+  },
+
+  collectTabs: (
+    { tabs, aliases, knownIds }: { tabs: MappedTab[]; aliases: IdAliases; knownIds: string[] },
+    onProgress: ProgressCallback
+  ) => {
+    onProgress(`Matching animal IDs and checking ${tabs.length} tab(s)`);
+    return collectMappedTabs(tabs, aliases, knownIds);
+  },
+
+  mergeTabs: (
+    { collected, resolutions }: { collected: CollectedTabs; resolutions: IssueResolutions },
+    onProgress: ProgressCallback
+  ) => {
+    onProgress(`Merging ${collected.entries.length} animal/day records`);
+    return mergeCollectedTabs(collected, resolutions);
+  },
+
+  changesByFile: (
+    { existing, tabs, aliases, resolutions }: { existing: ParsedData; tabs: MappedTab[]; aliases: IdAliases; resolutions: IssueResolutions },
+    onProgress: ProgressCallback
+  ) => {
+    onProgress('Comparing with the current study');
+    return changesByFile(existing, tabs, aliases, resolutions);
+  }
+};
+
+export type ImportWorkerMethods = typeof methods;
+
+const reply = (response: ImportWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  const { id, method, args } = event.data;
+  try {
+    const run = methods[method] as (args: unknown, onProgress: ProgressCallback) => unknown;
+    const result = run(args, (label, done, total) => reply({ id, type: 'progress', label, done, total }));
+    reply({ id, type: 'result', result });
+  } catch (error) {
+    reply({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
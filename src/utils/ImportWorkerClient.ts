@@ -0,0 +1,91 @@
+// Main-thread side of the import worker: typed calls, progress reporting and cancellation
+
+import type { ImportWorkerMethods } from './ImportWorker';
+import type { ProgressCallback } from './WorkbookParsing';
+
+export type ImportWorkerMethod = keyof ImportWorkerMethods;
+export type ImportWorkerArgs<M extends ImportWorkerMethod> = Parameters<ImportWorkerMethods[M]>[0];
+export type ImportWorkerResult<M extends ImportWorkerMethod> = ReturnType<ImportWorkerMethods[M]>;
+
+export interface ImportWorkerRequest {
+  id: number;
+  method: ImportWorkerMethod;
+  args: unknown;
+}
+
+export type ImportWorkerResponse =
+  | { id: number; type: 'progress'; label: string; done?: number; total?: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+// Rejection of calls that were still running when the user cancelled
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+export class ImportWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingCall>();
+
+  // Buffers listed in transfer are moved to the worker rather than copied
+  call<M extends ImportWorkerMethod>(
+    method: M,
+    args: ImportWorkerArgs<M>,
+    onProgress?: ProgressCallback,
+    transfer: Transferable[] = []
+  ): Promise<ImportWorkerResult<M>> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+      const request: ImportWorkerRequest = { id, method, args };
+      this.getWorker().postMessage(request, transfer);
+    });
+  }
+
+  // XLSX.read can't be interrupted, so cancelling stops the worker; the next call starts a fresh one
+  cancel() {
+    this.worker?.terminate();
+    this.worker = null;
+    const calls = Array.from(this.pending.values());
+    this.pending.clear();
+    calls.forEach(call => call.reject(new ImportCancelledError()));
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./ImportWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = event => {
+        const calls = Array.from(this.pending.values());
+        this.pending.clear();
+        calls.forEach(call => call.reject(new Error(event.message || 'Import worker failed')));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: ImportWorkerResponse) {
+    const call = this.pending.get(response.id);
+    if (!call) return;
+    if (response.type === 'progress') {
+      call.onProgress?.(response.label, response.done, response.total);
+      return;
+    }
+    this.pending.delete(response.id);
+    if (response.type === 'result') call.resolve(response.result);
+    else call.reject(new Error(response.message));
+  }
+}
+
+// One worker shared by the file upload and the merge
+export const importWorker = new ImportWorkerClient();
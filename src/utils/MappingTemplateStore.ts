@@ -0,0 +1,158 @@
+import Dexie, { type EntityTable } from 'dexie';
+import type { ColumnMapping } from '../components/ColumnMappingDialog';
+
+// Saved column-mapping templates, keyed by the header signature of the sheet they were made for.
+// Stored locally in IndexedDB so nothing leaves the browser.
+
+export interface MetadataMappingTemplate {
+  animalIdColumn: string;
+  metadataColumns: string[];
+}
+
+export interface MappingTemplate {
+  id: number;
+  name: string;
+  headerSignature: string;
+  columns: string[];
+  columnMapping?: ColumnMapping;
+  metadataMapping?: MetadataMappingTemplate;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MappingTemplateKind = 'columns' | 'metadata';
+
+const TEMPLATE_FILE_VERSION = 1;
+
+const db = new Dexie('tgai-mapping-templates') as Dexie & {
+  templates: EntityTable<MappingTemplate, 'id'>;
+};
+
+db.version(1).stores({
+  templates: '++id, name, headerSignature'
+});
+
+// Normalise a header row so cosmetic differences (case, spacing, placeholder columns) don't break matching
+export function computeHeaderSignature(columns: string[]): string {
+  return columns
+    .filter(col => !/^_EMPTY_\d+$/.test(col))
+    .map(col => String(col).trim().toLowerCase().replace(/\s+/g, ' '))
+    .join('|');
+}
+
+export async function listTemplates(): Promise<MappingTemplate[]> {
+  const templates = await db.templates.toArray();
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Find the template saved for a sheet with exactly these headers
+export async function findTemplateForColumns(
+  columns: string[],
+  kind: MappingTemplateKind
+): Promise<MappingTemplate | undefined> {
+  const signature = computeHeaderSignature(columns);
+  const matches = await db.templates.where('headerSignature').equals(signature).toArray();
+  return matches
+    .filter(t => (kind === 'columns' ? !!t.columnMapping : !!t.metadataMapping))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+// Save a mapping for the given headers. A template with the same name and headers is updated in place;
+// a mapping kind that isn't given keeps what the template already had.
+export async function saveTemplate(
+  name: string,
+  columns: string[],
+  mapping: { columnMapping?: ColumnMapping; metadataMapping?: MetadataMappingTemplate }
+): Promise<MappingTemplate> {
+  const headerSignature = computeHeaderSignature(columns);
+  const now = new Date().toISOString();
+  const existing = await db.templates
+    .where('headerSignature').equals(headerSignature)
+    .filter(t => t.name === name)
+    .first();
+
+  if (existing) {
+    const updated: MappingTemplate = {
+      ...existing,
+      columnMapping: mapping.columnMapping ?? existing.columnMapping,
+      metadataMapping: mapping.metadataMapping ?? existing.metadataMapping,
+      columns,
+      updatedAt: now
+    };
+    await db.templates.put(updated);
+    return updated;
+  }
+
+  const template: Omit<MappingTemplate, 'id'> = {
+    name,
+    headerSignature,
+    columns,
+    ...mapping,
+    createdAt: now,
+    updatedAt: now
+  };
+  const id = await db.templates.add(template as MappingTemplate);
+  return { ...template, id };
+}
+
+// Names are unique per header signature, since saving looks templates up by both
+export async function renameTemplate(id: number, name: string): Promise<void> {
+  const template = await db.templates.get(id);
+  if (!template) throw new Error('Template no longer exists.');
+  const clash = await db.templates
+    .where('headerSignature').equals(template.headerSignature)
+    .filter(t => t.name === name && t.id !== id)
+    .first();
+  if (clash) throw new Error(`A template named "${name}" already exists for these headers.`);
+  await db.templates.update(id, { name, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteTemplate(id: number): Promise<void> {
+  await db.templates.delete(id);
+}
+
+export async function exportTemplatesToJSON(): Promise<string> {
+  const templates = await listTemplates();
+  return JSON.stringify({
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(t => ({
+      name: t.name,
+      headerSignature: t.headerSignature,
+      columns: t.columns,
+      columnMapping: t.columnMapping,
+      metadataMapping: t.metadataMapping,
+      createdAt: t.createdAt,
+      updatedAt: t.updatedAt
+    }))
+  }, null, 2);
+}
+
+// Import templates shared by a colleague. Templates with the same name and headers are updated with the imported mappings.
+export async function importTemplatesFromJSON(json: string): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Template file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { templates?: unknown[] })?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error('Template file does not contain a list of templates.');
+  }
+
+  let imported = 0;
+  for (const entry of entries as Partial<MappingTemplate>[]) {
+    if (!entry || typeof entry.name !== 'string' || !Array.isArray(entry.columns)) continue;
+    if (!entry.columnMapping && !entry.metadataMapping) continue;
+    await saveTemplate(entry.name, entry.columns, {
+      columnMapping: entry.columnMapping,
+      metadataMapping: entry.metadataMapping
+    });
+    imported++;
+  }
+  return imported;
+}
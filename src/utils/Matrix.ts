@@ -0,0 +1,59 @@
+// Small dense matrix helpers for the model fits (log-rank, Cox, mixed models)
+
+export type Matrix = number[][];
+
+export const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (a: Matrix): Matrix => (a.length === 0 ? [] : a[0].map((_, j) => a.map(row => row[j])));
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+}
+
+export const multiplyVector = (a: Matrix, v: number[]): number[] =>
+  a.map(row => row.reduce((sum, value, j) => sum + value * v[j], 0));
+
+export const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+// Inverse by Gauss-Jordan elimination with partial pivoting; null when singular
+export function invert(a: Matrix): Matrix | null {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const scale = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= scale;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= factor * m[col][j];
+    }
+  }
+  return m.map(row => row.slice(n));
+}
+
+// Log determinant of a symmetric positive definite matrix via Cholesky; NaN when not positive definite
+export function logDeterminant(a: Matrix): number {
+  const n = a.length;
+  const l: Matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  let logDet = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (sum <= 0) return NaN;
+        l[i][i] = Math.sqrt(sum);
+        logDet += 2 * Math.log(l[i][i]);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return logDet;
+}
@@ -0,0 +1,312 @@
+// Linear mixed-effects model for log tumour volume: group, day and group × day fixed effects with a
+// random intercept and slope per animal, fitted by REML. Animals contribute whatever visits they have,
+// so unequal timepoints and dropouts need no imputation.
+
+import { fDistributionPValue, tQuantile, tTwoSidedPValue } from './StatisticalAnalysis';
+import { invert, logDeterminant, multiplyVector, dot, type Matrix } from './Matrix';
+import { nelderMead } from './Optimize';
+
+export interface MixedModelObservation {
+  animalId: string;
+  group: string;
+  day: number;
+  volume: number;
+}
+
+export type FixedEffectTerm = 'intercept' | 'group' | 'day' | 'group_day';
+
+export interface FixedEffect {
+  name: string;
+  term: FixedEffectTerm;
+  // Treatment group of group and group × day terms
+  group?: string;
+  estimate: number;
+  standardError: number;
+  df: number;
+  t: number;
+  pValue: number;
+  lower: number;
+  upper: number;
+}
+
+// Growth rates are slopes of log volume per day
+export interface GroupGrowthRate {
+  group: string;
+  rate: number;
+  lower: number;
+  upper: number;
+  // Days for the typical tumour to double at that rate; Infinity when not growing
+  doublingTime: number;
+}
+
+export interface GrowthRateComparison {
+  group: string;
+  difference: number;
+  standardError: number;
+  lower: number;
+  upper: number;
+  df: number;
+  t: number;
+  pValue: number;
+}
+
+export interface FittedPoint {
+  animalId: string;
+  group: string;
+  day: number;
+  logObserved: number;
+  // Including the animal's own intercept and slope, and from the group's fixed effects alone
+  logFitted: number;
+  logPopulation: number;
+}
+
+export interface GrowthModelFit {
+  controlGroup: string;
+  groups: string[];
+  baselineDay: number;
+  fixedEffects: FixedEffect[];
+  groupRates: GroupGrowthRate[];
+  comparisons: GrowthRateComparison[];
+  // Any difference in growth rate between groups (all group × day terms together)
+  interactionTest: { fStatistic: number; df1: number; df2: number; pValue: number };
+  randomEffects: { interceptSD: number; slopeSD: number; correlation: number; residualSD: number };
+  remlLogLikelihood: number;
+  nObservations: number;
+  nAnimals: number;
+  // Measurements left out because log volume is undefined for them
+  excludedObservations: number;
+  converged: boolean;
+  fitted: FittedPoint[];
+}
+
+interface AnimalBlock {
+  animalId: string;
+  group: string;
+  x: Matrix;
+  z: Matrix;
+  y: number[];
+  xtx: Matrix;
+  xtz: Matrix;
+  ztz: Matrix;
+  xty: number[];
+  zty: number[];
+  yty: number;
+}
+
+const crossProduct = (a: Matrix, b: Matrix): Matrix =>
+  a[0].map((_, i) => b[0].map((__, j) => a.reduce((sum, row, r) => sum + row[i] * b[r][j], 0)));
+
+const transposeProduct = (a: Matrix, v: number[]) => a[0].map((_, i) => a.reduce((sum, row, r) => sum + row[i] * v[r], 0));
+
+const inverse2 = (m: Matrix): Matrix => {
+  const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+  return [[m[1][1] / det, -m[0][1] / det], [-m[1][0] / det, m[0][0] / det]];
+};
+
+// I + Λ'Z'ZΛ, the 2 × 2 core of each animal's marginal covariance (Woodbury form)
+const coreMatrix = (ztz: Matrix, lambda: Matrix): Matrix =>
+  crossProduct(lambda, crossProduct(ztz, lambda)).map((row, i) => row.map((v, j) => v + (i === j ? 1 : 0)));
+
+interface Profile {
+  deviance: number;
+  beta: number[];
+  sigma2: number;
+  xtwxInverse: Matrix;
+}
+
+// REML deviance with beta and the residual variance profiled out; theta holds the relative Cholesky factor of
+// the random-effects covariance, [l11, l21, l22]
+function profile(blocks: AnimalBlock[], theta: number[], p: number, n: number): Profile | null {
+  const lambda: Matrix = [[theta[0], 0], [theta[1], theta[2]]];
+  const lambdaT: Matrix = [[theta[0], theta[1]], [0, theta[2]]];
+  const xtwx: Matrix = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xtwy = new Array<number>(p).fill(0);
+  let ytwy = 0;
+  let logDetA = 0;
+
+  for (const block of blocks) {
+    const a = coreMatrix(block.ztz, lambda);
+    const detA = a[0][0] * a[1][1] - a[0][1] * a[1][0];
+    if (!(detA > 0)) return null;
+    logDetA += Math.log(detA);
+    const aInverse = inverse2(a);
+    const b = block.xtz.map(row => [row[0] * lambda[0][0] + row[1] * lambda[1][0], row[1] * lambda[1][1]]);
+    const c = multiplyVector(lambdaT, block.zty);
+    const bAinv = b.map(row => [row[0] * aInverse[0][0] + row[1] * aInverse[1][0], row[0] * aInverse[0][1] + row[1] * aInverse[1][1]]);
+    for (let i = 0; i < p; i++) {
+      xtwy[i] += block.xty[i] - dot(bAinv[i], c);
+      for (let j = 0; j < p; j++) xtwx[i][j] += block.xtx[i][j] - dot(bAinv[i], b[j]);
+    }
+    ytwy += block.yty - dot(c, multiplyVector(aInverse, c));
+  }
+
+  const xtwxInverse = invert(xtwx);
+  const logDetX = logDeterminant(xtwx);
+  if (!xtwxInverse || !Number.isFinite(logDetX)) return null;
+  const beta = multiplyVector(xtwxInverse, xtwy);
+  const residual = ytwy - dot(beta, xtwy);
+  if (!(residual > 0)) return null;
+  const dfResidual = n - p;
+  return {
+    deviance: logDetA + logDetX + dfResidual * (1 + Math.log(2 * Math.PI * residual / dfResidual)),
+    beta,
+    sigma2: residual / dfResidual,
+    xtwxInverse
+  };
+}
+
+export function fitGrowthMixedModel(
+  observations: MixedModelObservation[],
+  groups: string[],
+  controlGroup: string,
+  confidence = 0.95
+): GrowthModelFit | null {
+  const usable = observations.filter(o =>
+    groups.includes(o.group) && Number.isFinite(o.day) && Number.isFinite(o.volume) && o.volume > 0
+  );
+  const present = new Set(usable.map(o => o.group));
+  const modelGroups = [controlGroup, ...groups.filter(g => g !== controlGroup)].filter(g => present.has(g));
+  if (modelGroups.length < 2 || modelGroups[0] !== controlGroup) return null;
+
+  const k = modelGroups.length;
+  const p = 2 * k;
+  const baselineDay = Math.min(...usable.map(o => o.day));
+  const row = (group: string, day: number) => {
+    const t = day - baselineDay;
+    const dummies = modelGroups.slice(1).map(g => (g === group ? 1 : 0));
+    return [1, ...dummies, t, ...dummies.map(d => d * t)];
+  };
+
+  const byAnimal = new Map<string, MixedModelObservation[]>();
+  usable.forEach(o => byAnimal.set(o.animalId, [...(byAnimal.get(o.animalId) || []), o]));
+  const blocks: AnimalBlock[] = Array.from(byAnimal.entries()).map(([animalId, points]) => {
+    points.sort((a, b) => a.day - b.day);
+    const x = points.map(o => row(o.group, o.day));
+    const z = points.map(o => [1, o.day - baselineDay]);
+    const y = points.map(o => Math.log(o.volume));
+    return {
+      animalId,
+      group: points[0].group,
+      x, z, y,
+      xtx: crossProduct(x, x),
+      xtz: crossProduct(x, z),
+      ztz: crossProduct(z, z),
+      xty: transposeProduct(x, y),
+      zty: transposeProduct(z, y),
+      yty: dot(y, y)
+    };
+  });
+
+  const n = usable.length;
+  const nAnimals = blocks.length;
+  if (n - p < 1 || nAnimals <= k) return null;
+
+  const deviance = (theta: number[]) => profile(blocks, theta, p, n)?.deviance ?? Infinity;
+  let best = nelderMead(deviance, [1, 0, 0.1], { step: 0.5 });
+  // Restart from the optimum to escape a collapsed simplex
+  best = nelderMead(deviance, best.point, { step: 0.2 });
+  const fit = profile(blocks, best.point, p, n);
+  if (!fit) return null;
+
+  const { beta, sigma2 } = fit;
+  const covariance = fit.xtwxInverse.map(r => r.map(v => v * sigma2));
+  const [l11, l21, l22] = best.point;
+  const g00 = sigma2 * l11 * l11;
+  const g01 = sigma2 * l11 * l21;
+  const g11 = sigma2 * (l21 * l21 + l22 * l22);
+
+  // Containment degrees of freedom, as in nlme: between-animal terms against animals, within-animal terms against visits
+  const betweenDf = Math.max(1, nAnimals - k);
+  const withinDf = Math.max(1, n - nAnimals - k);
+  const level = 1 - (1 - confidence) / 2;
+  const interval = (estimate: number, se: number, df: number) => {
+    const q = tQuantile(level, df);
+    return { lower: estimate - q * se, upper: estimate + q * se };
+  };
+
+  const treated = modelGroups.slice(1);
+  const terms: { name: string; term: FixedEffectTerm; group?: string }[] = [
+    { name: '(Intercept)', term: 'intercept' },
+    ...treated.map(group => ({ name: group, term: 'group' as const, group })),
+    { name: 'Day', term: 'day' },
+    ...treated.map(group => ({ name: `${group} × Day`, term: 'group_day' as const, group }))
+  ];
+  const fixedEffects: FixedEffect[] = terms.map((term, i) => {
+    const standardError = Math.sqrt(covariance[i][i]);
+    const df = i < k ? betweenDf : withinDf;
+    const t = beta[i] / standardError;
+    return { ...term, estimate: beta[i], standardError, df, t, pValue: tTwoSidedPValue(t, df), ...interval(beta[i], standardError, df) };
+  });
+
+  const groupRates: GroupGrowthRate[] = modelGroups.map((group, j) => {
+    const rate = j === 0 ? beta[k] : beta[k] + beta[k + j];
+    const variance = j === 0
+      ? covariance[k][k]
+      : covariance[k][k] + covariance[k + j][k + j] + 2 * covariance[k][k + j];
+    return { group, rate, ...interval(rate, Math.sqrt(variance), withinDf), doublingTime: rate > 0 ? Math.log(2) / rate : Infinity };
+  });
+
+  const comparisons: GrowthRateComparison[] = modelGroups.slice(1).map((group, index) => {
+    const i = k + 1 + index;
+    const effect = fixedEffects[i];
+    return {
+      group,
+      difference: effect.estimate,
+      standardError: effect.standardError,
+      lower: effect.lower,
+      upper: effect.upper,
+      df: withinDf,
+      t: effect.t,
+      pValue: effect.pValue
+    };
+  });
+
+  const interactionIndices = modelGroups.slice(1).map((_, index) => k + 1 + index);
+  const interactionInverse = invert(interactionIndices.map(i => interactionIndices.map(j => covariance[i][j])));
+  const interactionBeta = interactionIndices.map(i => beta[i]);
+  const fStatistic = interactionInverse ? dot(interactionBeta, multiplyVector(interactionInverse, interactionBeta)) / (k - 1) : NaN;
+
+  const lambda: Matrix = [[l11, 0], [l21, l22]];
+  const lambdaT: Matrix = [[l11, l21], [0, l22]];
+  const fitted: FittedPoint[] = blocks.flatMap(block => {
+    const population = multiplyVector(block.x, beta);
+    const a = coreMatrix(block.ztz, lambda);
+    const residual = block.y.map((v, r) => v - population[r]);
+    const randomEffects = multiplyVector(lambda, multiplyVector(inverse2(a), multiplyVector(lambdaT, transposeProduct(block.z, residual))));
+    return block.y.map((logObserved, r) => ({
+      animalId: block.animalId,
+      group: block.group,
+      day: block.z[r][1] + baselineDay,
+      logObserved,
+      logFitted: population[r] + dot(block.z[r], randomEffects),
+      logPopulation: population[r]
+    }));
+  });
+
+  return {
+    controlGroup,
+    groups: modelGroups,
+    baselineDay,
+    fixedEffects,
+    groupRates,
+    comparisons,
+    interactionTest: {
+      fStatistic,
+      df1: k - 1,
+      df2: withinDf,
+      pValue: Number.isFinite(fStatistic) ? fDistributionPValue(fStatistic, k - 1, withinDf) : NaN
+    },
+    randomEffects: {
+      interceptSD: Math.sqrt(g00),
+      slopeSD: Math.sqrt(g11),
+      correlation: g00 > 0 && g11 > 0 ? g01 / Math.sqrt(g00 * g11) : 0,
+      residualSD: Math.sqrt(sigma2)
+    },
+    remlLogLikelihood: -fit.deviance / 2,
+    nObservations: n,
+    nAnimals,
+    excludedObservations: observations.filter(o => groups.includes(o.group)).length - n,
+    converged: best.converged,
+    fitted
+  };
+}
@@ -0,0 +1,105 @@
+// Locale-aware reading of numbers typed as text: "123,4" and "1.234,5" from decimal-comma locales
+// as well as "123.4" and "1,234.5", detected per column
+
+export type NumberLocale = 'point' | 'comma';
+export type NumberLocaleSetting = 'auto' | NumberLocale;
+
+export const NUMBER_LOCALE_LABELS: Record<NumberLocaleSetting, string> = {
+  auto: 'Auto-detect per column',
+  point: '1,234.5 (decimal point)',
+  comma: '1.234,5 (decimal comma)'
+};
+
+// A text cell that could be read in either format, or that didn't follow its column's format
+export interface AmbiguousNumber {
+  rowIndex: number;
+  column: string;
+  text: string;
+  value: number;
+  alternative: number | null;
+}
+
+// Thousands groups may also be separated by spaces (\s covers non-breaking ones) or apostrophes
+const NUMBER_PATTERNS: Record<NumberLocale, { pattern: RegExp; group: RegExp; decimal: string }> = {
+  point: {
+    pattern: /^[+-]?(\d+|\d{1,3}([,\s']\d{3})+)?(\.\d+)?([eE][+-]?\d+)?$/,
+    group: /[,\s']/g,
+    decimal: '.'
+  },
+  comma: {
+    pattern: /^[+-]?(\d+|\d{1,3}([.\s']\d{3})+)?(,\d+)?$/,
+    group: /[.\s']/g,
+    decimal: ','
+  }
+};
+
+const otherLocale = (locale: NumberLocale): NumberLocale => (locale === 'point' ? 'comma' : 'point');
+
+// Text read in one locale, or null if it isn't a number written that way
+function readAs(text: string, locale: NumberLocale): number | null {
+  const trimmed = text.trim();
+  const { pattern, group, decimal } = NUMBER_PATTERNS[locale];
+  if (!/\d/.test(trimmed) || !pattern.test(trimmed)) return null;
+  const n = Number(trimmed.replace(group, '').replace(decimal, '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+// Numbers pass through; text is read in the given locale
+export function parseNumber(value: unknown, locale: NumberLocale = 'point'): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  return readAs(value, locale);
+}
+
+// Cells only one locale can read decide the column; "1,234" on its own proves nothing
+export function detectNumberLocale(values: unknown[]): { locale: NumberLocale; decided: boolean; ambiguousCount: number } {
+  let point = 0;
+  let comma = 0;
+  let ambiguousCount = 0;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const asPoint = readAs(value, 'point');
+    const asComma = readAs(value, 'comma');
+    if (asPoint !== null && asComma === null) point++;
+    else if (asComma !== null && asPoint === null) comma++;
+    else if (asPoint !== null && asComma !== null && asPoint !== asComma) ambiguousCount++;
+  });
+  return { locale: comma > point ? 'comma' : 'point', decided: point + comma > 0, ambiguousCount };
+}
+
+// Convert numeric text in the given columns, reporting cells whose reading was a guess
+export function parseNumericColumns(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  setting: NumberLocaleSetting = 'auto'
+): { rows: Record<string, unknown>[]; ambiguous: AmbiguousNumber[]; locales: Record<string, NumberLocale> } {
+  const ambiguous: AmbiguousNumber[] = [];
+  const locales: Record<string, NumberLocale> = {};
+  const parsedRows = rows.map(row => ({ ...row }));
+
+  columns.forEach(column => {
+    const detection = setting === 'auto' ? detectNumberLocale(rows.map(row => row[column])) : null;
+    const locale = detection ? detection.locale : (setting as NumberLocale);
+    const decided = detection ? detection.decided : true;
+    locales[column] = locale;
+
+    parsedRows.forEach((row, rowIndex) => {
+      const text = row[column];
+      if (typeof text !== 'string' || text.trim() === '') return;
+      const value = readAs(text, locale);
+      const alternative = readAs(text, otherLocale(locale));
+      if (value !== null) {
+        row[column] = value;
+        if (!decided && alternative !== null && alternative !== value) {
+          ambiguous.push({ rowIndex, column, text, value, alternative });
+        }
+      } else if (alternative !== null) {
+        // Written in the other format, e.g. "12.5" in a decimal-comma column
+        row[column] = alternative;
+        ambiguous.push({ rowIndex, column, text, value: alternative, alternative: null });
+      }
+    });
+  });
+
+  return { rows: parsedRows, ambiguous, locales };
+}
@@ -0,0 +1,68 @@
+// Derivative-free minimisation for the model fits (mixed-model variance components, growth curves)
+
+export interface Minimum {
+  point: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+// Nelder-Mead simplex search from start, with initial steps of size step along each axis
+export function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  { step = 0.1, tolerance = 1e-10, maxIterations = 2000 } = {}
+): Minimum {
+  const n = start.length;
+  const evaluate = (x: number[]) => {
+    const value = f(x);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + (v !== 0 ? step * Math.abs(v) : step) : v)))]
+    .map(point => ({ point, value: evaluate(point) }));
+
+  let iterations = 0;
+  let converged = false;
+  while (iterations < maxIterations) {
+    iterations++;
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) <= tolerance * (Math.abs(best.value) + tolerance)) {
+      converged = true;
+      break;
+    }
+
+    const centroid = new Array<number>(n).fill(0);
+    simplex.slice(0, n).forEach(({ point }) => point.forEach((v, j) => { centroid[j] += v / n; }));
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.point[j] - c));
+
+    const reflected = along(-1);
+    const reflectedValue = evaluate(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = evaluate(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = reflectedValue < worst.value ? along(-0.5) : along(0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[n] = { point: contracted, value: contractedValue };
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex;
+          const point = vertex.point.map((v, j) => best.point[j] + 0.5 * (v - best.point[j]));
+          return { point, value: evaluate(point) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { point: simplex[0].point, value: simplex[0].value, iterations, converged };
+}
@@ -1,10 +1,12 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { withUnit, type UnitCode } from './Units';
 
 export interface PDFExportOptions {
   filename?: string;
   includeTimestamp?: boolean;
   quality?: number;
+  methods?: string[];
 }
 
 export class PDFExport {
@@ -47,6 +49,10 @@ export class PDFExport {
       const imgData = canvas.toDataURL('image/png');
       pdf.addImage(imgData, 'PNG', 0, 0, imgWidth, imgHeight);
 
+      if (opts.methods && opts.methods.length > 0) {
+        this.addMethodsPage(pdf, opts.methods);
+      }
+
       // Generate filename
       const filename = this.generateFilename(opts.filename!, opts.includeTimestamp!);
       
@@ -108,6 +114,10 @@ export class PDFExport {
         isFirstPage = false;
       }
 
+      if (opts.methods && opts.methods.length > 0) {
+        this.addMethodsPage(pdf, opts.methods);
+      }
+
       // Generate filename
       const filename = this.generateFilename(opts.filename!, opts.includeTimestamp!);
       
@@ -125,7 +135,7 @@ export class PDFExport {
   static async exportDataTableToPDF(
     data: any[],
     columns: string[],
-    options: PDFExportOptions & { title?: string } = {}
+    options: PDFExportOptions & { title?: string; parameterUnits?: Record<string, UnitCode> } = {}
   ): Promise<void> {
     const opts = { ...this.defaultOptions, ...options };
     
@@ -159,8 +169,9 @@ export class PDFExport {
       pdf.rect(10, currentY, 280, headerHeight, 'F');
       
       const colWidth = 280 / columns.length;
-      columns.forEach((col, index) => {
-        pdf.text(col, 12 + (index * colWidth), currentY + 7);
+      const headers = columns.map(col => withUnit(col, opts.parameterUnits?.[col]));
+      headers.forEach((header, index) => {
+        pdf.text(header, 12 + (index * colWidth), currentY + 7);
       });
       
       currentY += headerHeight;
@@ -178,8 +189,8 @@ export class PDFExport {
           pdf.setFillColor(138, 0, 81);
           pdf.rect(10, currentY, 280, headerHeight, 'F');
           
-          columns.forEach((col, index) => {
-            pdf.text(col, 12 + (index * colWidth), currentY + 7);
+          headers.forEach((header, index) => {
+            pdf.text(header, 12 + (index * colWidth), currentY + 7);
           });
           
           currentY += headerHeight;
@@ -202,6 +213,10 @@ export class PDFExport {
         currentY += rowHeight;
       });
 
+      if (opts.methods && opts.methods.length > 0) {
+        this.addMethodsPage(pdf, opts.methods);
+      }
+
       // Generate filename
       const filename = this.generateFilename(opts.filename!, opts.includeTimestamp!);
       
@@ -213,6 +228,32 @@ export class PDFExport {
     }
   }
 
+  /**
+   * Append a page stating how the data were derived (formulas, conversions, etc.)
+   */
+  private static addMethodsPage(pdf: jsPDF, methods: string[]): void {
+    pdf.addPage();
+    pdf.setFontSize(16);
+    pdf.setTextColor(138, 0, 81);
+    pdf.text('Methods', 10, 15);
+
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const textWidth = pdf.internal.pageSize.getWidth() - 20;
+    let currentY = 25;
+    methods.forEach(line => {
+      // The built-in PDF fonts have no Greek glyphs or arrows
+      const wrapped: string[] = pdf.splitTextToSize(`• ${line.replace(/π/g, 'pi').replace(/→/g, '->')}`, textWidth);
+      if (currentY + wrapped.length * 5 > pageHeight - 15) {
+        pdf.addPage();
+        currentY = 15;
+      }
+      pdf.text(wrapped, 10, currentY);
+      currentY += wrapped.length * 5 + 2;
+    });
+  }
+
   /**
    * Generate filename with optional timestamp
    */
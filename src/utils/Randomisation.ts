@@ -0,0 +1,221 @@
+// Allocate enrolled animals to treatment groups so baseline tumour volumes are balanced,
+// reproducibly from a recorded seed
+
+import type { ParsedData } from '../components/FileUpload';
+import { mean, median, oneWayAnova, standardDeviation, type AnovaResult } from './StatisticalAnalysis';
+
+export type RandomisationMethod = 's_shaped' | 'matched' | 'random';
+
+export const RANDOMISATION_METHOD_LABELS: Record<RandomisationMethod, string> = {
+  s_shaped: 'S-shaped distribution',
+  matched: 'Matched blocks (stratified)',
+  random: 'Simple random'
+};
+
+export interface RandomisationGroup {
+  name: string;
+  n: number;
+}
+
+export interface RandomisationSettings {
+  parameter: string;
+  baselineDay: number;
+  // Inclusion window on the baseline value; undefined means open-ended
+  minValue?: number;
+  maxValue?: number;
+  groups: RandomisationGroup[];
+  method: RandomisationMethod;
+  seed: number;
+}
+
+export interface Allocation {
+  animalId: string;
+  baseline: number;
+  group: string;
+}
+
+export interface ExcludedAnimal {
+  animalId: string;
+  baseline?: number;
+  reason: string;
+}
+
+export interface GroupBalance {
+  group: string;
+  n: number;
+  mean: number;
+  sd: number;
+  median: number;
+}
+
+export interface RandomisationResult {
+  allocations: Allocation[];
+  excluded: ExcludedAnimal[];
+  balance: GroupBalance[];
+  anova: AnovaResult;
+  // Planned animals that the eligible pool could not fill
+  shortfall: number;
+}
+
+// Small seeded PRNG (mulberry32) so the same seed always gives the same allocation
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const newSeed = () => Math.floor(Math.random() * 1e9);
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Baseline value per animal on the chosen day
+function baselines(data: ParsedData, parameter: string, baselineDay: number): Map<string, number | undefined> {
+  const values = new Map<string, number | undefined>();
+  data.forEach(row => {
+    const animalId = String(row.animalId);
+    if (!values.has(animalId)) values.set(animalId, undefined);
+    const value = row[parameter];
+    if (Number(row.studyDay) === baselineDay && typeof value === 'number' && Number.isFinite(value)) {
+      values.set(animalId, value);
+    }
+  });
+  return values;
+}
+
+// Serpentine dealing down the sorted volumes: 1..k, k..1, ... skipping full groups
+function sShaped(animals: Allocation[], groups: RandomisationGroup[], random: () => number): Allocation[] {
+  const order = shuffle(groups.map((_, i) => i), random);
+  const counts = groups.map(() => 0);
+  const sorted = [...animals].sort((a, b) => b.baseline - a.baseline);
+  const result: Allocation[] = [];
+  let forward = true;
+  let position = 0;
+  sorted.forEach(animal => {
+    // Advance along the serpentine to the next group with space
+    for (let tries = 0; tries < 2 * groups.length; tries++) {
+      const index = order[forward ? position : groups.length - 1 - position];
+      position++;
+      if (position === groups.length) { position = 0; forward = !forward; }
+      if (counts[index] < groups[index].n) {
+        counts[index]++;
+        result.push({ ...animal, group: groups[index].name });
+        return;
+      }
+    }
+  });
+  return result;
+}
+
+// Blocks of similar volume, one animal per group with space, assigned at random within each block
+function matchedBlocks(animals: Allocation[], groups: RandomisationGroup[], random: () => number): Allocation[] {
+  const counts = groups.map(() => 0);
+  const sorted = [...animals].sort((a, b) => a.baseline - b.baseline);
+  const result: Allocation[] = [];
+  while (sorted.length > 0) {
+    const open = groups.map((_, i) => i).filter(i => counts[i] < groups[i].n);
+    if (open.length === 0) break;
+    const block = sorted.splice(0, open.length);
+    const targets = shuffle(open, random);
+    block.forEach((animal, i) => {
+      counts[targets[i]]++;
+      result.push({ ...animal, group: groups[targets[i]].name });
+    });
+  }
+  return result;
+}
+
+function simpleRandom(animals: Allocation[], groups: RandomisationGroup[], random: () => number): Allocation[] {
+  const slots = groups.flatMap(g => Array<string>(g.n).fill(g.name));
+  return shuffle(animals, random).slice(0, slots.length).map((animal, i) => ({ ...animal, group: slots[i] }));
+}
+
+// Mean, SD and median of the baseline per group
+export function groupBalance(allocations: Allocation[], groups: RandomisationGroup[]): GroupBalance[] {
+  return groups.map(g => {
+    const values = allocations.filter(a => a.group === g.name).map(a => a.baseline);
+    return {
+      group: g.name,
+      n: values.length,
+      mean: values.length ? mean(values) : NaN,
+      sd: values.length > 1 ? standardDeviation(values) : NaN,
+      median: values.length ? median(values) : NaN
+    };
+  });
+}
+
+export function randomiseAnimals(data: ParsedData, settings: RandomisationSettings): RandomisationResult {
+  const random = seededRandom(settings.seed);
+  const groups = settings.groups.filter(g => g.name.trim() && g.n > 0);
+  const planned = groups.reduce((sum, g) => sum + g.n, 0);
+  const excluded: ExcludedAnimal[] = [];
+  const eligible: Allocation[] = [];
+
+  baselines(data, settings.parameter, settings.baselineDay).forEach((baseline, animalId) => {
+    if (baseline === undefined) {
+      excluded.push({ animalId, reason: `No ${settings.parameter} on day ${settings.baselineDay}` });
+    } else if (settings.minValue !== undefined && baseline < settings.minValue) {
+      excluded.push({ animalId, baseline, reason: 'Below inclusion window' });
+    } else if (settings.maxValue !== undefined && baseline > settings.maxValue) {
+      excluded.push({ animalId, baseline, reason: 'Above inclusion window' });
+    } else {
+      eligible.push({ animalId, baseline, group: '' });
+    }
+  });
+
+  // With more eligible animals than places, enrol those closest to the median
+  let enrolled = eligible;
+  if (eligible.length > planned) {
+    const centre = median(eligible.map(a => a.baseline));
+    const ranked = shuffle(eligible, random).sort((a, b) => Math.abs(a.baseline - centre) - Math.abs(b.baseline - centre));
+    enrolled = ranked.slice(0, planned);
+    ranked.slice(planned).forEach(a => excluded.push({ animalId: a.animalId, baseline: a.baseline, reason: 'Not needed (furthest from median)' }));
+  }
+
+  const allocate = { s_shaped: sShaped, matched: matchedBlocks, random: simpleRandom }[settings.method];
+  const allocations = allocate(enrolled, groups, random)
+    .sort((a, b) => a.group.localeCompare(b.group) || a.animalId.localeCompare(b.animalId, undefined, { numeric: true }));
+  const balance = groupBalance(allocations, groups);
+
+  return {
+    allocations,
+    excluded: excluded.sort((a, b) => a.animalId.localeCompare(b.animalId, undefined, { numeric: true })),
+    balance,
+    anova: oneWayAnova(groups.map(g => allocations.filter(a => a.group === g.name).map(a => a.baseline))),
+    shortfall: Math.max(0, planned - allocations.length)
+  };
+}
+
+// The allocation as the group metadata field; animals left out keep no group
+export function applyAllocation(data: ParsedData, allocations: Allocation[], groupField: string): ParsedData {
+  const groupById = new Map(allocations.map(a => [a.animalId, a.group]));
+  return data.map(row => {
+    const next = { ...row };
+    const group = groupById.get(String(row.animalId));
+    if (group) next[groupField] = group;
+    else delete next[groupField];
+    return next;
+  });
+}
+
+// Methods statement for the report
+export function describeRandomisation(settings: RandomisationSettings, result: RandomisationResult, unit = ''): string {
+  const suffix = unit ? ` ${unit}` : '';
+  const window = settings.minValue !== undefined || settings.maxValue !== undefined
+    ? `, inclusion window ${settings.minValue ?? '–'} to ${settings.maxValue ?? '–'}${suffix}`
+    : '';
+  const p = Number.isFinite(result.anova.pValue) ? `, ANOVA p = ${result.anova.pValue.toFixed(3)}` : '';
+  return `${RANDOMISATION_METHOD_LABELS[settings.method]} on day ${settings.baselineDay} ${settings.parameter}${window}; ` +
+    `${result.allocations.length} animals into ${result.balance.length} groups (seed ${settings.seed})${p}`;
+}
@@ -0,0 +1,244 @@
+// SAS XPORT (transport) version 5 files, the format SEND datasets are archived in.
+// 80-byte header records, 140-byte variable descriptors, then observations packed back to back;
+// numbers are IBM mainframe doubles.
+
+export type XptValue = string | number | null;
+
+export interface XptVariable {
+  name: string;
+  label: string;
+  type: 'num' | 'char';
+  length: number;
+}
+
+export interface XptDataset {
+  name: string;
+  label: string;
+  variables: XptVariable[];
+  rows: Record<string, XptValue>[];
+}
+
+const RECORD = 80;
+const NAMESTR_LENGTH = 140;
+const HEADER_PREFIX = 'HEADER RECORD*******';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const headerType = (bytes: Uint8Array, offset: number) =>
+  offset + RECORD <= bytes.length && ascii(bytes, offset, 20) === HEADER_PREFIX
+    ? ascii(bytes, offset + 20, 8).trim()
+    : null;
+
+// IBM hexadecimal floating point: sign bit, 7-bit base-16 exponent biased by 64, 56-bit fraction.
+// Short numerics keep only the leading bytes. SAS missing values ('.', '._', '.A'-'.Z') become null.
+export function ibmToNumber(bytes: Uint8Array): number | null {
+  const full = new Uint8Array(8);
+  full.set(bytes.subarray(0, 8));
+  const rest = full.subarray(1);
+  if ((full[0] === 0x2e || full[0] === 0x5f || (full[0] >= 0x41 && full[0] <= 0x5a)) && rest.every(b => b === 0)) {
+    return null;
+  }
+  if (full.every(b => b === 0)) return 0;
+  const sign = full[0] & 0x80 ? -1 : 1;
+  const exponent = (full[0] & 0x7f) - 64;
+  const high = (full[1] << 16) | (full[2] << 8) | full[3];
+  const low = ((full[4] << 24) >>> 0) + ((full[5] << 16) | (full[6] << 8) | full[7]);
+  const fraction = high / 2 ** 24 + low / 2 ** 56;
+  return sign * fraction * 16 ** exponent;
+}
+
+// Inverse of ibmToNumber; null (and NaN) is written as the SAS missing value '.'
+export function numberToIbm(value: number | null): Uint8Array {
+  const bytes = new Uint8Array(8);
+  if (value === null || !Number.isFinite(value)) {
+    bytes[0] = 0x2e;
+    return bytes;
+  }
+  if (value === 0) return bytes;
+  let exponent = 0;
+  let fraction = Math.abs(value);
+  while (fraction >= 1) {
+    fraction /= 16;
+    exponent++;
+  }
+  while (fraction < 1 / 16) {
+    fraction *= 16;
+    exponent--;
+  }
+  bytes[0] = (value < 0 ? 0x80 : 0) | (exponent + 64);
+  let remaining = fraction;
+  for (let i = 1; i < 8; i++) {
+    remaining *= 256;
+    bytes[i] = Math.floor(remaining);
+    remaining -= bytes[i];
+  }
+  return bytes;
+}
+
+function readVariables(bytes: Uint8Array, offset: number, count: number): XptVariable[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: count }, (_, i) => {
+    const start = offset + i * NAMESTR_LENGTH;
+    return {
+      type: view.getInt16(start) === 1 ? 'num' : 'char',
+      length: view.getInt16(start + 4),
+      name: ascii(bytes, start + 8, 8).trim(),
+      label: ascii(bytes, start + 16, 40).trim()
+    };
+  });
+}
+
+// Every dataset (member) in a version 5 transport file
+export function readSasTransport(data: ArrayBuffer): XptDataset[] {
+  const bytes = new Uint8Array(data);
+  if (headerType(bytes, 0) !== 'LIBRARY') {
+    if (headerType(bytes, 0) === 'LIBV8') throw new Error('SAS transport version 8 files are not supported; export as version 5');
+    throw new Error('Not a SAS transport (XPORT) file');
+  }
+
+  const datasets: XptDataset[] = [];
+  let offset = 3 * RECORD;
+  while (headerType(bytes, offset) === 'MEMBER') {
+    // Member header, descriptor header, two descriptor records, then the NAMESTR header with the variable count
+    const descriptor = offset + 2 * RECORD;
+    const name = ascii(bytes, descriptor + 8, 8).trim();
+    const label = ascii(bytes, descriptor + RECORD + 32, 40).trim();
+    const namestrHeader = descriptor + 2 * RECORD;
+    const variableCount = Number(ascii(bytes, namestrHeader + 54, 4));
+    const variables = readVariables(bytes, namestrHeader + RECORD, variableCount);
+
+    const namestrEnd = namestrHeader + RECORD + Math.ceil((variableCount * NAMESTR_LENGTH) / RECORD) * RECORD;
+    const dataStart = namestrEnd + RECORD;
+
+    // Observations run to the next member header (on a record boundary) or the end of the file
+    let dataEnd = dataStart;
+    while (dataEnd < bytes.length && headerType(bytes, dataEnd) !== 'MEMBER') dataEnd += RECORD;
+    dataEnd = Math.min(dataEnd, bytes.length);
+
+    const rowLength = variables.reduce((sum, v) => sum + v.length, 0);
+    const rows: Record<string, XptValue>[] = [];
+    for (let start = dataStart; rowLength > 0 && start + rowLength <= dataEnd; start += rowLength) {
+      const raw = bytes.subarray(start, start + rowLength);
+      // The last record is padded with blanks, which can look like one more row
+      if (dataEnd - start < RECORD && raw.every(b => b === 0x20)) break;
+      const row: Record<string, XptValue> = {};
+      let position = 0;
+      variables.forEach(variable => {
+        const cell = raw.subarray(position, position + variable.length);
+        row[variable.name] = variable.type === 'num'
+          ? ibmToNumber(cell)
+          : ascii(cell, 0, cell.length).replace(/\s+$/, '');
+        position += variable.length;
+      });
+      rows.push(row);
+    }
+
+    datasets.push({ name, label, variables, rows });
+    offset = dataEnd;
+  }
+  return datasets;
+}
+
+// Writing: fields are blank-padded ASCII; non-ASCII characters are replaced so every character is one byte
+const toAscii = (value: string) => value.replace(/[^\x20-\x7e]/g, '?');
+
+const field = (value: string, length: number) => toAscii(value).slice(0, length).padEnd(length, ' ');
+
+const headerRecord = (type: string, tail = '0'.repeat(30)) =>
+  field(`${HEADER_PREFIX}${type.padEnd(8, ' ')}HEADER RECORD!!!!!!!${tail}`, RECORD);
+
+// "ddMMMyy:hh:mm:ss", the timestamp format of the header records
+function sasTimestamp(date: Date): string {
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}${months[date.getMonth()]}${pad(date.getFullYear() % 100)}:` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+class RecordWriter {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+
+  text(value: string) {
+    this.bytes(Uint8Array.from(value, c => c.charCodeAt(0)));
+  }
+
+  bytes(value: Uint8Array) {
+    this.chunks.push(value);
+    this.length += value.length;
+  }
+
+  // Blank-pad to the next 80-byte record
+  padRecord() {
+    const rest = this.length % RECORD;
+    if (rest > 0) this.text(' '.repeat(RECORD - rest));
+  }
+
+  result(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return out;
+  }
+}
+
+function namestr(variable: XptVariable, index: number, position: number): Uint8Array {
+  const bytes = new Uint8Array(NAMESTR_LENGTH);
+  const view = new DataView(bytes.buffer);
+  const ascii = (text: string, offset: number, length: number) =>
+    bytes.set(Uint8Array.from(field(text, length), c => c.charCodeAt(0)), offset);
+  view.setInt16(0, variable.type === 'num' ? 1 : 2);
+  view.setInt16(4, variable.length);
+  view.setInt16(6, index + 1);
+  ascii(variable.name.toUpperCase(), 8, 8);
+  ascii(variable.label, 16, 40);
+  ascii('', 56, 8);
+  ascii('', 70, 2);
+  ascii('', 72, 8);
+  view.setInt32(84, position);
+  return bytes;
+}
+
+// A version 5 transport file; names are upper-cased and cut to 8 characters, labels to 40,
+// character values to their variable's length (at most 200)
+export function writeSasTransport(datasets: XptDataset[], created = new Date()): Uint8Array {
+  const stamp = sasTimestamp(created);
+  const out = new RecordWriter();
+  out.text(headerRecord('LIBRARY'));
+  out.text(field(`${field('SAS', 8)}${field('SAS', 8)}${field('SASLIB', 8)}${field('9.4', 8)}${field('', 8)}${' '.repeat(24)}${stamp}`, RECORD));
+  out.text(field(stamp, RECORD));
+
+  datasets.forEach(dataset => {
+    out.text(headerRecord('MEMBER', '000000000000000001600000000140'));
+    out.text(headerRecord('DSCRPTR'));
+    out.text(field(`${field('SAS', 8)}${field(dataset.name.toUpperCase(), 8)}${field('SASDATA', 8)}${field('9.4', 8)}${field('', 8)}${' '.repeat(24)}${stamp}`, RECORD));
+    out.text(field(`${stamp}${' '.repeat(16)}${field(dataset.label, 40)}${field('', 8)}`, RECORD));
+    out.text(headerRecord('NAMESTR', `000000${String(dataset.variables.length).padStart(4, '0')}${'0'.repeat(20)}`));
+
+    let position = 0;
+    dataset.variables.forEach((variable, index) => {
+      out.bytes(namestr(variable, index, position));
+      position += variable.length;
+    });
+    out.padRecord();
+
+    out.text(headerRecord('OBS'));
+    dataset.rows.forEach(row => {
+      dataset.variables.forEach(variable => {
+        const value = row[variable.name];
+        if (variable.type === 'num') {
+          const number = value === null || value === undefined || value === '' ? null : Number(value);
+          out.bytes(numberToIbm(number).subarray(0, variable.length));
+        } else {
+          out.text(field(value === null || value === undefined ? '' : String(value), variable.length));
+        }
+      });
+    });
+    out.padRecord();
+  });
+  return out.result();
+}
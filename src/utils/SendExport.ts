@@ -0,0 +1,273 @@
+// SEND-style export of the analysed dataset (after import exclusions and unit conversion):
+// DM, BW and a tumour measurements domain, plus a define-like description of every variable
+
+import Papa from 'papaparse';
+import type { ParsedData } from '../components/FileUpload';
+import type { XptDataset, XptValue, XptVariable } from './SasTransport';
+import type { UnitCode } from './Units';
+import { groupValues, metadataFields, type StudyDesign } from './StudyDesign';
+
+export type SendSex = 'M' | 'F' | 'U';
+
+// Controlled terminology and codes the dataset can't supply, filled in the export dialog
+export interface SendExportSettings {
+  studyId: string;
+  species: string;
+  strain: string;
+  // For animals without a recognisable sex in the data
+  defaultSex: SendSex;
+  groupField: string;
+  // ARMCD (and SETCD) per group value
+  armCodes: Record<string, string>;
+  // Empty when the domain isn't exported
+  bodyWeightParameter: string;
+  tumorParameter: string;
+  tumorDomain: string;
+  tumorTestCode: string;
+  tumorTest: string;
+}
+
+export interface DefineVariable {
+  dataset: string;
+  variable: string;
+  label: string;
+  type: 'Char' | 'Num';
+  length: number;
+  origin: 'Assigned' | 'Collected' | 'Derived';
+  comment: string;
+}
+
+interface VariableSpec {
+  name: string;
+  label: string;
+  type: 'char' | 'num';
+  origin: DefineVariable['origin'];
+  comment?: string;
+}
+
+const MAX_CHAR_LENGTH = 200;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Short codes for ARMCD: the group name itself when it fits, otherwise G1, G2, ...
+export function defaultArmCodes(groups: string[]): Record<string, string> {
+  const codes: Record<string, string> = {};
+  groups.forEach((group, index) => {
+    const compact = group.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    codes[group] = compact && compact.length <= 8 ? compact : `G${index + 1}`;
+  });
+  return codes;
+}
+
+// Study ID, group field and arm codes come from the study design when there is one
+export function defaultSendSettings(data: ParsedData, parameters: string[], design?: StudyDesign | null): SendExportSettings {
+  const fields = metadataFields(data);
+  const groupField = design && fields.includes(design.groupField)
+    ? design.groupField
+    : fields.includes('group') ? 'group' : fields[0] || '';
+  const armCodes = defaultArmCodes(groupValues(data, groupField));
+  design?.groups.forEach(g => {
+    if (g.dataValue in armCodes) armCodes[g.dataValue] = g.code.toUpperCase();
+  });
+  return {
+    studyId: design?.studyId || '',
+    species: 'MOUSE',
+    strain: '',
+    defaultSex: 'U',
+    groupField,
+    armCodes,
+    bodyWeightParameter: parameters.find(p => /weight|\bbw\b/i.test(p)) || '',
+    tumorParameter: parameters.find(p => /vol/i.test(p)) || parameters[0] || '',
+    tumorDomain: 'TR',
+    tumorTestCode: 'TUMVOL',
+    tumorTest: 'Tumor Volume'
+  };
+}
+
+// Problems that would make the export invalid SEND, one message per field
+export function validateSendSettings(settings: SendExportSettings): string[] {
+  const problems: string[] = [];
+  if (isBlank(settings.studyId)) problems.push('Study ID is required');
+  if (!/^[A-Z]{2}$/.test(settings.tumorDomain)) problems.push('Tumour domain must be two capital letters');
+  if (['DM', 'BW'].includes(settings.tumorDomain)) problems.push('Tumour domain must differ from DM and BW');
+  if (!/^[A-Z][A-Z0-9]{0,7}$/.test(settings.tumorTestCode)) problems.push('Test code must be 1-8 capital letters or digits');
+  if (settings.tumorTest.length > 40) problems.push('Test name must be at most 40 characters');
+  Object.entries(settings.armCodes).forEach(([group, code]) => {
+    if (!/^[A-Za-z0-9_]{1,20}$/.test(code)) problems.push(`Arm code for "${group}" must be 1-20 letters, digits or _`);
+  });
+  if (!settings.tumorParameter && !settings.bodyWeightParameter) problems.push('Choose at least one parameter to export');
+  return problems;
+}
+
+const normalizeSex = (value: unknown, fallback: SendSex): SendSex => {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (text === 'm' || text === 'male') return 'M';
+  if (text === 'f' || text === 'female') return 'F';
+  return fallback;
+};
+
+const COMMON_VARIABLES: VariableSpec[] = [
+  { name: 'STUDYID', label: 'Study Identifier', type: 'char', origin: 'Assigned' },
+  { name: 'DOMAIN', label: 'Domain Abbreviation', type: 'char', origin: 'Assigned' },
+  { name: 'USUBJID', label: 'Unique Subject Identifier', type: 'char', origin: 'Derived', comment: 'STUDYID-animal ID' }
+];
+
+const DM_VARIABLES: VariableSpec[] = [
+  ...COMMON_VARIABLES,
+  { name: 'SUBJID', label: 'Subject Identifier for the Study', type: 'char', origin: 'Collected' },
+  { name: 'SPECIES', label: 'Species', type: 'char', origin: 'Assigned' },
+  { name: 'STRAIN', label: 'Strain/Substrain', type: 'char', origin: 'Assigned' },
+  { name: 'SEX', label: 'Sex', type: 'char', origin: 'Collected' },
+  { name: 'ARMCD', label: 'Planned Arm Code', type: 'char', origin: 'Assigned' },
+  { name: 'ARM', label: 'Description of Planned Arm', type: 'char', origin: 'Collected' },
+  { name: 'SETCD', label: 'Set Code', type: 'char', origin: 'Assigned', comment: 'Same as ARMCD' }
+];
+
+const findingsVariables = (prefix: string): VariableSpec[] => [
+  ...COMMON_VARIABLES,
+  { name: `${prefix}SEQ`, label: 'Sequence Number', type: 'num', origin: 'Derived' },
+  { name: `${prefix}TESTCD`, label: 'Test Short Name', type: 'char', origin: 'Assigned' },
+  { name: `${prefix}TEST`, label: 'Test Name', type: 'char', origin: 'Assigned' },
+  { name: `${prefix}ORRES`, label: 'Result or Finding in Original Units', type: 'char', origin: 'Collected', comment: 'Value after unit conversion at import' },
+  { name: `${prefix}ORRESU`, label: 'Original Units', type: 'char', origin: 'Collected' },
+  { name: `${prefix}STRESC`, label: 'Standardized Result in Character Format', type: 'char', origin: 'Derived' },
+  { name: `${prefix}STRESN`, label: 'Standardized Result in Numeric Format', type: 'num', origin: 'Derived' },
+  { name: `${prefix}STRESU`, label: 'Standardized Units', type: 'char', origin: 'Derived' },
+  { name: `${prefix}DY`, label: 'Study Day of Observation', type: 'num', origin: 'Collected', comment: 'Study day from the data, shifted to SEND numbering (day 0 becomes day 1; no day 0)' }
+];
+
+// Character lengths fit the longest value, as SAS would store them
+function toDataset(name: string, label: string, specs: VariableSpec[], rows: Record<string, XptValue>[]): XptDataset {
+  const variables: XptVariable[] = specs.map(spec => ({
+    name: spec.name,
+    label: spec.label,
+    type: spec.type,
+    length: spec.type === 'num'
+      ? 8
+      : Math.min(MAX_CHAR_LENGTH, Math.max(1, ...rows.map(row => String(row[spec.name] ?? '').length)))
+  }));
+  return { name, label, variables, rows };
+}
+
+// SEND has no day 0: the first day is day 1 and the day before it day -1, where the app counts from day 0
+export const toSendDay = (studyDay: number) => (studyDay >= 0 ? studyDay + 1 : studyDay);
+
+function findingsDataset(
+  data: ParsedData,
+  settings: SendExportSettings,
+  usubjid: (animalId: unknown) => string,
+  domain: string,
+  parameter: string,
+  testCode: string,
+  test: string,
+  label: string,
+  unit?: UnitCode
+): XptDataset {
+  const sequence = new Map<string, number>();
+  const rows = data
+    .filter(row => typeof row[parameter] === 'number' && Number.isFinite(row[parameter]))
+    .sort((a, b) => String(a.animalId).localeCompare(String(b.animalId)) || Number(a.studyDay) - Number(b.studyDay))
+    .map(row => {
+      const subject = usubjid(row.animalId);
+      const seq = (sequence.get(subject) || 0) + 1;
+      sequence.set(subject, seq);
+      const value = row[parameter] as number;
+      return {
+        STUDYID: settings.studyId,
+        DOMAIN: domain,
+        USUBJID: subject,
+        [`${domain}SEQ`]: seq,
+        [`${domain}TESTCD`]: testCode,
+        [`${domain}TEST`]: test,
+        [`${domain}ORRES`]: String(value),
+        [`${domain}ORRESU`]: unit || '',
+        [`${domain}STRESC`]: String(value),
+        [`${domain}STRESN`]: value,
+        [`${domain}STRESU`]: unit || '',
+        [`${domain}DY`]: toSendDay(Number(row.studyDay))
+      };
+    });
+  return toDataset(domain, label, findingsVariables(domain), rows);
+}
+
+// DM for every animal, BW and the tumour domain for the chosen parameters
+export function buildSendDatasets(
+  data: ParsedData,
+  settings: SendExportSettings,
+  parameterUnits: Record<string, UnitCode>
+): XptDataset[] {
+  const usubjid = (animalId: unknown) => `${settings.studyId}-${animalId}`;
+
+  const animals = new Map<string, Record<string, unknown>>();
+  data.forEach(row => {
+    const id = String(row.animalId);
+    const fields = animals.get(id) || {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (isBlank(fields[key]) && !isBlank(value)) fields[key] = value;
+    });
+    animals.set(id, fields);
+  });
+
+  const dmRows = Array.from(animals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([id, fields]) => {
+      const group = isBlank(fields[settings.groupField]) ? '' : String(fields[settings.groupField]);
+      const armCode = settings.armCodes[group] || '';
+      return {
+        STUDYID: settings.studyId,
+        DOMAIN: 'DM',
+        USUBJID: usubjid(id),
+        SUBJID: id,
+        SPECIES: settings.species,
+        STRAIN: settings.strain,
+        SEX: normalizeSex(fields.sex, settings.defaultSex),
+        ARMCD: armCode,
+        ARM: group,
+        SETCD: armCode
+      };
+    });
+
+  const datasets = [toDataset('DM', 'Demographics', DM_VARIABLES, dmRows)];
+  if (settings.bodyWeightParameter) {
+    datasets.push(findingsDataset(
+      data, settings, usubjid, 'BW', settings.bodyWeightParameter, 'BW', 'Body Weight', 'Body Weights',
+      parameterUnits[settings.bodyWeightParameter]
+    ));
+  }
+  if (settings.tumorParameter) {
+    datasets.push(findingsDataset(
+      data, settings, usubjid, settings.tumorDomain, settings.tumorParameter, settings.tumorTestCode, settings.tumorTest,
+      'Tumor Measurements', parameterUnits[settings.tumorParameter]
+    ));
+  }
+  return datasets;
+}
+
+// Variable-level metadata in the spirit of define.xml
+export function defineMetadata(datasets: XptDataset[]): DefineVariable[] {
+  const specs = new Map<string, VariableSpec>();
+  datasets.forEach(dataset => {
+    const all = dataset.name === 'DM' ? DM_VARIABLES : findingsVariables(dataset.name);
+    all.forEach(spec => specs.set(`${dataset.name}.${spec.name}`, spec));
+  });
+  return datasets.flatMap(dataset => dataset.variables.map(variable => {
+    const spec = specs.get(`${dataset.name}.${variable.name}`);
+    return {
+      dataset: dataset.name,
+      variable: variable.name,
+      label: variable.label,
+      type: variable.type === 'num' ? 'Num' : 'Char',
+      length: variable.length,
+      origin: spec?.origin || 'Derived',
+      comment: spec?.comment || ''
+    };
+  }));
+}
+
+export const datasetToCsv = (dataset: XptDataset) =>
+  Papa.unparse({
+    fields: dataset.variables.map(v => v.name),
+    data: dataset.rows.map(row => dataset.variables.map(v => row[v.name] ?? ''))
+  });
+
+export const defineToCsv = (define: DefineVariable[]) => Papa.unparse(define);
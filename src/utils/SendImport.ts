@@ -0,0 +1,203 @@
+// CDISC SEND datasets (SAS XPORT or CSV) read into mapped tabs that go straight into the usual merge:
+// DM gives each animal's group and demographics, EX its treatment, and findings domains
+// (BW, TF, TU, TR, ...) one parameter per test.
+
+import Papa from 'papaparse';
+import type { ColumnMapping } from '../components/ColumnMappingDialog';
+import type { MappedTab } from './TabMerge';
+import { readSasTransport, type XptValue } from './SasTransport';
+import { parseNumber } from './NumberParsing';
+import { compatibleUnits, convertUnit, parseUnitText, withUnit, type ParameterUnit } from './Units';
+
+export interface SendDomain {
+  domain: string;
+  fileName: string;
+  rows: Record<string, XptValue>[];
+}
+
+export interface SendImport {
+  tabs: MappedTab[];
+  // What was read from each domain, for the import summary
+  summary: string[];
+}
+
+// Column names of the tabs built from SEND findings
+export const SEND_ANIMAL_COLUMN = 'USUBJID';
+export const SEND_DAY_COLUMN = 'Study day';
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+const text = (value: unknown) => (isBlank(value) ? '' : String(value).trim());
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+// SEND CSV exports keep the variable names as headers, with DOMAIN and USUBJID on every row
+export function isSendCsvHeader(headerLine: string): boolean {
+  const columns = headerLine.split(/[,;\t]/).map(col => col.replace(/"/g, '').trim().toUpperCase());
+  return columns.includes('USUBJID') && columns.includes('DOMAIN');
+}
+
+export const isSendFileName = (fileName: string) => /\.xpt$/i.test(fileName);
+
+// One domain per transport member or CSV file; the DOMAIN column wins over the member or file name
+export function readSendFile(fileName: string, data: ArrayBuffer): SendDomain[] {
+  const domainOf = (rows: Record<string, XptValue>[], fallback: string) =>
+    (text(rows[0]?.DOMAIN) || fallback).toUpperCase();
+
+  if (isSendFileName(fileName)) {
+    return readSasTransport(data).map(dataset => ({
+      domain: domainOf(dataset.rows, dataset.name),
+      fileName,
+      rows: dataset.rows
+    }));
+  }
+  const parsed = Papa.parse<Record<string, string>>(new TextDecoder().decode(data), {
+    header: true,
+    skipEmptyLines: 'greedy'
+  });
+  return [{ domain: domainOf(parsed.data, fileName.replace(/\.[^.]+$/, '')), fileName, rows: parsed.data }];
+}
+
+// DM and EX fields copied onto every finding of the animal, as the metadata the analyses group by
+function animalMetadata(domains: SendDomain[]): Map<string, Record<string, string>> {
+  const metadata = new Map<string, Record<string, string>>();
+  const fieldsOf = (id: string) => {
+    if (!metadata.has(id)) metadata.set(id, {});
+    return metadata.get(id)!;
+  };
+
+  domains.filter(d => d.domain === 'DM').forEach(dm => dm.rows.forEach(row => {
+    const id = text(row.USUBJID);
+    if (!id) return;
+    const fields = fieldsOf(id);
+    const group = text(row.ARM) || text(row.ARMCD) || text(row.SETCD);
+    if (group) fields.group = group;
+    if (text(row.ARMCD)) fields.armCode = text(row.ARMCD);
+    if (text(row.SETCD)) fields.setCode = text(row.SETCD);
+    if (text(row.SEX)) fields.sex = text(row.SEX);
+    if (text(row.SPECIES)) fields.species = text(row.SPECIES);
+    if (text(row.STRAIN)) fields.strain = text(row.STRAIN);
+  }));
+
+  const exposures = new Map<string, Record<string, unknown>[]>();
+  domains.filter(d => d.domain === 'EX').forEach(ex => ex.rows.forEach(row => {
+    const id = text(row.USUBJID);
+    if (id) exposures.set(id, [...(exposures.get(id) || []), row]);
+  }));
+  exposures.forEach((rows, id) => {
+    const fields = fieldsOf(id);
+    const treatment = distinct(rows.map(row => text(row.EXTRT)));
+    const dose = distinct(rows.map(row => `${text(row.EXDOSE)} ${text(row.EXDOSU)}`.trim()));
+    const route = distinct(rows.map(row => text(row.EXROUTE)));
+    const days = Array.from(new Set(rows.map(row => parseNumber(row.EXSTDY)).filter((d): d is number => d !== null).map(fromSendDay)))
+      .sort((a, b) => a - b);
+    if (treatment.length) fields.treatment = treatment.join(', ');
+    if (dose.length) fields.dose = dose.join(', ');
+    if (route.length) fields.route = route.join(', ');
+    if (days.length) fields.dosingDays = days.join(', ');
+  });
+  return metadata;
+}
+
+// SEND day 1 is the app's day 0; SEND has no day 0 and negative days are the same in both. Inverse of toSendDay
+export const fromSendDay = (sendDay: number) => (sendDay > 0 ? sendDay - 1 : sendDay);
+
+// --DY, else VISITDY, else the nominal day, as an app study day
+function findingDay(row: Record<string, XptValue>, prefix: string): number | null {
+  for (const column of [`${prefix}DY`, 'VISITDY', `${prefix}NOMDY`]) {
+    const day = parseNumber(row[column]);
+    if (day !== null) return fromSendDay(day);
+  }
+  return null;
+}
+
+// Tumour (or other focus) a finding belongs to, so several tumours on one animal get a column each.
+// --LNKID links TU/TR records for one tumour; FOCID (or --FOCID) names the focus of interest
+function findingFocus(row: Record<string, XptValue>, prefix: string): string {
+  return text(row[`${prefix}LNKID`]) || text(row[`${prefix}FOCID`]) || text(row.FOCID);
+}
+
+// Mapped tabs for every findings domain (any domain with a --TESTCD column), ready for collectMappedTabs.
+// Findings are combined into one row per animal and study day with a column per test, like an unpivoted wide sheet
+export function buildSendTabs(domains: SendDomain[]): SendImport {
+  const metadata = animalMetadata(domains);
+  const metadataColumns = distinct(Array.from(metadata.values()).flatMap(fields => Object.keys(fields)));
+  const summary: string[] = [];
+
+  const dmAnimals = domains.filter(d => d.domain === 'DM').reduce((n, dm) => n + dm.rows.length, 0);
+  if (dmAnimals > 0) summary.push(`DM: ${dmAnimals} animal(s) with group and demographics`);
+  const exRecords = domains.filter(d => d.domain === 'EX').reduce((n, ex) => n + ex.rows.length, 0);
+  if (exRecords > 0) summary.push(`EX: ${exRecords} dosing record(s) summarised as treatment, dose, route and dosing days`);
+
+  const tabs: MappedTab[] = [];
+  domains.forEach(({ domain, fileName, rows }) => {
+    if (domain === 'DM' || domain === 'EX' || !rows.some(row => !isBlank(row[`${domain}TESTCD`]))) return;
+
+    // The first unit seen for a test is the one it is stored in; compatible units are converted to it
+    const units: Record<string, ParameterUnit> = {};
+    const byAnimalDay = new Map<string, Record<string, unknown>>();
+    let findings = 0;
+    let skipped = 0;
+    let unconverted = 0;
+    let repeated = 0;
+
+    rows.forEach(row => {
+      const animalId = text(row.USUBJID);
+      const studyDay = findingDay(row, domain);
+      const test = text(row[`${domain}TEST`]) || text(row[`${domain}TESTCD`]);
+      if (!animalId || studyDay === null || !test) {
+        skipped++;
+        return;
+      }
+
+      const focus = findingFocus(row, domain);
+      const parameter = focus ? `${test} (${focus})` : test;
+
+      const numeric = parseNumber(row[`${domain}STRESN`]);
+      let value: unknown = numeric ?? (text(row[`${domain}STRESC`]) || text(row[`${domain}ORRES`]));
+      const unit = parseUnitText(text(row[`${domain}STRESU`]));
+      if (unit && !units[parameter]) units[parameter] = { unit, canonical: unit };
+      const stored = units[parameter]?.canonical;
+      if (numeric !== null && unit && stored && unit !== stored) {
+        if (!compatibleUnits(unit).includes(stored)) {
+          unconverted++;
+          return;
+        }
+        value = convertUnit(numeric, unit, stored);
+      }
+
+      const key = `${animalId}\u0000${studyDay}`;
+      let tabRow = byAnimalDay.get(key);
+      if (!tabRow) {
+        tabRow = { [SEND_ANIMAL_COLUMN]: animalId, [SEND_DAY_COLUMN]: studyDay, ...metadata.get(animalId) };
+        byAnimalDay.set(key, tabRow);
+      }
+      // A test repeated for the same animal, day and focus has nothing to tell the results apart; the first is kept
+      if (parameter in tabRow) {
+        repeated++;
+        return;
+      }
+      tabRow[parameter] = value;
+      findings++;
+    });
+    const tabRows = Array.from(byAnimalDay.values());
+
+    const parameters = distinct(tabRows.flatMap(row => Object.keys(row)))
+      .filter(col => col !== SEND_ANIMAL_COLUMN && col !== SEND_DAY_COLUMN && !metadataColumns.includes(col));
+    const mapping: ColumnMapping = {
+      animalIdColumn: SEND_ANIMAL_COLUMN,
+      timeColumn: SEND_DAY_COLUMN,
+      timeFormat: 'study_day',
+      parameterColumns: [...parameters, ...metadataColumns],
+      units
+    };
+    tabs.push({ tabName: `SEND ${domain}`, fileName, mapping, rows: tabRows });
+
+    summary.push(
+      `${domain}: ${findings} finding(s) on ${tabRows.length} animal-day(s) as ${parameters.map(p => withUnit(p, units[p]?.canonical)).join(', ') || 'no parameters'}` +
+      (repeated > 0 ? `; ${repeated} repeated result(s) for the same animal, day, test and tumour skipped (first kept)` : '') +
+      (skipped > 0 ? `; ${skipped} record(s) without animal, test or study day skipped` : '') +
+      (unconverted > 0 ? `; ${unconverted} value(s) in units that could not be converted skipped` : '')
+    );
+  });
+
+  return { tabs, summary };
+}
@@ -117,6 +117,25 @@ export function normalCDF(z: number): number {
   return 0.5 * (1 + erf(z / Math.sqrt(2)));
 }
 
+// Inverse normal CDF (Acklam's rational approximation, relative error below 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
 // Error function approximation
 export function erf(x: number): number {
   // Abramowitz and Stegun approximation
@@ -170,6 +189,224 @@ export function gamma(z: number): number {
   return Math.sqrt(2 * Math.PI) * Math.pow(t, z + 0.5) * Math.exp(-t) * x;
 }
 
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Log of the gamma function (Lanczos), safe for the large arguments of F and chi-square tails
+export function logGamma(z: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.001208650973866179, -0.000005395239384953
+  ];
+  let y = z;
+  const tmp = z + 5.5 - (z + 0.5) * Math.log(z + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach(c => { series += c / ++y; });
+  return -tmp + Math.log(Math.sqrt(2 * Math.PI) * series / z);
+}
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta I_x(a, b), accurate enough for p-values
+export function regularizedIncompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+// Upper tail probability of the F distribution
+export function fDistributionPValue(f: number, df1: number, df2: number): number {
+  if (!(f > 0)) return 1;
+  return regularizedIncompleteBeta(df2 / 2, df1 / 2, df2 / (df2 + df1 * f));
+}
+
+// Two-sided p-value of a t statistic
+export function tTwoSidedPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return Number.isNaN(t) ? NaN : 0;
+  return regularizedIncompleteBeta(df / 2, 0.5, df / (df + t * t));
+}
+
+// Upper quantile of the t distribution (P(T > q) = (1 - p)), by bisection on the p-value
+export function tQuantile(p: number, df: number): number {
+  const target = 2 * (1 - p);
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (tTwoSidedPValue(mid, df) > target) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Upper regularized incomplete gamma Q(a, x): series below a + 1, continued fraction above
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logFront = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return 1 - sum * Math.exp(logFront);
+  }
+  const tiny = 1e-30;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.exp(logFront) * h;
+}
+
+// Upper tail probability of the chi-square distribution
+export function chiSquarePValue(statistic: number, df: number): number {
+  if (!(statistic > 0)) return 1;
+  return regularizedGammaQ(df / 2, statistic / 2);
+}
+
+// Holm step-down adjustment of a family of p-values, returned in the original order
+export function holmAdjust(pValues: number[]): number[] {
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (pValues.length - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+export interface AnovaResult {
+  fStatistic: number;
+  dfBetween: number;
+  dfWithin: number;
+  pValue: number;
+}
+
+// One-way ANOVA across groups of values
+export function oneWayAnova(groups: number[][]): AnovaResult {
+  const filled = groups.filter(g => g.length > 0);
+  const all = filled.flat();
+  const grandMean = mean(all);
+  const ssBetween = filled.reduce((sum, g) => sum + g.length * (mean(g) - grandMean) ** 2, 0);
+  const ssWithin = filled.reduce((sum, g) => {
+    const groupMean = mean(g);
+    return sum + g.reduce((s, v) => s + (v - groupMean) ** 2, 0);
+  }, 0);
+  const dfBetween = filled.length - 1;
+  const dfWithin = all.length - filled.length;
+  if (dfBetween < 1 || dfWithin < 1) return { fStatistic: NaN, dfBetween, dfWithin, pValue: NaN };
+  const fStatistic = ssWithin > 0 ? (ssBetween / dfBetween) / (ssWithin / dfWithin) : (ssBetween > 0 ? Infinity : 0);
+  return { fStatistic, dfBetween, dfWithin, pValue: fStatistic === Infinity ? 0 : fDistributionPValue(fStatistic, dfBetween, dfWithin) };
+}
+
+export interface MannWhitneyResult {
+  uStatistic: number;
+  pValue: number;
+  exact: boolean;
+}
+
+// Two-sided Wilcoxon rank-sum / Mann-Whitney U test: exact for small samples without ties,
+// otherwise the normal approximation with tie and continuity corrections
+export function mannWhitneyU(group1: number[], group2: number[]): MannWhitneyResult {
+  const n1 = group1.length;
+  const n2 = group2.length;
+  if (n1 === 0 || n2 === 0) return { uStatistic: NaN, pValue: NaN, exact: false };
+
+  const pooled = [...group1.map(value => ({ value, first: true })), ...group2.map(value => ({ value, first: false }))]
+    .sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(pooled.length);
+  let tieTerm = 0;
+  for (let i = 0; i < pooled.length;) {
+    let j = i;
+    while (j + 1 < pooled.length && pooled[j + 1].value === pooled[i].value) j++;
+    for (let k = i; k <= j; k++) ranks[k] = (i + j) / 2 + 1;
+    const t = j - i + 1;
+    tieTerm += t * t * t - t;
+    i = j + 1;
+  }
+  const rankSum = pooled.reduce((sum, item, i) => sum + (item.first ? ranks[i] : 0), 0);
+  const uStatistic = rankSum - n1 * (n1 + 1) / 2;
+  const expected = n1 * n2 / 2;
+
+  if (tieTerm === 0 && n1 + n2 <= 40) {
+    // counts[u] = arrangements giving U = u, built up one observation at a time
+    let counts: number[][] = [[1]];
+    for (let a = 0; a <= n1; a++) {
+      const row: number[][] = [];
+      for (let b = 0; b <= n2; b++) {
+        if (a === 0 || b === 0) { row.push([1]); continue; }
+        const withA = counts[b].map((c, u) => ({ u: u + b, c }));
+        const withB = row[b - 1].map((c, u) => ({ u, c }));
+        const next = new Array<number>(a * b + 1).fill(0);
+        [...withA, ...withB].forEach(({ u, c }) => { next[u] += c; });
+        row.push(next);
+      }
+      counts = row;
+    }
+    const distribution = counts[n2];
+    const total = distribution.reduce((sum, c) => sum + c, 0);
+    const lowerU = Math.min(uStatistic, n1 * n2 - uStatistic);
+    const tail = distribution.slice(0, Math.floor(lowerU) + 1).reduce((sum, c) => sum + c, 0) / total;
+    return { uStatistic, pValue: Math.min(1, 2 * tail), exact: true };
+  }
+
+  const n = n1 + n2;
+  const variance = n1 * n2 / 12 * ((n + 1) - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { uStatistic, pValue: 1, exact: false };
+  const z = Math.max(0, Math.abs(uStatistic - expected) - 0.5) / Math.sqrt(variance);
+  return { uStatistic, pValue: 2 * (1 - normalCDF(z)), exact: false };
+}
+
 export function getSignificanceLevel(pValue: number): string {
   if (pValue < 0.001) return '***';
   if (pValue < 0.01) return '**';
@@ -0,0 +1,124 @@
+// Day-0 anchoring: the date each animal's study days are counted from
+
+import type { ParsedData } from '../components/FileUpload';
+import { detectTimeFormat, isDateFormat, parseDateValue } from './DateParsing';
+import type { AnimalIdMatcher } from './AnimalIdMatcher';
+
+// Whole study, each animal's own date from a column, or one date per cohort
+export type AnchorScope = 'study' | 'animal' | 'cohort';
+
+export type DayZeroEvent = 'study_start' | 'implant' | 'randomization' | 'first_dose';
+
+export const DAY_ZERO_EVENT_LABELS: Record<DayZeroEvent, string> = {
+  study_start: 'Study start',
+  implant: 'Tumor implant',
+  randomization: 'Randomization',
+  first_dose: 'First dose'
+};
+
+export interface DayZeroAnchoring {
+  scope: AnchorScope;
+  event: DayZeroEvent;
+  // Tab holding the per-animal anchor dates or cohort assignments
+  sourceTab?: string;
+  animalIdColumn?: string;
+  anchorDateColumn?: string;
+  cohortColumn?: string;
+  // Cohort value -> ISO date of day 0
+  cohortDates?: Record<string, string>;
+}
+
+export const defaultAnchoring = (): DayZeroAnchoring => ({
+  scope: 'study',
+  event: 'study_start'
+});
+
+const cellKey = (value: unknown): string => String(value ?? '').trim();
+
+export function isAnchoringValid(anchoring: DayZeroAnchoring): boolean {
+  if (anchoring.scope === 'study') return true;
+  if (!anchoring.sourceTab || !anchoring.animalIdColumn) return false;
+  return anchoring.scope === 'animal' ? !!anchoring.anchorDateColumn : !!anchoring.cohortColumn;
+}
+
+// Distinct cohort values in the source tab, in first-seen order
+export function cohortValues(rows: ParsedData, cohortColumn: string): string[] {
+  const values = new Set<string>();
+  rows.forEach(row => {
+    const cohort = cellKey(row[cohortColumn]);
+    if (cohort) values.add(cohort);
+  });
+  return Array.from(values);
+}
+
+// Day 0 (epoch day) of every animal listed in the source tab, keyed by the animal ID the matcher resolves it to.
+// Pass the same matcher when looking animals up, so ID variants ("M-01", "m01") find their anchor
+export function resolveAnchors(anchoring: DayZeroAnchoring, sourceRows: ParsedData, idMatcher: AnimalIdMatcher): Map<string, number> {
+  const anchors = new Map<string, number>();
+  if (!isAnchoringValid(anchoring) || anchoring.scope === 'study') return anchors;
+
+  const idColumn = anchoring.animalIdColumn as string;
+
+  if (anchoring.scope === 'animal') {
+    const dateColumn = anchoring.anchorDateColumn as string;
+    const { format } = detectTimeFormat(sourceRows.map(row => row[dateColumn]), dateColumn);
+    if (!isDateFormat(format)) return anchors;
+    sourceRows.forEach(row => {
+      const id = idMatcher.resolve(row[idColumn])?.id;
+      const day = parseDateValue(row[dateColumn], format);
+      if (id && day !== null && !anchors.has(id)) anchors.set(id, day);
+    });
+    return anchors;
+  }
+
+  const cohortColumn = anchoring.cohortColumn as string;
+  sourceRows.forEach(row => {
+    const id = idMatcher.resolve(row[idColumn])?.id;
+    const cohortDate = anchoring.cohortDates?.[cellKey(row[cohortColumn])];
+    const day = cohortDate ? parseDateValue(cohortDate, 'iso') : null;
+    if (id && day !== null && !anchors.has(id)) anchors.set(id, day);
+  });
+  return anchors;
+}
+
+// Animals in the date tabs with no day 0 under per-animal or cohort anchoring, in first-seen order
+export function unanchoredAnimals(
+  anchoring: DayZeroAnchoring,
+  anchors: Map<string, number>,
+  dateTabs: { rows: ParsedData; animalIdColumn: string }[],
+  idMatcher: AnimalIdMatcher
+): string[] {
+  if (anchoring.scope === 'study') return [];
+  const missing = new Set<string>();
+  dateTabs.forEach(({ rows, animalIdColumn }) => rows.forEach(row => {
+    const id = idMatcher.resolve(row[animalIdColumn])?.id;
+    if (id && !anchors.has(id)) missing.add(id);
+  }));
+  return Array.from(missing);
+}
+
+// Statement of the anchoring rule, shown with the analyses and in the report methods
+export function describeAnchoring(
+  anchoring: DayZeroAnchoring,
+  studyStartDate: string,
+  unanchored: string[] = []
+): string {
+  const event = DAY_ZERO_EVENT_LABELS[anchoring.event].toLowerCase();
+  const fallback = unanchored.length > 0
+    ? `; ${unanchored.length} animal(s) without an anchor date left out (${unanchored.join(', ')})`
+    : '';
+
+  switch (anchoring.scope) {
+    case 'animal':
+      return `Day 0 = each animal's ${event} date ("${anchoring.anchorDateColumn}" in tab "${anchoring.sourceTab}")${fallback}`;
+    case 'cohort': {
+      const dates = Object.entries(anchoring.cohortDates || {})
+        .filter(([, date]) => !!date)
+        .map(([cohort, date]) => `${cohort} = ${date}`)
+        .join(', ');
+      return `Day 0 = ${event} date of each cohort ("${anchoring.cohortColumn}" in tab "${anchoring.sourceTab}": ${dates})${fallback}`;
+    }
+    default:
+      return `Day 0 = ${event} on ${studyStartDate} for all animals`;
+  }
+}
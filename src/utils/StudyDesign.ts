@@ -0,0 +1,217 @@
+// Study design: test articles and treatment groups with their dose, route, regimen and planned n,
+// linked to the group values in the data so analyses can take the control, order and labels from it
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { ParsedData } from '../components/FileUpload';
+
+export interface TestArticle {
+  name: string;
+  description?: string;
+}
+
+export interface DesignGroup {
+  code: string;
+  label: string;
+  // Value of the group field in the data that this group stands for
+  dataValue: string;
+  // Name of a test article, blank for vehicle or untreated groups
+  testArticle: string;
+  dose?: number;
+  doseUnit: string;
+  route: string;
+  // e.g. "QD x 21" or "Q3D x 4"
+  regimen: string;
+  plannedN?: number;
+  isControl: boolean;
+}
+
+export interface StudyDesign {
+  studyId: string;
+  title: string;
+  // Data field the groups are linked through
+  groupField: string;
+  testArticles: TestArticle[];
+  // In display order
+  groups: DesignGroup[];
+}
+
+export type StudyDesignFormat = 'json' | 'yaml';
+
+export const emptyStudyDesign = (): StudyDesign => ({
+  studyId: '',
+  title: '',
+  groupField: 'group',
+  testArticles: [],
+  groups: []
+});
+
+export const emptyDesignGroup = (index: number): DesignGroup => ({
+  code: `G${index + 1}`,
+  label: '',
+  dataValue: '',
+  testArticle: '',
+  doseUnit: 'mg/kg',
+  route: '',
+  regimen: '',
+  isControl: false
+});
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Text fields that can group animals (group, sex, ...)
+export function metadataFields(data: ParsedData): string[] {
+  const fields = new Set<string>();
+  data.forEach(row => Object.keys(row).forEach(key => {
+    if (key !== 'animalId' && key !== 'studyDay' && typeof row[key] === 'string' && !isBlank(row[key])) fields.add(key);
+  }));
+  return Array.from(fields);
+}
+
+export function groupValues(data: ParsedData, groupField: string): string[] {
+  return Array.from(new Set(data.map(row => row[groupField]).filter(v => !isBlank(v)).map(String))).sort();
+}
+
+const looksLikeControl = (text: string) => /\b(control|vehicle|untreated|saline)\b/i.test(text);
+
+const firstValue = (rows: ParsedData, field: string) => {
+  const row = rows.find(r => !isBlank(r[field]));
+  return row ? row[field] : undefined;
+};
+
+// Groups for every value of the group field, with dose, route and treatment when the data has them
+// (as SEND imports do), and the control guessed from the group name
+export function designFromData(data: ParsedData, groupField: string, base: StudyDesign = emptyStudyDesign()): StudyDesign {
+  const rowsByGroup = new Map<string, ParsedData>();
+  data.forEach(row => {
+    if (isBlank(row[groupField])) return;
+    const value = String(row[groupField]);
+    rowsByGroup.set(value, [...(rowsByGroup.get(value) || []), row]);
+  });
+
+  const values = Array.from(rowsByGroup.keys()).sort();
+  const groups = values.map((value, index): DesignGroup => {
+    const rows = rowsByGroup.get(value)!;
+    const existing = base.groups.find(g => g.dataValue === value);
+    if (existing) return existing;
+    const treatment = firstValue(rows, 'treatment');
+    const dose = Number(firstValue(rows, 'dose'));
+    const armCode = firstValue(rows, 'armCode');
+    return {
+      ...emptyDesignGroup(index),
+      code: armCode ? String(armCode) : `G${index + 1}`,
+      label: value,
+      dataValue: value,
+      testArticle: treatment && !looksLikeControl(String(treatment)) ? String(treatment) : '',
+      dose: isNaN(dose) || isBlank(firstValue(rows, 'dose')) ? undefined : dose,
+      route: String(firstValue(rows, 'route') ?? ''),
+      plannedN: new Set(rows.map(r => String(r.animalId))).size,
+      isControl: looksLikeControl(value) || (!isBlank(treatment) && looksLikeControl(String(treatment)))
+    };
+  });
+
+  const articles = new Map(base.testArticles.map(a => [a.name, a]));
+  groups.forEach(g => {
+    if (g.testArticle && !articles.has(g.testArticle)) articles.set(g.testArticle, { name: g.testArticle });
+  });
+  return { ...base, groupField, groups, testArticles: Array.from(articles.values()) };
+}
+
+// Problems that make the design unusable or ambiguous, one message each
+export function validateStudyDesign(design: StudyDesign): string[] {
+  const problems: string[] = [];
+  const codes = design.groups.map(g => g.code.trim());
+  if (codes.some(code => !code)) problems.push('Every group needs a code');
+  const duplicateCodes = codes.filter((code, index) => code && codes.indexOf(code) !== index);
+  if (duplicateCodes.length > 0) problems.push(`Duplicate group codes: ${Array.from(new Set(duplicateCodes)).join(', ')}`);
+  const values = design.groups.map(g => g.dataValue).filter(v => v);
+  const duplicateValues = values.filter((value, index) => values.indexOf(value) !== index);
+  if (duplicateValues.length > 0) problems.push(`Groups linked to the same data value: ${Array.from(new Set(duplicateValues)).join(', ')}`);
+  if (design.groups.filter(g => g.isControl).length > 1) problems.push('Only one group can be the control');
+  const articleNames = new Set(design.testArticles.map(a => a.name));
+  design.groups.forEach(g => {
+    if (g.testArticle && !articleNames.has(g.testArticle)) {
+      problems.push(`Group ${g.code} uses unknown test article "${g.testArticle}"`);
+    }
+    if (g.plannedN !== undefined && (!Number.isInteger(g.plannedN) || g.plannedN < 0)) {
+      problems.push(`Planned n for group ${g.code} must be a whole number`);
+    }
+  });
+  return problems;
+}
+
+const text = (value: unknown) => (isBlank(value) ? '' : String(value));
+const optionalNumber = (value: unknown) => (isBlank(value) || isNaN(Number(value)) ? undefined : Number(value));
+
+// Read a design file, filling defaults for anything left out; throws when it isn't a design at all
+export function parseStudyDesign(content: string, format: StudyDesignFormat): StudyDesign {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Could not read the study design ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Record<string, unknown>).groups)) {
+    throw new Error('A study design file needs a "groups" list');
+  }
+
+  const source = raw as Record<string, unknown>;
+  const articles = Array.isArray(source.testArticles) ? source.testArticles : [];
+  return {
+    studyId: text(source.studyId),
+    title: text(source.title),
+    groupField: text(source.groupField) || 'group',
+    testArticles: articles.map((a: unknown) => {
+      if (typeof a === 'string') return { name: a };
+      const article = a as Record<string, unknown>;
+      return { name: text(article.name), description: text(article.description) || undefined };
+    }),
+    groups: (source.groups as Record<string, unknown>[]).map((g, index) => ({
+      code: text(g.code) || `G${index + 1}`,
+      label: text(g.label),
+      dataValue: text(g.dataValue ?? g.label),
+      testArticle: text(g.testArticle),
+      dose: optionalNumber(g.dose),
+      doseUnit: text(g.doseUnit),
+      route: text(g.route),
+      regimen: text(g.regimen),
+      plannedN: optionalNumber(g.plannedN),
+      isControl: g.isControl === true
+    }))
+  };
+}
+
+export function serializeStudyDesign(design: StudyDesign, format: StudyDesignFormat): string {
+  return format === 'json' ? JSON.stringify(design, null, 2) : stringifyYaml(design);
+}
+
+export const designFormatFor = (fileName: string): StudyDesignFormat =>
+  /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+
+// The design only applies to analyses grouped by the field it is linked through
+const linkedGroups = (design: StudyDesign | null | undefined, groupField: string) =>
+  design && design.groupField === groupField ? design.groups.filter(g => g.dataValue) : [];
+
+// Design order first, then any data values the design doesn't cover, alphabetically
+export function orderGroups(groups: string[], design: StudyDesign | null | undefined, groupField: string): string[] {
+  const order = linkedGroups(design, groupField).map(g => g.dataValue);
+  const rank = (group: string) => (order.includes(group) ? order.indexOf(group) : order.length);
+  return [...groups].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+export function designControlGroup(design: StudyDesign | null | undefined, groupField: string): string | undefined {
+  return linkedGroups(design, groupField).find(g => g.isControl)?.dataValue;
+}
+
+export function groupLabel(group: string, design: StudyDesign | null | undefined, groupField: string): string {
+  return linkedGroups(design, groupField).find(g => g.dataValue === group)?.label || group;
+}
+
+// Data values with no design group, and design groups whose value isn't in the data
+export function unlinkedGroups(design: StudyDesign, data: ParsedData): { unmatchedValues: string[]; missingGroups: string[] } {
+  const values = new Set(data.map(row => row[design.groupField]).filter(v => !isBlank(v)).map(String));
+  const linked = new Set(design.groups.map(g => g.dataValue));
+  return {
+    unmatchedValues: Array.from(values).filter(v => !linked.has(v)).sort(),
+    missingGroups: design.groups.filter(g => !values.has(g.dataValue)).map(g => g.code)
+  };
+}
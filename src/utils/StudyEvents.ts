@@ -0,0 +1,272 @@
+// Dosing and other study events (surgery, re-challenge, ...) for a group, an animal or the whole study,
+// and how they are drawn on time-course plots
+
+import type { ParsedData } from '../components/FileUpload';
+import { colorManager } from './ColorManager';
+
+export type StudyEventKind = 'dose' | 'surgery' | 'rechallenge' | 'other';
+
+export const EVENT_KIND_LABELS: Record<StudyEventKind, string> = {
+  dose: 'Dose',
+  surgery: 'Surgery',
+  rechallenge: 'Re-challenge',
+  other: 'Other'
+};
+
+export type StudyEventScope = 'study' | 'group' | 'animal';
+
+export interface StudyEvent {
+  kind: StudyEventKind;
+  scope: StudyEventScope;
+  // Group value or animal ID; blank for study-wide events
+  target: string;
+  day: number;
+  compound: string;
+  dose?: number;
+  doseUnit: string;
+  route: string;
+  description: string;
+}
+
+export type EventDisplay = 'markers' | 'bands' | 'rug' | 'off';
+
+export const EVENT_DISPLAY_LABELS: Record<EventDisplay, string> = {
+  markers: 'Markers',
+  bands: 'Regimen bands',
+  rug: 'Rug ticks',
+  off: 'Hidden'
+};
+
+// Source columns for each event field; blank when the sheet doesn't have one
+export interface EventColumns {
+  day: string;
+  group: string;
+  animal: string;
+  kind: string;
+  compound: string;
+  dose: string;
+  doseUnit: string;
+  route: string;
+  description: string;
+}
+
+const COLUMN_PATTERNS: Record<keyof EventColumns, RegExp> = {
+  day: /^(study\s*)?day|^dy$|dosing\s*days?/i,
+  group: /group|arm|cohort/i,
+  animal: /animal|subject|mouse|usubjid|^id$/i,
+  kind: /event|type|kind/i,
+  compound: /compound|treatment|article|drug|extrt/i,
+  dose: /^dose$|dose\s*(level|amount)|exdose$/i,
+  doseUnit: /unit/i,
+  route: /route/i,
+  description: /comment|note|description/i
+};
+
+export function guessEventColumns(columns: string[]): EventColumns {
+  const used = new Set<string>();
+  const pick = (field: keyof EventColumns) => {
+    const column = columns.find(c => !used.has(c) && COLUMN_PATTERNS[field].test(c.trim()));
+    if (column) used.add(column);
+    return column || '';
+  };
+  // Specific fields first so "Dose unit" isn't taken as the dose
+  const doseUnit = pick('doseUnit');
+  const day = pick('day');
+  return {
+    day,
+    doseUnit,
+    dose: pick('dose'),
+    animal: pick('animal'),
+    group: pick('group'),
+    kind: pick('kind'),
+    compound: pick('compound'),
+    route: pick('route'),
+    description: pick('description')
+  };
+}
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+const kindFromText = (value: string, hasCompound: boolean): StudyEventKind => {
+  if (/surg|implant|resect/i.test(value)) return 'surgery';
+  if (/re-?chall/i.test(value)) return 'rechallenge';
+  if (/dos|treat|admin|inject/i.test(value) || (!value && hasCompound)) return 'dose';
+  return value ? 'other' : 'dose';
+};
+
+// Day cells may list several days ("0, 3, 7"); each becomes its own event
+const daysIn = (value: unknown): number[] =>
+  typeof value === 'number'
+    ? [value]
+    : text(value).split(/[,;\s]+/).filter(Boolean).map(Number).filter(n => !isNaN(n));
+
+export function eventsFromRows(rows: Record<string, unknown>[], columns: EventColumns): StudyEvent[] {
+  if (!columns.day) return [];
+  return rows.flatMap(row => {
+    const animal = columns.animal ? text(row[columns.animal]) : '';
+    const group = columns.group ? text(row[columns.group]) : '';
+    const compound = columns.compound ? text(row[columns.compound]) : '';
+    const dose = columns.dose ? Number(row[columns.dose]) : NaN;
+    const base = {
+      kind: kindFromText(columns.kind ? text(row[columns.kind]) : '', !!compound),
+      scope: (animal ? 'animal' : group ? 'group' : 'study') as StudyEventScope,
+      target: animal || group,
+      compound,
+      dose: isNaN(dose) || text(row[columns.dose]) === '' ? undefined : dose,
+      doseUnit: columns.doseUnit ? text(row[columns.doseUnit]) : '',
+      route: columns.route ? text(row[columns.route]) : '',
+      description: columns.description ? text(row[columns.description]) : ''
+    };
+    return daysIn(row[columns.day]).map(day => ({ ...base, day }));
+  });
+}
+
+// Dosing recorded on the animals themselves (SEND EX imports), per group when its animals agree
+export function eventsFromDosingFields(data: ParsedData, groupField: string): StudyEvent[] {
+  const byAnimal = new Map<string, Record<string, unknown>>();
+  data.forEach(row => {
+    if (text(row.dosingDays) && !byAnimal.has(String(row.animalId))) byAnimal.set(String(row.animalId), row);
+  });
+  const signature = (row: Record<string, unknown>) =>
+    [row.dosingDays, row.treatment, row.dose, row.route].map(text).join('|');
+
+  const groups = new Map<string, Record<string, unknown>[]>();
+  byAnimal.forEach(row => {
+    const group = text(row[groupField]);
+    groups.set(group, [...(groups.get(group) || []), row]);
+  });
+
+  const events: StudyEvent[] = [];
+  groups.forEach((rows, group) => {
+    const shared = group && rows.every(row => signature(row) === signature(rows[0]));
+    const sources = shared ? [{ scope: 'group' as StudyEventScope, target: group, row: rows[0] }]
+      : rows.map(row => ({ scope: 'animal' as StudyEventScope, target: String(row.animalId), row }));
+    sources.forEach(({ scope, target, row }) => {
+      const dose = Number(text(row.dose).split(',')[0]);
+      daysIn(row.dosingDays).forEach(day => events.push({
+        kind: 'dose',
+        scope,
+        target,
+        day,
+        compound: text(row.treatment),
+        dose: isNaN(dose) || !text(row.dose) ? undefined : dose,
+        doseUnit: '',
+        route: text(row.route),
+        description: ''
+      }));
+    });
+  });
+  return events;
+}
+
+// Events that apply to an animal: study-wide, its own, and those of any group value it has
+export function eventsForAnimal(events: StudyEvent[], animalId: string, groupValues: string[]): StudyEvent[] {
+  return events.filter(e =>
+    e.scope === 'study' ||
+    (e.scope === 'animal' && e.target === animalId) ||
+    (e.scope === 'group' && groupValues.includes(e.target))
+  );
+}
+
+// Events that apply to a chart of whole groups
+export function eventsForGroups(events: StudyEvent[], groups: string[]): StudyEvent[] {
+  return events.filter(e => e.scope === 'study' || (e.scope === 'group' && groups.includes(e.target)));
+}
+
+export function eventLabel(event: StudyEvent): string {
+  if (event.kind !== 'dose') return event.description || EVENT_KIND_LABELS[event.kind];
+  const dose = event.dose !== undefined ? ` ${event.dose}${event.doseUnit ? ` ${event.doseUnit}` : ''}` : '';
+  const route = event.route ? ` ${event.route}` : '';
+  return `${event.compound || 'Dose'}${dose}${route}`;
+}
+
+const eventColor = (event: StudyEvent) =>
+  event.scope === 'group' ? colorManager.getColor(event.target) : event.kind === 'dose' ? '#8A0051' : '#555555';
+
+export interface RegimenBand {
+  start: number;
+  end: number;
+  label: string;
+  color: string;
+  doseDays: number[];
+}
+
+// First to last dose day of each compound and target
+export function regimenBands(events: StudyEvent[]): RegimenBand[] {
+  const bands = new Map<string, StudyEvent[]>();
+  events.filter(e => e.kind === 'dose').forEach(e => {
+    const key = `${e.scope}|${e.target}|${e.compound}`;
+    bands.set(key, [...(bands.get(key) || []), e]);
+  });
+  return Array.from(bands.values()).map(doses => {
+    const days = Array.from(new Set(doses.map(d => d.day))).sort((a, b) => a - b);
+    const target = doses[0].scope === 'study' ? '' : ` (${doses[0].target})`;
+    return {
+      start: days[0],
+      end: days[days.length - 1],
+      label: `${doses[0].compound || 'Dosing'}${target}`,
+      color: eventColor(doses[0]),
+      doseDays: days
+    };
+  });
+}
+
+export interface EventOverlay {
+  shapes: Record<string, unknown>[];
+  annotations: Record<string, unknown>[];
+}
+
+// Plotly shapes for the events, on the x axis given and over a vertical slice of the plot area
+export function eventOverlay(
+  events: StudyEvent[],
+  display: EventDisplay,
+  { xref = 'x', yDomain = [0, 1] as [number, number], labels = true } = {}
+): EventOverlay {
+  const overlay: EventOverlay = { shapes: [], annotations: [] };
+  if (display === 'off' || events.length === 0) return overlay;
+  const [bottom, top] = yDomain;
+  const line = (day: number, color: string, dash: string, from = bottom, to = top) => overlay.shapes.push({
+    type: 'line', xref, yref: 'paper', x0: day, x1: day, y0: from, y1: to,
+    line: { color, width: 1.5, dash }, layer: 'below'
+  });
+
+  if (display === 'rug') {
+    const height = (top - bottom) * 0.04;
+    events.forEach(e => line(e.day, eventColor(e), 'solid', bottom, bottom + height));
+    return overlay;
+  }
+
+  const others = display === 'bands' ? events.filter(e => e.kind !== 'dose') : events;
+  if (display === 'bands') {
+    regimenBands(events).forEach((band, index) => {
+      overlay.shapes.push({
+        type: 'rect', xref, yref: 'paper', x0: band.start - 0.5, x1: band.end + 0.5, y0: bottom, y1: top,
+        fillcolor: band.color, opacity: 0.08, line: { width: 0 }, layer: 'below'
+      });
+      if (labels) {
+        overlay.annotations.push({
+          x: band.start - 0.5, xref, xanchor: 'left', y: top - (index % 4) * 0.04 * (top - bottom), yref: 'paper',
+          yanchor: 'top', text: band.label, showarrow: false, font: { size: 9, color: band.color }
+        });
+      }
+    });
+  }
+
+  // One marker per day and label, however many animals or groups share it
+  const seen = new Set<string>();
+  others.forEach(e => {
+    const label = eventLabel(e);
+    const key = `${e.day}|${label}|${eventColor(e)}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    line(e.day, eventColor(e), e.kind === 'dose' ? 'dot' : 'dash');
+    if (labels) {
+      overlay.annotations.push({
+        x: e.day, xref, y: top, yref: 'paper', yanchor: 'bottom', text: e.kind === 'dose' ? '▼' : '◆',
+        hovertext: `Day ${e.day}: ${label}${e.scope === 'study' ? '' : ` (${e.target})`}`,
+        showarrow: false, font: { size: 10, color: eventColor(e) }
+      });
+    }
+  });
+  return overlay;
+}
@@ -0,0 +1,248 @@
+// Time-to-endpoint analysis: event times from a configurable rule, Kaplan-Meier estimates per group
+// with Greenwood (log-log) confidence bands, and log-rank tests
+
+import type { ParsedData } from '../components/FileUpload';
+import { chiSquarePValue, holmAdjust, normalQuantile } from './StatisticalAnalysis';
+import { dot, invert, multiplyVector } from './Matrix';
+
+export type EndpointRuleKind = 'volume_threshold' | 'event_column' | 'body_weight_loss';
+
+export const ENDPOINT_RULE_LABELS: Record<EndpointRuleKind, string> = {
+  volume_threshold: 'Tumour volume reaches a threshold',
+  event_column: 'Death / euthanasia column',
+  body_weight_loss: 'Body-weight loss limit'
+};
+
+export interface EndpointRule {
+  kind: EndpointRuleKind;
+  // Tumour volume or body weight parameter
+  parameter: string;
+  // Volume threshold, or % loss from baseline
+  threshold: number;
+  // Column recording deaths or removals (a study day, or a reason on the row it happened)
+  column: string;
+  // Values of that column counted as events; any other value censors. Empty counts every value.
+  eventValues: string[];
+  // Column recording removals for other reasons, censored on the day they happen; blank for none
+  censorColumn: string;
+}
+
+export interface SurvivalSubject {
+  animalId: string;
+  group: string;
+  time: number;
+  event: boolean;
+  note: string;
+}
+
+export interface KaplanMeierStep {
+  time: number;
+  atRisk: number;
+  events: number;
+  censored: number;
+  survival: number;
+  lower: number;
+  upper: number;
+}
+
+export interface KaplanMeierCurve {
+  group: string;
+  n: number;
+  events: number;
+  steps: KaplanMeierStep[];
+  // NaN when the curve (or its confidence band) never falls to 50%
+  median: number;
+  medianLower: number;
+  medianUpper: number;
+}
+
+export interface LogRankResult {
+  chiSquare: number;
+  df: number;
+  pValue: number;
+}
+
+export interface PairwiseLogRank extends LogRankResult {
+  groupA: string;
+  groupB: string;
+  adjustedPValue: number;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+interface Marker {
+  day: number;
+  value: string;
+}
+
+// When and why a column marks an animal: a number is the study day itself, a value on every row is
+// animal metadata (taken as the last observation), otherwise the first row the value appears on
+function columnMarker(rows: ParsedData, column: string, lastDay: number): Marker | null {
+  const marked = rows.filter(row => !isBlank(row[column]));
+  if (marked.length === 0) return null;
+  const value = String(marked[0][column]).trim();
+  if (!isNaN(Number(value))) return { day: Number(value), value };
+  if (marked.length === rows.length) return { day: lastDay, value };
+  return { day: Math.min(...marked.map(row => Number(row.studyDay))), value };
+}
+
+// First day a parameter meets a condition, in day order
+function firstDay(rows: ParsedData, parameter: string, condition: (value: number, baseline: number) => boolean): number | null {
+  const measured = rows
+    .filter(row => typeof row[parameter] === 'number' && Number.isFinite(row[parameter]))
+    .sort((a, b) => Number(a.studyDay) - Number(b.studyDay));
+  if (measured.length === 0) return null;
+  const baseline = measured[0][parameter] as number;
+  const hit = measured.find(row => condition(row[parameter] as number, baseline));
+  return hit ? Number(hit.studyDay) : null;
+}
+
+export function survivalSubjects(data: ParsedData, rule: EndpointRule, groupField: string): SurvivalSubject[] {
+  const rowsByAnimal = new Map<string, ParsedData>();
+  data.forEach(row => {
+    const id = String(row.animalId);
+    rowsByAnimal.set(id, [...(rowsByAnimal.get(id) || []), row]);
+  });
+
+  const subjects: SurvivalSubject[] = [];
+  rowsByAnimal.forEach((rows, animalId) => {
+    const groupRow = rows.find(row => !isBlank(row[groupField]));
+    if (!groupRow) return;
+    const lastDay = Math.max(...rows.map(row => Number(row.studyDay)).filter(day => !isNaN(day)));
+    let eventDay: number | null = null;
+    let eventNote = '';
+    let censorDay: number | null = null;
+    let censorNote = '';
+
+    if (rule.kind === 'volume_threshold') {
+      eventDay = firstDay(rows, rule.parameter, value => value >= rule.threshold);
+      eventNote = `${rule.parameter} ≥ ${rule.threshold}`;
+    } else if (rule.kind === 'body_weight_loss') {
+      eventDay = firstDay(rows, rule.parameter, (value, baseline) => baseline > 0 && (baseline - value) / baseline * 100 >= rule.threshold);
+      eventNote = `≥ ${rule.threshold}% body-weight loss`;
+    } else {
+      const marker = columnMarker(rows, rule.column, lastDay);
+      if (marker && (rule.eventValues.length === 0 || rule.eventValues.includes(marker.value))) {
+        eventDay = marker.day;
+        eventNote = marker.value;
+      } else if (marker) {
+        censorDay = marker.day;
+        censorNote = marker.value;
+      }
+    }
+
+    if (rule.censorColumn) {
+      const marker = columnMarker(rows, rule.censorColumn, lastDay);
+      if (marker && (censorDay === null || marker.day < censorDay)) {
+        censorDay = marker.day;
+        censorNote = marker.value;
+      }
+    }
+
+    const group = String(groupRow[groupField]);
+    if (eventDay !== null && (censorDay === null || eventDay <= censorDay)) {
+      subjects.push({ animalId, group, time: eventDay, event: true, note: eventNote });
+    } else {
+      subjects.push({
+        animalId,
+        group,
+        time: censorDay ?? lastDay,
+        event: false,
+        note: censorDay !== null ? `Censored: ${censorNote}` : 'Censored at last observation'
+      });
+    }
+  });
+  return subjects;
+}
+
+// Product-limit estimate with Greenwood variance on the log(-log) scale
+export function kaplanMeier(subjects: SurvivalSubject[], group: string, confidence = 0.95): KaplanMeierCurve {
+  const members = subjects.filter(s => s.group === group);
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const times = Array.from(new Set(members.map(s => s.time))).sort((a, b) => a - b);
+  const steps: KaplanMeierStep[] = [];
+  let survival = 1;
+  let greenwood = 0;
+
+  times.forEach(time => {
+    const atRisk = members.filter(s => s.time >= time).length;
+    const events = members.filter(s => s.time === time && s.event).length;
+    const censored = members.filter(s => s.time === time && !s.event).length;
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      greenwood += atRisk > events ? events / (atRisk * (atRisk - events)) : 0;
+    }
+    let lower = survival;
+    let upper = survival;
+    if (survival > 0 && survival < 1) {
+      const se = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+      lower = Math.pow(survival, Math.exp(z * se));
+      upper = Math.pow(survival, Math.exp(-z * se));
+    } else if (survival === 0) {
+      lower = 0;
+      upper = 0;
+    }
+    steps.push({ time, atRisk, events, censored, survival, lower, upper });
+  });
+
+  const firstAtOrBelowHalf = (value: (step: KaplanMeierStep) => number) =>
+    steps.find(step => step.events > 0 && value(step) <= 0.5)?.time ?? NaN;
+
+  return {
+    group,
+    n: members.length,
+    events: members.filter(s => s.event).length,
+    steps,
+    median: firstAtOrBelowHalf(step => step.survival),
+    medianLower: firstAtOrBelowHalf(step => step.lower),
+    medianUpper: firstAtOrBelowHalf(step => step.upper)
+  };
+}
+
+// Animals still at risk just before each of the given days
+export const numberAtRisk = (subjects: SurvivalSubject[], group: string, days: number[]) =>
+  days.map(day => subjects.filter(s => s.group === group && s.time >= day).length);
+
+// Log-rank test across the given groups (k - 1 degrees of freedom)
+export function logRankTest(subjects: SurvivalSubject[], groups: string[]): LogRankResult {
+  const members = subjects.filter(s => groups.includes(s.group));
+  const k = groups.length;
+  const observedMinusExpected = new Array<number>(k).fill(0);
+  const variance = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const eventTimes = Array.from(new Set(members.filter(s => s.event).map(s => s.time))).sort((a, b) => a - b);
+
+  eventTimes.forEach(time => {
+    const atRisk = groups.map(g => members.filter(s => s.group === g && s.time >= time).length);
+    const events = groups.map(g => members.filter(s => s.group === g && s.time === time && s.event).length);
+    const n = atRisk.reduce((a, b) => a + b, 0);
+    const d = events.reduce((a, b) => a + b, 0);
+    if (n === 0) return;
+    const spread = n > 1 ? (n - d) / (n - 1) : 0;
+    for (let j = 0; j < k; j++) {
+      observedMinusExpected[j] += events[j] - d * atRisk[j] / n;
+      for (let l = 0; l < k; l++) {
+        variance[j][l] += j === l
+          ? d * (atRisk[j] / n) * (1 - atRisk[j] / n) * spread
+          : -d * atRisk[j] * atRisk[l] / (n * n) * spread;
+      }
+    }
+  });
+
+  const df = k - 1;
+  const u = observedMinusExpected.slice(0, df);
+  const inverse = invert(variance.slice(0, df).map(row => row.slice(0, df)));
+  if (df < 1 || !inverse) return { chiSquare: NaN, df, pValue: NaN };
+  const chiSquare = dot(u, multiplyVector(inverse, u));
+  return { chiSquare, df, pValue: chiSquarePValue(chiSquare, df) };
+}
+
+// Every pair of groups, with Holm-adjusted p-values
+export function pairwiseLogRank(subjects: SurvivalSubject[], groups: string[]): PairwiseLogRank[] {
+  const pairs: Omit<PairwiseLogRank, 'adjustedPValue'>[] = [];
+  groups.forEach((groupA, i) => groups.slice(i + 1).forEach(groupB => {
+    pairs.push({ groupA, groupB, ...logRankTest(subjects, [groupA, groupB]) });
+  }));
+  const tested = pairs.filter(p => Number.isFinite(p.pValue));
+  const adjusted = holmAdjust(tested.map(p => p.pValue));
+  return pairs.map(p => ({ ...p, adjustedPValue: Number.isFinite(p.pValue) ? adjusted[tested.indexOf(p)] : NaN }));
+}
@@ -0,0 +1,226 @@
+// Merge mapped tabs into one row per animal and study day, reporting conflicts instead of overwriting
+
+import type { ParsedData } from '../components/FileUpload';
+import type { ColumnMapping } from '../components/ColumnMappingDialog';
+import {
+  issueId, resolutionFor,
+  type IssueResolutions, type SourceRef, type ValidationIssue
+} from './ImportValidation';
+import { AnimalIdMatcher, type IdAliases, type IdMatch } from './AnimalIdMatcher';
+import type { AmbiguousNumber } from './NumberParsing';
+
+export interface MappedTab {
+  tabName: string;
+  mapping: ColumnMapping;
+  rows: ParsedData;
+  // Text cells whose number format was a guess, by row index into rows
+  ambiguousNumbers?: AmbiguousNumber[];
+  // Source file, when several files are imported into one study
+  fileName?: string;
+}
+
+interface CellValue {
+  value: string | number;
+  source: SourceRef;
+}
+
+// Everything supplied for one animal on one study day
+interface MergeEntry {
+  key: string;
+  animalId: string;
+  studyDay: number;
+  sources: SourceRef[];
+  values: Map<string, CellValue[]>;
+}
+
+export interface CollectedTabs {
+  entries: MergeEntry[];
+  issues: ValidationIssue[];
+  // IDs that only joined another tab's animal through a normalisation rule or alias
+  idMatches: IdMatch[];
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Same conversion as before: numeric-looking cells become numbers
+const toCellValue = (value: unknown): string | number =>
+  isNaN(Number(value)) ? String(value) : Number(value);
+
+export const mergeKey = (animalId: unknown, studyDay: number) => `${animalId}__${studyDay}`;
+
+// Parameter columns where most filled cells are numbers
+function numericParameters(rows: ParsedData, parameterColumns: string[]): Set<string> {
+  const numeric = new Set<string>();
+  parameterColumns.forEach(param => {
+    const filled = rows.map(row => row[param]).filter(v => !isBlank(v));
+    const numbers = filled.filter(v => !isNaN(Number(v)));
+    if (filled.length > 0 && numbers.length > filled.length / 2) numeric.add(param);
+  });
+  return numeric;
+}
+
+// Gather every value by animal/day/parameter and build the validation report.
+// knownIds are animals already in the study, so ID variants in new files join them.
+export function collectMappedTabs(tabs: MappedTab[], aliases: IdAliases = {}, knownIds: string[] = []): CollectedTabs {
+  const entryMap = new Map<string, MergeEntry>();
+  const issues: ValidationIssue[] = [];
+  const idMatcher = new AnimalIdMatcher(aliases);
+  knownIds.forEach(id => idMatcher.add(id));
+  const idMatches = new Map<string, IdMatch>();
+
+  tabs.forEach(tab => {
+    const { animalIdColumn, timeColumn, parameterColumns } = tab.mapping;
+    const numeric = numericParameters(tab.rows, parameterColumns);
+    const ambiguousByRow = new Map<number, AmbiguousNumber[]>();
+    (tab.ambiguousNumbers || []).forEach(cell => {
+      ambiguousByRow.set(cell.rowIndex, [...(ambiguousByRow.get(cell.rowIndex) || []), cell]);
+    });
+
+    tab.rows.forEach((row, rowIndex) => {
+      const source: SourceRef = { tabName: tab.tabName, rowIndex };
+      const rawDay = row[timeColumn];
+
+      // Rows with no animal or no timepoint are blank lines, not errors
+      if (!row[animalIdColumn] || isBlank(rawDay)) return;
+      const idMatch = idMatcher.resolve(row[animalIdColumn]);
+      if (!idMatch) return;
+      if (idMatch.rule !== 'exact') idMatches.set(idMatch.raw, idMatch);
+      const animalId = idMatch.id;
+
+      const studyDay = Number(rawDay);
+      if (isNaN(studyDay)) {
+        issues.push({
+          id: issueId.unparseableDay(source),
+          type: 'unparseable_day',
+          animalId,
+          message: `Study day "${rawDay}" for animal ${animalId} is not a number`,
+          sources: [source]
+        });
+        return;
+      }
+
+      const key = mergeKey(animalId, studyDay);
+      let entry = entryMap.get(key);
+      if (!entry) {
+        entry = { key, animalId, studyDay, sources: [], values: new Map() };
+        entryMap.set(key, entry);
+      }
+      entry.sources.push(source);
+
+      (ambiguousByRow.get(rowIndex) || []).forEach(cell => {
+        const isParameter = parameterColumns.includes(cell.column);
+        issues.push({
+          id: issueId.ambiguousNumber(source, cell.column),
+          type: 'ambiguous_number',
+          animalId,
+          studyDay,
+          parameter: isParameter ? cell.column : undefined,
+          values: cell.alternative === null ? [cell.value] : [cell.value, cell.alternative],
+          message: `"${cell.text}" in "${cell.column}" (animal ${animalId}, day ${studyDay}) read as ${cell.value}` +
+            (cell.alternative === null ? ', unlike the rest of the column' : `; could also be ${cell.alternative}`),
+          sources: [source]
+        });
+      });
+
+      parameterColumns.forEach(param => {
+        if (isBlank(row[param])) return;
+        const value = toCellValue(row[param]);
+        if (numeric.has(param) && typeof value !== 'number') {
+          issues.push({
+            id: issueId.nonNumeric(source, param),
+            type: 'non_numeric',
+            animalId,
+            studyDay,
+            parameter: param,
+            values: [value],
+            message: `"${value}" in numeric column "${param}" (animal ${animalId}, day ${studyDay})`,
+            sources: [source]
+          });
+        }
+        const cells = entry!.values.get(param) || [];
+        cells.push({ value, source });
+        entry!.values.set(param, cells);
+      });
+    });
+  });
+
+  const entries = Array.from(entryMap.values());
+  entries.forEach(entry => {
+    let conflicting = false;
+    entry.values.forEach((cells, param) => {
+      const distinct = Array.from(new Set(cells.map(c => c.value)));
+      if (distinct.length < 2) return;
+      conflicting = true;
+      issues.push({
+        id: issueId.conflict(entry.key, param),
+        type: 'conflict',
+        animalId: entry.animalId,
+        studyDay: entry.studyDay,
+        parameter: param,
+        values: cells.map(c => c.value),
+        message: `${param} for animal ${entry.animalId} on day ${entry.studyDay}: ${cells.map(c => c.value).join(' vs ')}`,
+        sources: cells.map(c => c.source)
+      });
+    });
+
+    // Repeated rows in one tab that agree on every value
+    const tabCounts = new Map<string, number>();
+    entry.sources.forEach(s => tabCounts.set(s.tabName, (tabCounts.get(s.tabName) || 0) + 1));
+    const repeatedTabs = Array.from(tabCounts.entries()).filter(([, count]) => count > 1).map(([tabName]) => tabName);
+    if (!conflicting && repeatedTabs.length > 0) {
+      issues.push({
+        id: issueId.duplicateRow(entry.key),
+        type: 'duplicate_row',
+        animalId: entry.animalId,
+        studyDay: entry.studyDay,
+        message: `Animal ${entry.animalId}, day ${entry.studyDay} appears more than once in ${repeatedTabs.join(', ')}`,
+        sources: entry.sources.filter(s => repeatedTabs.includes(s.tabName))
+      });
+    }
+  });
+
+  return { entries, issues, idMatches: Array.from(idMatches.values()) };
+}
+
+// Build the merged rows, applying the chosen resolution wherever the report found a problem
+export function mergeCollectedTabs(collected: CollectedTabs, resolutions: IssueResolutions): ParsedData {
+  const issueById = new Map(collected.issues.map(issue => [issue.id, issue]));
+  const resolved = (id: string) => {
+    const issue = issueById.get(id);
+    return issue ? resolutionFor(resolutions, issue) : undefined;
+  };
+
+  const rows: ParsedData = [];
+  collected.entries.forEach(entry => {
+    if (resolved(issueId.duplicateRow(entry.key)) === 'exclude') return;
+
+    const merged: Record<string, unknown> = { animalId: entry.animalId, studyDay: entry.studyDay };
+    entry.values.forEach((allCells, param) => {
+      const cells = allCells.filter(c =>
+        resolved(issueId.nonNumeric(c.source, param)) !== 'exclude' &&
+        resolved(issueId.ambiguousNumber(c.source, param)) !== 'exclude'
+      );
+      if (cells.length === 0) return;
+
+      switch (resolved(issueId.conflict(entry.key, param))) {
+        case 'keep_first':
+          merged[param] = cells[0].value;
+          break;
+        case 'average': {
+          // Only numbers are averaged; with none left the last value is kept, as for keep_last
+          const numbers = cells.map(c => c.value).filter((v): v is number => typeof v === 'number');
+          merged[param] = numbers.length > 0
+            ? numbers.reduce((sum, v) => sum + v, 0) / numbers.length
+            : cells[cells.length - 1].value;
+          break;
+        }
+        case 'exclude':
+          break;
+        default:
+          merged[param] = cells[cells.length - 1].value;
+      }
+    });
+    rows.push(merged);
+  });
+  return rows;
+}
@@ -1,3 +1,5 @@
+import { fitGrowthMixedModel, type MixedModelObservation } from './MixedModel';
+
 export class TumorStatisticalAnalysis {
   confidenceLevel: number;
   alpha: number;
@@ -7,8 +9,8 @@ export class TumorStatisticalAnalysis {
     this.alpha = 0.05;
   }
 
-  // Advanced TGI calculations with statistical testing
-  calculateAdvancedTGI(controlGroup, treatmentGroups, timepoints) {
+  // Advanced TGI calculations with statistical testing; parameter is the measurement key holding the tumour volume
+  calculateAdvancedTGI(controlGroup, treatmentGroups, timepoints, controlName: string, parameter = 'tumorVolume') {
     const results = {
       timepoints: [],
       overallAnalysis: {},
@@ -16,7 +18,7 @@ export class TumorStatisticalAnalysis {
     };
 
     timepoints.forEach(timepoint => {
-      const controlData = this.extractTimePointData(controlGroup, timepoint);
+      const controlData = this.extractTimePointData(controlGroup, timepoint, parameter);
       const timepointResults = {
         day: timepoint,
         controlStats: this.calculateDescriptiveStats(controlData),
@@ -24,7 +26,7 @@ export class TumorStatisticalAnalysis {
       };
 
       treatmentGroups.forEach(treatmentGroup => {
-        const treatmentData = this.extractTimePointData(treatmentGroup.animals, timepoint);
+        const treatmentData = this.extractTimePointData(treatmentGroup.animals, timepoint, parameter);
         if (controlData.length > 0 && treatmentData.length > 0) {
           const tgiAnalysis = this.performTGIAnalysis(controlData, treatmentData, treatmentGroup.name);
           timepointResults.treatments.push(tgiAnalysis);
@@ -35,7 +37,7 @@ export class TumorStatisticalAnalysis {
     });
 
     // Overall longitudinal analysis
-    results.overallAnalysis = this.performLongitudinalAnalysis(controlGroup, treatmentGroups);
+    results.overallAnalysis = this.performLongitudinalAnalysis(controlGroup, treatmentGroups, controlName, parameter);
 
     return results;
   }
@@ -157,12 +159,12 @@ export class TumorStatisticalAnalysis {
   }
 
   // Utility methods
-  extractTimePointData(group, timepoint) {
+  extractTimePointData(group, timepoint, parameter = 'tumorVolume') {
     const data = [];
     group.forEach(animal => {
       const measurement = animal.measurements.find(m => m.studyDay === timepoint);
-      if (measurement && measurement.measurements.tumorVolume) {
-        data.push(measurement.measurements.tumorVolume);
+      if (measurement && measurement.measurements[parameter]) {
+        data.push(measurement.measurements[parameter]);
       }
     });
     return data;
@@ -252,10 +254,24 @@ export class TumorStatisticalAnalysis {
     return 'Tumor acceleration';
   }
 
-  // Placeholder for longitudinal analysis (ANOVA, etc.)
-  performLongitudinalAnalysis(controlGroup, treatmentGroups) {
-    // Implement as needed
-    return {};
+  // Linear mixed model on log tumour volume over the whole time course (see fitGrowthMixedModel);
+  // empty when there is too little data to fit it
+  performLongitudinalAnalysis(controlGroup, treatmentGroups, controlName: string, parameter = 'tumorVolume') {
+    const observations: MixedModelObservation[] = [];
+    const addAnimals = (animals, group: string) => {
+      animals.forEach(animal => {
+        animal.measurements.forEach(m => {
+          const volume = m.measurements[parameter];
+          if (typeof volume === 'number') {
+            observations.push({ animalId: animal.animalId, group, day: m.studyDay, volume });
+          }
+        });
+      });
+    };
+    addAnimals(controlGroup, controlName);
+    treatmentGroups.forEach(treatmentGroup => addAnimals(treatmentGroup.animals, treatmentGroup.name));
+    const groups = [controlName, ...treatmentGroups.map(treatmentGroup => treatmentGroup.name)];
+    return fitGrowthMixedModel(observations, groups, controlName, this.confidenceLevel) || {};
   }
 
   tTestConfidenceInterval(mean1, mean2, pooledSE, df) {
@@ -0,0 +1,106 @@
+// Tumour volume derived from caliper measurements (length, width and optional height)
+
+import type { ParsedData } from '../components/FileUpload';
+
+export type VolumeFormula = 'lw2_half' | 'pi6_lwh' | 'pi6_lw2' | 'custom';
+
+export interface DerivedVolumeConfig {
+  lengthColumn: string;
+  widthColumn: string;
+  heightColumn?: string;
+  formula: VolumeFormula;
+  coefficient?: number;
+  outputColumn: string;
+}
+
+export const DEFAULT_VOLUME_OUTPUT_COLUMN = 'Volume';
+
+export const VOLUME_FORMULAS: Record<VolumeFormula, { label: string; requiresHeight: boolean }> = {
+  lw2_half: { label: 'L × W² / 2 (modified ellipsoid)', requiresHeight: false },
+  pi6_lwh: { label: 'π/6 × L × W × H (ellipsoid)', requiresHeight: true },
+  pi6_lw2: { label: 'π/6 × L × W²', requiresHeight: false },
+  custom: { label: 'k × L × W² (or k × L × W × H) with custom k', requiresHeight: false }
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+export function isDerivedVolumeValid(config: DerivedVolumeConfig): boolean {
+  if (!config.lengthColumn || !config.widthColumn || !config.outputColumn.trim()) return false;
+  if (VOLUME_FORMULAS[config.formula].requiresHeight && !config.heightColumn) return false;
+  if (config.formula === 'custom' && (config.coefficient === undefined || isNaN(config.coefficient))) return false;
+  return true;
+}
+
+// Volume for one set of caliper readings, or null when a required reading is missing
+export function computeTumorVolume(
+  length: unknown,
+  width: unknown,
+  height: unknown,
+  config: Pick<DerivedVolumeConfig, 'formula' | 'coefficient' | 'heightColumn'>
+): number | null {
+  const l = toNumber(length);
+  const w = toNumber(width);
+  if (l === null || w === null) return null;
+
+  switch (config.formula) {
+    case 'lw2_half':
+      return (l * w * w) / 2;
+    case 'pi6_lw2':
+      return (Math.PI / 6) * l * w * w;
+    case 'pi6_lwh': {
+      const h = toNumber(height);
+      return h === null ? null : (Math.PI / 6) * l * w * h;
+    }
+    case 'custom': {
+      const k = config.coefficient;
+      if (k === undefined || !Number.isFinite(k)) return null;
+      if (config.heightColumn) {
+        const h = toNumber(height);
+        return h === null ? null : k * l * w * h;
+      }
+      return k * l * w * w;
+    }
+    default:
+      return null;
+  }
+}
+
+// Add the derived volume column to every row that has the required caliper readings
+export function addDerivedVolume(rows: ParsedData, config: DerivedVolumeConfig): ParsedData {
+  return rows.map(row => {
+    const volume = computeTumorVolume(
+      row[config.lengthColumn],
+      row[config.widthColumn],
+      config.heightColumn ? row[config.heightColumn] : undefined,
+      config
+    );
+    return volume === null ? row : { ...row, [config.outputColumn]: volume };
+  });
+}
+
+// Human-readable statement of how volume was calculated, for the data view and reports
+export function describeVolumeFormula(config: DerivedVolumeConfig): string {
+  const columns = `L = "${config.lengthColumn}", W = "${config.widthColumn}"` +
+    (config.heightColumn ? `, H = "${config.heightColumn}"` : '');
+  let formula: string;
+  switch (config.formula) {
+    case 'lw2_half':
+      formula = 'V = L × W² / 2';
+      break;
+    case 'pi6_lw2':
+      formula = 'V = π/6 × L × W²';
+      break;
+    case 'pi6_lwh':
+      formula = 'V = π/6 × L × W × H';
+      break;
+    default:
+      formula = config.heightColumn
+        ? `V = ${config.coefficient} × L × W × H`
+        : `V = ${config.coefficient} × L × W²`;
+  }
+  return `${config.outputColumn}: ${formula} (${columns})`;
+}
@@ -0,0 +1,133 @@
+// Parameter units: read from headers like "Volume (mm3)", converted to a canonical unit at import,
+// and shown in axis titles, table headers and reports
+
+export type UnitDimension = 'volume' | 'mass' | 'length';
+
+export type UnitCode = 'mm3' | 'cm3' | 'uL' | 'mL' | 'mg' | 'g' | 'kg' | 'mm' | 'cm';
+
+// factor: size of the unit in its dimension's base unit (mm³, g, mm)
+export const UNITS: Record<UnitCode, { label: string; dimension: UnitDimension; factor: number }> = {
+  mm3: { label: 'mm³', dimension: 'volume', factor: 1 },
+  cm3: { label: 'cm³', dimension: 'volume', factor: 1000 },
+  uL: { label: 'µL', dimension: 'volume', factor: 1 },
+  mL: { label: 'mL', dimension: 'volume', factor: 1000 },
+  mg: { label: 'mg', dimension: 'mass', factor: 0.001 },
+  g: { label: 'g', dimension: 'mass', factor: 1 },
+  kg: { label: 'kg', dimension: 'mass', factor: 1000 },
+  mm: { label: 'mm', dimension: 'length', factor: 1 },
+  cm: { label: 'cm', dimension: 'length', factor: 10 }
+};
+
+// Unit of a parameter as supplied in the file, and the unit it is stored in after import
+export interface ParameterUnit {
+  unit: UnitCode;
+  canonical: UnitCode;
+}
+
+// Spellings seen in CRO headers, after normalizeUnitText
+const UNIT_ALIASES: Record<string, UnitCode> = {
+  mm3: 'mm3', cubicmm: 'mm3',
+  cm3: 'cm3', cc: 'cm3', ccm: 'cm3', cubiccm: 'cm3',
+  ul: 'uL', microl: 'uL', microliter: 'uL', microlitre: 'uL',
+  ml: 'mL', milliliter: 'mL', millilitre: 'mL',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  g: 'g', gm: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  mm: 'mm', millimeter: 'mm', millimetre: 'mm',
+  cm: 'cm', centimeter: 'cm', centimetre: 'cm'
+};
+
+const normalizeUnitText = (text: string) => text
+  .toLowerCase()
+  .replace(/[µμ]/g, 'u')
+  .replace(/³|\^3/g, '3')
+  .replace(/[\s.]/g, '');
+
+// A unit written on its own, e.g. "mm3" or "g" from a SEND --STRESU column
+export const parseUnitText = (text: string): UnitCode | null => UNIT_ALIASES[normalizeUnitText(text)] || null;
+
+// "Volume (mm3)", "Weight [g]", "Volume_mm3" or "Body weight g" -> unit and the bare parameter name
+export function parseUnitFromHeader(header: string): { unit: UnitCode; name: string } | null {
+  const bracketed = header.match(/^(.*?)[\s_]*[([]\s*([^)\]]+?)\s*[)\]]\s*$/);
+  if (bracketed) {
+    const unit = UNIT_ALIASES[normalizeUnitText(bracketed[2])];
+    if (unit && bracketed[1].trim()) return { unit, name: bracketed[1].trim() };
+  }
+  const trailing = header.match(/^(.*?[^\s_])[\s_]+([^\s_]+)\s*$/);
+  if (trailing) {
+    const unit = UNIT_ALIASES[normalizeUnitText(trailing[2])];
+    if (unit) return { unit, name: trailing[1].trim() };
+  }
+  return null;
+}
+
+export const unitLabel = (unit: UnitCode | undefined) => (unit ? UNITS[unit].label : '');
+
+// "Volume (mm³)", or just the name when the unit isn't known
+export const withUnit = (name: string, unit: UnitCode | undefined) =>
+  unit ? `${name} (${UNITS[unit].label})` : name;
+
+// Units a value can be converted to without changing what it measures
+export const compatibleUnits = (unit: UnitCode): UnitCode[] =>
+  (Object.keys(UNITS) as UnitCode[]).filter(u => UNITS[u].dimension === UNITS[unit].dimension);
+
+export const conversionFactor = (from: UnitCode, to: UnitCode) => UNITS[from].factor / UNITS[to].factor;
+
+// Rounded to 12 significant digits so 1.1 cm³ comes out as 1100 mm³, not 1100.0000000000002
+export function convertUnit(value: number, from: UnitCode, to: UnitCode): number {
+  if (from === to) return value;
+  return Number((value * conversionFactor(from, to)).toPrecision(12));
+}
+
+// Name a parameter is imported under: the header without its unit, unless that would clash with another column
+export function parameterNames(parameterColumns: string[], units: Record<string, ParameterUnit>): Record<string, string> {
+  const names: Record<string, string> = {};
+  const stripped = parameterColumns.map(col => (units[col] ? parseUnitFromHeader(col)?.name : undefined) || col);
+  parameterColumns.forEach((col, i) => {
+    const name = stripped[i];
+    const clashes = name !== col && stripped.some((other, j) => j !== i && other === name);
+    names[col] = clashes || (name !== col && parameterColumns.includes(name)) ? col : name;
+  });
+  return names;
+}
+
+// Rename parameters to their bare names and convert numeric values to the canonical unit.
+// Units in the result are keyed by the imported parameter name.
+export function applyParameterUnits(
+  rows: Record<string, unknown>[],
+  parameterColumns: string[],
+  units: Record<string, ParameterUnit>
+): { rows: Record<string, unknown>[]; parameterColumns: string[]; units: Record<string, ParameterUnit> } {
+  const names = parameterNames(parameterColumns, units);
+  const renamed = parameterColumns.filter(col => names[col] !== col);
+  const converting = parameterColumns.filter(col => units[col] && units[col].unit !== units[col].canonical);
+
+  const convertedRows = renamed.length === 0 && converting.length === 0 ? rows : rows.map(row => {
+    const next = { ...row };
+    renamed.forEach(col => {
+      next[names[col]] = row[col];
+      delete next[col];
+    });
+    converting.forEach(col => {
+      const value = next[names[col]];
+      if (value === undefined || value === null || value === '' || isNaN(Number(value))) return;
+      next[names[col]] = convertUnit(Number(value), units[col].unit, units[col].canonical);
+    });
+    return next;
+  });
+
+  const importedUnits: Record<string, ParameterUnit> = {};
+  parameterColumns.forEach(col => {
+    if (units[col]) importedUnits[names[col]] = units[col];
+  });
+  return {
+    rows: convertedRows,
+    parameterColumns: parameterColumns.map(col => names[col]),
+    units: importedUnits
+  };
+}
+
+// "Volume: cm³ → mm³ (× 1000)" for the provenance record
+export function describeUnitConversion(name: string, unit: ParameterUnit): string {
+  return `${name}: ${UNITS[unit.unit].label} → ${UNITS[unit.canonical].label} (× ${conversionFactor(unit.unit, unit.canonical)})`;
+}
@@ -0,0 +1,92 @@
+// Helpers for wide-format sheets (one row per animal, one column per study day)
+// which are unpivoted into the long animalId/studyDay rows the rest of the app uses.
+
+import type { ParsedData } from '../components/FileUpload';
+
+export interface WideDayColumn {
+  column: string;
+  day: number;
+  parameter: string;
+}
+
+// Name of the synthetic time column created by the unpivot step
+export const WIDE_STUDY_DAY_COLUMN = 'Study Day';
+
+export const DEFAULT_WIDE_PARAMETER = 'Volume';
+
+// Matches "D0", "D 3", "Day 7", "day_14", "SD21", "Day -1", optionally surrounded by a parameter name
+const DAY_HEADER_PATTERN = /(^|[^a-z])(?:study[\s_-]*)?(?:s?d|day)[\s_.]*(-?\d+(?:\.\d+)?)(?![\d.])/i;
+
+// Parse the study day encoded in a column header, plus any leftover text naming the parameter
+export function parseDayFromHeader(header: string): { day: number; parameterHint: string } | null {
+  const text = String(header).trim();
+  const match = text.match(DAY_HEADER_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  const day = Number(match[2]);
+  if (!Number.isFinite(day)) return null;
+
+  const matchStart = match.index + match[1].length;
+  const rest = (text.slice(0, matchStart) + ' ' + text.slice(match.index + match[0].length))
+    .replace(/[_:-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { day, parameterHint: rest };
+}
+
+// Find all columns whose header looks like a study day
+export function detectDayColumns(columns: string[], defaultParameter = DEFAULT_WIDE_PARAMETER): WideDayColumn[] {
+  const detected: WideDayColumn[] = [];
+  columns.forEach(column => {
+    const parsed = parseDayFromHeader(column);
+    if (parsed) {
+      detected.push({
+        column,
+        day: parsed.day,
+        parameter: parsed.parameterHint || defaultParameter
+      });
+    }
+  });
+  return detected;
+}
+
+// Turn one-row-per-animal data into one row per animal and study day.
+// Values for different parameters on the same day end up on the same row, and the
+// animal's other columns (group, sex, cage...) are copied onto each of its rows.
+export function unpivotWideRows(
+  rows: ParsedData,
+  animalIdColumn: string,
+  dayColumns: WideDayColumn[]
+): ParsedData {
+  const result: ParsedData = [];
+  const dayColumnNames = new Set(dayColumns.map(c => c.column));
+
+  rows.forEach(row => {
+    const animalId = row[animalIdColumn];
+    if (animalId === undefined || animalId === null || animalId === '') return;
+    const animalFields = Object.fromEntries(Object.entries(row).filter(([column]) => !dayColumnNames.has(column)));
+
+    const byDay = new Map<number, Record<string, unknown>>();
+    dayColumns.forEach(({ column, day, parameter }) => {
+      const value = row[column];
+      if (value === undefined || value === null || value === '') return;
+
+      if (!byDay.has(day)) {
+        byDay.set(day, { ...animalFields, [animalIdColumn]: animalId, [WIDE_STUDY_DAY_COLUMN]: day });
+      }
+      byDay.get(day)![parameter] = value;
+    });
+
+    Array.from(byDay.keys())
+      .sort((a, b) => a - b)
+      .forEach(day => result.push(byDay.get(day)!));
+  });
+
+  return result;
+}
+
+// Distinct parameter names produced by a set of day columns, in first-seen order
+export function wideParameters(dayColumns: WideDayColumn[]): string[] {
+  return Array.from(new Set(dayColumns.map(c => c.parameter)));
+}
@@ -0,0 +1,65 @@
+// Workbook reading and tab grouping, run in the import worker so large files don't block the UI
+
+import * as XLSX from 'xlsx';
+import { parseWorksheet, type ParsedSheet } from './HeaderDetection';
+
+export interface ParsedWorkbook {
+  sheetNames: string[];
+  // Sheets with at least one row, by name
+  sheets: Record<string, ParsedSheet>;
+}
+
+export type ProgressCallback = (label: string, done?: number, total?: number) => void;
+
+// Read every sheet with header detection (stacked headers, merged cells), reporting each sheet as it's done
+export function parseWorkbook(data: ArrayBuffer, onProgress: ProgressCallback = () => {}): ParsedWorkbook {
+  onProgress('Reading workbook');
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array' });
+  const sheets: Record<string, ParsedSheet> = {};
+  workbook.SheetNames.forEach((sheetName, index) => {
+    onProgress(`Detecting headers in "${sheetName}"`, index, workbook.SheetNames.length);
+    const sheet = parseWorksheet(workbook.Sheets[sheetName]);
+    if (sheet.allRows.length > 0) sheets[sheetName] = sheet;
+  });
+  onProgress('Workbook read', workbook.SheetNames.length, workbook.SheetNames.length);
+  return { sheetNames: workbook.SheetNames, sheets };
+}
+
+// Helper function to check if two header arrays are identical
+const areHeadersIdentical = (headers1: string[], headers2: string[]): boolean => {
+  if (headers1.length !== headers2.length) return false;
+  return headers1.every((header, index) => header === headers2[index]);
+};
+
+// Helper function to group tabs by identical headers
+export const groupTabsByHeaders = <T extends { tabName: string; columns: string[] }>(tabs: T[]): { tabs: T[]; hasIdenticalHeaders: boolean }[] => {
+  const groups: { tabs: T[]; hasIdenticalHeaders: boolean }[] = [];
+  
+  tabs.forEach(tab => {
+    // Find existing group with identical headers
+    const existingGroup = groups.find(group => 
+      group.tabs.length > 0 && areHeadersIdentical(group.tabs[0].columns, tab.columns)
+    );
+    
+    if (existingGroup) {
+      existingGroup.tabs.push(tab);
+      existingGroup.hasIdenticalHeaders = true;
+    } else {
+      groups.push({ tabs: [tab], hasIdenticalHeaders: false });
+    }
+  });
+  
+  // After all tabs are processed, update hasIdenticalHeaders flag correctly
+  groups.forEach(group => {
+    group.hasIdenticalHeaders = group.tabs.length > 1;
+  });
+  
+  console.log('Final groups after processing:', groups.map(g => ({ 
+    count: g.tabs.length, 
+    hasIdentical: g.hasIdenticalHeaders, 
+    names: g.tabs.map(t => t.tabName),
+    headers: g.tabs[0].columns 
+  })));
+  
+  return groups;
+};